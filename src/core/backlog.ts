@@ -0,0 +1,115 @@
+/**
+ * A line of dialogue that has been shown to the player.
+ *
+ * @interface BacklogEntry
+ * @property {string} speaker - Name of the character who spoke
+ * @property {string} text - The text as displayed, with placeholders resolved
+ * @property {string} sceneId - The scene the line belongs to
+ * @property {number} actionIndex - Index of the dialogue action within its scene
+ */
+export interface BacklogEntry {
+  speaker: string;
+  text: string;
+  sceneId: string;
+  actionIndex: number;
+}
+
+/**
+ * Bounded log of displayed dialogue, oldest first.
+ *
+ * Once the log holds `maxSize` entries, adding a new one drops the oldest.
+ *
+ * @class Backlog
+ * @example
+ * ```typescript
+ * const backlog = new Backlog(2);
+ * backlog.add({ speaker: "Alex", text: "Hi", sceneId: "park", actionIndex: 1 });
+ * backlog.entries; // [{ speaker: "Alex", text: "Hi", ... }]
+ * ```
+ */
+export class Backlog {
+  private _entries: BacklogEntry[] = [];
+  private _maxSize: number;
+  private _added: number = 0;
+
+  /**
+   * Creates a new Backlog instance.
+   * @param {number} [maxSize=200] - Maximum number of entries to keep
+   */
+  constructor(maxSize: number = 200) {
+    this._maxSize = maxSize;
+  }
+
+  /**
+   * Gets the maximum number of entries kept.
+   * @type {number}
+   */
+  get maxSize(): number {
+    return this._maxSize;
+  }
+
+  /**
+   * Gets a copy of all entries, oldest first.
+   * @type {BacklogEntry[]}
+   */
+  get entries(): BacklogEntry[] {
+    return this._entries.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Gets how many entries have been added so far, counting those dropped since.
+   * Pass it to `rewind()` later to remove the entries added after this point.
+   * @type {number}
+   */
+  get added(): number {
+    return this._added;
+  }
+
+  /**
+   * Appends an entry, dropping the oldest entries beyond `maxSize`.
+   * @param {BacklogEntry} entry - The entry to add
+   */
+  add(entry: BacklogEntry): void {
+    this._added++;
+    this._entries.push({ ...entry });
+    if (this._entries.length > this._maxSize) {
+      this._entries.splice(0, this._entries.length - this._maxSize);
+    }
+  }
+
+  /**
+   * Replaces all entries, e.g. when loading a save.
+   * @param {BacklogEntry[]} entries - The entries to restore, oldest first
+   */
+  restore(entries: BacklogEntry[]): void {
+    this._entries = [];
+    entries.forEach((entry) => this.add(entry));
+  }
+
+  /**
+   * Removes the entries added since `added` had the given value, e.g. when the
+   * story is rolled back.
+   * @param {number} added - A value of `added` from earlier
+   * @example
+   * ```typescript
+   * const mark = backlog.added;
+   * backlog.add({ speaker: "Alex", text: "Oops", sceneId: "park", actionIndex: 2 });
+   * backlog.rewind(mark); // "Oops" is gone
+   * ```
+   */
+  rewind(added: number): void {
+    const count = this._added - added;
+    if (count <= 0) {
+      return;
+    }
+    this._entries.splice(Math.max(0, this._entries.length - count));
+    this._added = added;
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this._entries = [];
+  }
+}
@@ -0,0 +1,76 @@
+import type { Condition, ConditionExpression } from "./types.js";
+
+/**
+ * Evaluates a condition against a set of game variables.
+ *
+ * Conditions are either predicate functions or serializable expressions:
+ * - A predicate is called with the variables and its result is used directly
+ * - `{ var }` checks that the variable is truthy
+ * - `{ var, eq | ne | gt | gte | lt | lte | in }` compares the variable; every
+ *   comparison given must hold
+ * - `{ all }`, `{ any }` and `{ not }` combine other conditions
+ *
+ * @param {Condition} condition - The condition to evaluate
+ * @param {Object<string, *>} variables - The game variables to evaluate against
+ * @returns {boolean} Whether the condition holds
+ * @throws {Error} If the expression is not a recognized shape
+ *
+ * @example
+ * ```typescript
+ * evaluateCondition({ var: "gold", gte: 10 }, { gold: 12 }); // true
+ * evaluateCondition({ not: { var: "hasKey" } }, { hasKey: true }); // false
+ * evaluateCondition((vars) => vars.trust > 3, { trust: 5 }); // true
+ * ```
+ */
+export function evaluateCondition(
+  condition: Condition,
+  variables: Record<string, any>
+): boolean {
+  if (typeof condition === "function") {
+    return Boolean(condition(variables));
+  }
+
+  if ("all" in condition) {
+    return condition.all.every((inner) => evaluateCondition(inner, variables));
+  }
+  if ("any" in condition) {
+    return condition.any.some((inner) => evaluateCondition(inner, variables));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, variables);
+  }
+  if ("var" in condition) {
+    return compareVariable(condition, variables[condition.var]);
+  }
+
+  throw new Error(`Unrecognized condition: ${JSON.stringify(condition)}`);
+}
+
+/**
+ * Checks a variable value against the comparisons of a `{ var }` expression.
+ * @param {Object} expression - The variable expression
+ * @param {*} value - The current value of the variable
+ * @returns {boolean} True if every comparison holds, or if the value is truthy
+ *   when no comparison is given
+ * @internal
+ */
+function compareVariable(
+  expression: Extract<ConditionExpression, { var: string }>,
+  value: any
+): boolean {
+  const { eq, ne, gt, gte, lt, lte } = expression;
+  const comparisons = [
+    "eq" in expression ? value === eq : null,
+    "ne" in expression ? value !== ne : null,
+    gt !== undefined ? value > gt : null,
+    gte !== undefined ? value >= gte : null,
+    lt !== undefined ? value < lt : null,
+    lte !== undefined ? value <= lte : null,
+    expression.in !== undefined ? expression.in.includes(value) : null,
+  ].filter((result): result is boolean => result !== null);
+
+  if (comparisons.length === 0) {
+    return Boolean(value);
+  }
+  return comparisons.every(Boolean);
+}
@@ -1,17 +1,66 @@
-import type { Script, Scene } from "./types.js";
+import { Script } from "./types.js";
+import type {
+  Scene,
+  SceneAction,
+  ChoiceOption,
+  Condition,
+  SaveData,
+  StageState,
+} from "./types.js";
 import { StateManager } from "./state.js";
+import { Stage } from "./stage.js";
+import { evaluateCondition } from "./conditions.js";
+import { interpolate } from "./template.js";
+import { stripMarkup } from "./markup.js";
+import { splitGraphemes } from "../util/graphemes.js";
+import type { Formatter } from "./template.js";
+import { SAVE_SCHEMA_VERSION, SaveMigrations } from "./save.js";
+import { Backlog } from "./backlog.js";
+import { SeenLines } from "./seen.js";
+import type { SeenLinesData } from "./seen.js";
+import type { SaveMigration } from "./save.js";
+import type { StorageAdapter } from "../storage/storage.js";
+import { MemoryStorageAdapter } from "../storage/storage.js";
 import type { RendererOptions } from "../renderer/renderer.js";
 import { DOMRenderer } from "../renderer/renderer.js";
+import type { Renderer } from "../renderer/types.js";
+import { wait } from "../renderer/effects.js";
+import type { CancellablePromise } from "../util/promise.js";
 
 /**
  * Types of events emitted by the VNEngine.
  *
  * - `"sceneChange"` - Emitted when the current scene changes (includes `sceneId` in data)
  * - `"variableChange"` - Emitted when a game variable is set (includes `key` and `value` in data)
+ * - `"missingVariable"` - Emitted when text references an undefined variable (includes `key` and `text` in data)
+ * - `"load"` - Emitted when a snapshot or save slot has been restored (includes `sceneId` in data)
+ * - `"rollback"` - Emitted when `back()` rewinds to an earlier line (includes `sceneId` in data)
+ * - `"backlog"` - Emitted when a displayed line is added to the backlog (the {@link BacklogEntry} is the data)
+ * - `"action"` - Emitted for each action the engine steps through (includes `action` and `index` in data;
+ *   dialogue text is already interpolated)
+ * - `"autoPlayChange"` - Emitted when auto-play is turned on or off (includes `enabled` in data)
+ * - `"skipChange"` - Emitted when skip mode is turned on or off, also when it stops by itself at
+ *   unseen text (includes `enabled` in data)
+ * - `"error"` - Emitted when a choice picked in the renderer cannot be applied, e.g. because its
+ *   `jumpTo` target does not exist (includes `error` and `option` in data). The choices are
+ *   shown again.
+ * - `"end"` - Emitted when `advance()` runs past the last action of the last scene, or reaches
+ *   a `"return"` action outside of a call
  *
  * @typedef {string} EngineEventType
  */
-export type EngineEventType = "sceneChange" | "variableChange";
+export type EngineEventType =
+  | "sceneChange"
+  | "variableChange"
+  | "missingVariable"
+  | "load"
+  | "rollback"
+  | "backlog"
+  | "action"
+  | "autoPlayChange"
+  | "skipChange"
+  | "error"
+  | "end";
 
 /**
  * Event object passed to engine event listeners.
@@ -34,20 +83,81 @@ export interface EngineEvent {
  */
 export type EngineEventListener = (event: EngineEvent) => void;
 
+/**
+ * Options for auto-play, which advances past dialogue without clicks.
+ *
+ * Once a line is fully displayed, auto-play waits `baseDelay` plus
+ * `characterDelay` for every character of the line before moving on, so that
+ * longer lines stay on screen longer.
+ *
+ * @interface AutoPlayOptions
+ * @property {boolean} [enabled=false] - Whether auto-play starts turned on
+ * @property {number} [baseDelay=1000] - Milliseconds to wait after every line
+ * @property {number} [characterDelay=50] - Extra milliseconds to wait per character
+ */
+export interface AutoPlayOptions {
+  enabled?: boolean;
+  baseDelay?: number;
+  characterDelay?: number;
+}
+
+/**
+ * Options for skip mode, which fast-forwards through dialogue.
+ *
+ * @interface SkipOptions
+ * @property {boolean} [unseen=false] - Also skip lines and choices the player has
+ *   never seen. By default, skip mode stops at the first unseen one.
+ * @property {number} [delay=50] - Milliseconds each skipped line stays on screen
+ */
+export interface SkipOptions {
+  unseen?: boolean;
+  delay?: number;
+}
+
 /**
  * Options for creating a VNEngine instance.
  * @typedef {Object} VNEngineOptions
  * @property {Script} script - The story script
  * @property {string|HTMLElement} container - CSS selector or DOM element for rendering
  * @property {string} startScene - ID of the starting scene
- * @property {RendererOptions} [renderer] - Optional renderer configuration
+ * @property {Renderer|RendererOptions} [renderer] - A renderer to present the story with, or
+ *   configuration for the built-in DOM renderer
  * @property {string} [renderer.assetsDirectory] - Base directory for asset paths (e.g., "assets", "/assets", "./assets")
+ * @property {Object<string, Formatter>} [formatters] - Custom formatters for `{var|formatter}` placeholders in dialogue
+ * @property {StorageAdapter} [storage] - Where save slots are stored (default: in memory)
+ * @property {string} [storyVersion] - Version of the story, recorded in saves
+ * @property {SaveMigration[]} [migrations] - Migrations that upgrade saves from older story versions
+ * @property {number} [rollbackDepth=100] - How many earlier lines `back()` can rewind to (0 disables rollback)
+ * @property {number} [backlogSize=200] - How many displayed lines the backlog keeps
+ * @property {number} [maxCallDepth=100] - How many calls made with `call()` can wait for a
+ *   return at once, to stop runaway recursion
+ * @property {AutoPlayOptions} [autoPlay] - Auto-play delays, and whether it starts turned on
+ * @property {SkipOptions} [skip] - What skip mode skips, and how fast
  */
 export interface VNEngineOptions {
   script: Script;
   container: string | HTMLElement;
   startScene: string;
-  renderer?: RendererOptions;
+  renderer?: Renderer | RendererOptions;
+  formatters?: Record<string, Formatter>;
+  storage?: StorageAdapter;
+  storyVersion?: string;
+  migrations?: SaveMigration[];
+  rollbackDepth?: number;
+  backlogSize?: number;
+  maxCallDepth?: number;
+  autoPlay?: AutoPlayOptions;
+  skip?: SkipOptions;
+}
+
+/**
+ * A line that `back()` can rewind to: a snapshot of the game without the
+ * backlog, and the backlog's `added` count at that line.
+ * @internal
+ */
+interface RollbackPoint {
+  data: Omit<SaveData, "backlog">;
+  backlogAdded: number;
 }
 
 /**
@@ -57,8 +167,11 @@ export interface VNEngineOptions {
  * game state, rendering, and event system. It provides methods for scene navigation,
  * variable management, and event handling.
  *
- * When created in a browser environment, it automatically instantiates a DOMRenderer
- * to display the visual novel.
+ * The engine steps through the actions of the current scene with `advance()`,
+ * keeping track of the stage (background and characters) on its own, and calls the
+ * hooks of its {@link Renderer} to present each action. Any renderer can be passed
+ * in `VNEngineOptions.renderer`; otherwise, when created in a browser environment,
+ * it automatically instantiates a DOMRenderer. Without either, the engine runs headless.
  *
  * @class VNEngine
  * @example
@@ -89,7 +202,38 @@ export class VNEngine {
   private _script: Script;
   private _stateManager: StateManager;
   private listeners: Map<EngineEventType, Set<EngineEventListener>> = new Map();
-  private _renderer: DOMRenderer | null = null;
+  private _renderer: Renderer | null = null;
+  private formatters: Record<string, Formatter>;
+  private storage: StorageAdapter;
+  private storyVersion?: string;
+  private _migrations: SaveMigrations;
+  private rollbackDepth: number;
+  private maxCallDepth: number;
+  private static readonly MAX_JUMPS_PER_STEP = 10000;
+  private static readonly SEEN_LINES_KEY = "seen-lines";
+  /** How long newly seen lines wait to be written to storage together, in milliseconds */
+  private static readonly SEEN_LINES_WRITE_DELAY = 1000;
+  private rollbackStack: RollbackPoint[] = [];
+  private _backlog: Backlog;
+  private _stage: Stage = new Stage();
+  private _actionIndex: number = -1;
+  private awaitingChoice: boolean = false;
+  private advancing: boolean = false;
+  private presentation: CancellablePromise<any> | null = null;
+  private choicePresentation: CancellablePromise<any> | null = null;
+  private pause: CancellablePromise | null = null;
+  private pauseSkippable: boolean = true;
+  private presentedLine: SceneAction | null = null;
+  private autoPlaying: boolean;
+  private autoPlayDelays: { baseDelay: number; characterDelay: number };
+  private skipping: boolean = false;
+  private skipSettings: { unseen: boolean; delay: number };
+  private _seenLines: SeenLines = new SeenLines();
+  private seenLinesStorage: Promise<void>;
+  private storedSeenLines: Promise<SeenLinesData | null>;
+  private seenLinesLoaded: boolean = false;
+  private seenLinesWrite: ReturnType<typeof setTimeout> | null = null;
+  private seenLineCheck: object | null = null;
 
   /**
    * Creates a new VNEngine instance.
@@ -104,9 +248,33 @@ export class VNEngine {
       throw new Error(`Scene with id "${options.startScene}" not found`);
     }
     this._stateManager = new StateManager(options.startScene);
+    this.formatters = options.formatters ?? {};
+    this.storage = options.storage ?? new MemoryStorageAdapter();
+    this.storyVersion = options.storyVersion;
+    this._migrations = new SaveMigrations(options.migrations);
+    this.rollbackDepth = options.rollbackDepth ?? 100;
+    this.maxCallDepth = options.maxCallDepth ?? 100;
+    this.autoPlaying = options.autoPlay?.enabled ?? false;
+    this.autoPlayDelays = {
+      baseDelay: options.autoPlay?.baseDelay ?? 1000,
+      characterDelay: options.autoPlay?.characterDelay ?? 50,
+    };
+    this.skipSettings = {
+      unseen: options.skip?.unseen ?? false,
+      delay: options.skip?.delay ?? 50,
+    };
+    const stored = this.readSeenLines();
+    this.storedSeenLines = stored.catch(() => null);
+    this.seenLinesStorage = stored.then(() => {});
+    this.seenLinesStorage.catch(() => {});
+    this._backlog = new Backlog(options.backlogSize);
+    this.enterScene(scene);
 
-    // Create renderer if we're in a browser environment
-    if (typeof document !== "undefined") {
+    // Use the given renderer, or create a DOM renderer if we're in a browser environment
+    if (VNEngine.isRenderer(options.renderer)) {
+      this._renderer = options.renderer;
+      this._renderer.attach?.(this);
+    } else if (typeof document !== "undefined") {
       this._renderer = new DOMRenderer(
         options.container,
         this,
@@ -118,6 +286,19 @@ export class VNEngine {
       type: "sceneChange",
       data: { sceneId: options.startScene },
     });
+    this.presentScene();
+  }
+
+  /**
+   * Checks whether a `renderer` option is a renderer rather than DOM renderer options.
+   * @param {Renderer|RendererOptions} [renderer] - The option to check
+   * @returns {boolean} True if it implements the Renderer interface
+   * @internal
+   */
+  private static isRenderer(
+    renderer?: Renderer | RendererOptions
+  ): renderer is Renderer {
+    return typeof (renderer as Renderer | undefined)?.showDialogue === "function";
   }
 
   /**
@@ -141,17 +322,938 @@ export class VNEngine {
   }
 
   /**
-   * Jumps to a specific scene by ID.
-   * @param {string} sceneId - The scene ID to jump to
-   * @throws {Error} If the scene is not found
+   * Jumps to a scene, or to a label within a scene.
+   *
+   * The target is a scene ID, `"scene#label"`, or `"#label"` for a label in the
+   * current scene. Jumping to a label continues with the action after it. A jump
+   * within the current scene keeps the stage as it is; entering another scene
+   * removes its characters and emits a `"sceneChange"` event.
+   *
+   * @param {string} target - Where to jump
+   * @throws {Error} If the scene or label is not found
+   * @example
+   * ```typescript
+   * engine.jumpTo("chapter2");
+   * engine.jumpTo("chapter2#ambush");
+   * engine.jumpTo("#question"); // ask again
+   * ```
+   */
+  jumpTo(target: string): void {
+    if (this.moveTo(target)) {
+      this.presentScene();
+    } else if (this._renderer) {
+      this.cancelPresentations();
+      this.advance();
+    }
+  }
+
+  /**
+   * Moves to a jump target without presenting it.
+   * @param {string} target - A scene ID, `"scene#label"` or `"#label"`
+   * @returns {boolean} True if a scene was entered, false if the jump stayed in
+   *   the current scene
+   * @throws {Error} If the scene or label is not found
+   * @internal
    */
-  jumpTo(sceneId: string): void {
+  private moveTo(target: string): boolean {
+    const { scene, actionIndex } = this.resolveTarget(target);
+    if (actionIndex !== -1 && scene === this.currentScene) {
+      this._actionIndex = actionIndex;
+      this.awaitingChoice = false;
+      return false;
+    }
+
+    this._stateManager.currentSceneId = scene.id;
+    this.enterScene(scene);
+    this._actionIndex = actionIndex;
+    this.emitEvent({ type: "sceneChange", data: { sceneId: scene.id } });
+    return true;
+  }
+
+  /**
+   * Finds the scene and action index a jump target refers to.
+   * @param {string} target - A scene ID, `"scene#label"` or `"#label"`
+   * @returns {{scene: Scene, actionIndex: number}} The scene, and the index of the
+   *   label action, or -1 to start at the beginning of the scene
+   * @throws {Error} If the scene or label is not found
+   * @internal
+   */
+  private resolveTarget(target: string): { scene: Scene; actionIndex: number } {
+    const { sceneId, label } = Script.parseTarget(
+      target,
+      this._stateManager.currentSceneId ?? undefined
+    );
     const scene = this._script.getScene(sceneId);
     if (!scene) {
       throw new Error(`Scene with id "${sceneId}" not found`);
     }
-    this._stateManager.currentSceneId = sceneId;
-    this.emitEvent({ type: "sceneChange", data: { sceneId } });
+    if (label === undefined) {
+      return { scene, actionIndex: -1 };
+    }
+
+    const actionIndex = scene.findLabel(label);
+    if (actionIndex === -1) {
+      throw new Error(`Label "${label}" not found in scene "${sceneId}"`);
+    }
+    return { scene, actionIndex };
+  }
+
+  /**
+   * Calls a scene as a subroutine, e.g. a shop or a phone call shared by several scenes.
+   *
+   * The current scene, its position and its stage are pushed onto the call stack and
+   * the called scene is entered like with `jumpTo()`. When the called scene reaches a
+   * `"return"` action, or runs out of actions, the caller resumes after the current
+   * action with its background and characters as they were. Called scenes may jump
+   * to other scenes and make calls of their own before returning.
+   *
+   * The call stack is part of snapshots and saves.
+   *
+   * @param {string} sceneId - The scene ID to call
+   * @throws {Error} If the scene is not found, or `maxCallDepth` calls are already waiting
+   * @example
+   * ```typescript
+   * engine.on("variableChange", (event) => {
+   *   if (event.data.key === "phoneRinging" && event.data.value) {
+   *     engine.call("phoneCall");
+   *   }
+   * });
+   * ```
+   */
+  call(sceneId: string): void {
+    if (!this._script.getScene(sceneId)) {
+      throw new Error(`Scene with id "${sceneId}" not found`);
+    }
+    const callerId = this._stateManager.currentSceneId;
+    if (this._stateManager.callStack.length >= this.maxCallDepth) {
+      throw new Error(
+        `Cannot call scene "${sceneId}": ${this.maxCallDepth} calls are already waiting to return`
+      );
+    }
+
+    if (callerId) {
+      this._stateManager.pushCall({ sceneId: callerId, stage: this.stageState() });
+    }
+    this.jumpTo(sceneId);
+  }
+
+  /**
+   * Returns from a scene entered with `call()` to its caller, restoring the
+   * caller's stage and position. The next step resumes after the call.
+   * @returns {boolean} True if returned, false if no call is waiting
+   * @throws {Error} If the calling scene is no longer in the script
+   * @internal
+   */
+  private returnFromCall(): boolean {
+    const frame = this._stateManager.popCall();
+    if (!frame) {
+      return false;
+    }
+    const scene = this._script.getScene(frame.sceneId);
+    if (!scene) {
+      throw new Error(`Scene with id "${frame.sceneId}" not found`);
+    }
+
+    this._stateManager.currentSceneId = scene.id;
+    this._stage.restore(frame.stage, scene);
+    this._actionIndex = VNEngine.resolveActionIndex(frame.stage, scene);
+    this.awaitingChoice = false;
+    this.emitEvent({ type: "sceneChange", data: { sceneId: scene.id } });
+    this.presentStage();
+    return true;
+  }
+
+  /**
+   * Resets the action index and stage for a scene that is being entered.
+   * Characters are removed; the background is replaced only if the scene has one.
+   * @param {Scene} scene - The scene being entered
+   * @internal
+   */
+  private enterScene(scene: Scene): void {
+    this._actionIndex = -1;
+    this.awaitingChoice = false;
+    this._stage.clear();
+    if (scene.options.background) {
+      this._stage.background = scene.options.background;
+    }
+  }
+
+  /**
+   * Redraws the renderer for a scene that was just entered and advances to its
+   * first line. Does nothing when running headless.
+   * @internal
+   */
+  private presentScene(): void {
+    if (!this._renderer) {
+      return;
+    }
+
+    this.cancelPresentations();
+    this._renderer.clear();
+    this._renderer.setBackground(this._stage.background);
+    this.advance();
+  }
+
+  /**
+   * Redraws the renderer from the stage, e.g. after a save is loaded.
+   * @internal
+   */
+  private presentStage(): void {
+    if (!this._renderer) {
+      return;
+    }
+
+    this.cancelPresentations();
+    this._renderer.clear();
+    this._renderer.setBackground(this._stage.background);
+    for (const { character, state } of this._stage.entries) {
+      this._renderer.showCharacter(character, state);
+      if (!state.visible) {
+        this._renderer.hideCharacter(character);
+      }
+    }
+  }
+
+  /**
+   * Passes an action to the renderer's matching hook.
+   *
+   * The promise returned for dialogue is tracked so `advance()` can finish the line
+   * early. Once the player picks a choice, it is applied with `choose()` and the
+   * engine advances unless the choice jumped to another scene. A choice that
+   * cannot be applied emits an `"error"` event and the choices are shown again.
+   *
+   * @param {SceneAction} action - The action to present
+   * @internal
+   */
+  private present(action: SceneAction): void {
+    const renderer = this._renderer;
+    if (!renderer) {
+      return;
+    }
+
+    switch (action.type) {
+      case "show": {
+        const state = this._stage.getCharacter(action.character!);
+        if (state) {
+          renderer.showCharacter(action.character!, state);
+        }
+        break;
+      }
+
+      case "hide":
+        renderer.hideCharacter(action.character!);
+        break;
+
+      case "setImage":
+        renderer.setCharacterImage(action.character!, action.image!);
+        break;
+
+      case "dialogue": {
+        const presentation = renderer.showDialogue(
+          action.character!,
+          action.text!,
+          action.options
+        );
+        this.presentation = presentation;
+        presentation.then(() => {
+          if (this.presentation === presentation) {
+            this.presentation = null;
+            this.scheduleAutoAdvance();
+          }
+        });
+        break;
+      }
+
+      case "wait": {
+        const skippable = action.skippable !== false;
+        const duration =
+          this.skipping && skippable ? this.skipSettings.delay : action.duration ?? 0;
+        this.startPause(duration, skippable);
+        break;
+      }
+
+      case "choice": {
+        const presentation = renderer.showChoices(action.choices!);
+        this.choicePresentation = presentation;
+        presentation.then((option) => {
+          if (this.choicePresentation !== presentation || !option) {
+            return;
+          }
+          this.choicePresentation = null;
+          let jumped: boolean;
+          try {
+            jumped = this.choose(option);
+          } catch (error) {
+            // Nothing has changed yet, so the player can pick again
+            this.emitEvent({ type: "error", data: { error, option } });
+            this.present(action);
+            return;
+          }
+          if (!jumped) {
+            this.advance();
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Starts a timed pause that advances the story once it is over.
+   * @param {number} duration - How long to pause, in milliseconds
+   * @param {boolean} skippable - Whether `advance()` may end the pause early
+   * @internal
+   */
+  private startPause(duration: number, skippable: boolean): void {
+    const pause = wait(duration);
+    this.pause = pause;
+    this.pauseSkippable = skippable;
+    pause.then(() => {
+      if (this.pause === pause) {
+        this.pause = null;
+        this.advance();
+      }
+    });
+  }
+
+  /**
+   * Shows the rest of the current line at once by cancelling its presentation.
+   * @internal
+   */
+  private finishPresentation(): void {
+    const presentation = this.presentation;
+    if (!presentation) {
+      return;
+    }
+    this.presentation = null;
+    presentation.cancel();
+    this.scheduleAutoAdvance();
+  }
+
+  /**
+   * Starts the pause after the current line once its text is fully displayed:
+   * the skip delay while skipping, its `autoAdvance` option, or the auto-play
+   * delay while auto-play is on.
+   * @internal
+   */
+  private scheduleAutoAdvance(): void {
+    const line = this.presentedLine;
+    if (!line || !this._renderer) {
+      return;
+    }
+
+    const skipping = this.skipping && !this.seenLineCheck;
+    let delay = skipping ? this.skipSettings.delay : line.options?.autoAdvance;
+    if (delay === undefined && this.autoPlaying) {
+      const { baseDelay, characterDelay } = this.autoPlayDelays;
+      delay = baseDelay + characterDelay * splitGraphemes(stripMarkup(line.text ?? "")).length;
+    }
+    if (delay !== undefined) {
+      this.startPause(delay, true);
+    }
+  }
+
+  /**
+   * Gets whether auto-play is on.
+   * @type {boolean}
+   */
+  get isAutoPlaying(): boolean {
+    return this.autoPlaying;
+  }
+
+  /**
+   * Turns auto-play on or off.
+   *
+   * While auto-play is on, the engine advances by itself once each line is fully
+   * displayed, after a delay based on the line's length (see {@link AutoPlayOptions}).
+   * It waits at choices until the player picks one, then carries on. Auto-play
+   * only runs with a renderer. Emits an `"autoPlayChange"` event when the setting
+   * changes.
+   *
+   * @param {boolean} enabled - Whether auto-play should be on
+   * @example
+   * ```typescript
+   * engine.on("autoPlayChange", (event) => {
+   *   autoIndicator.hidden = !event.data.enabled;
+   * });
+   * engine.setAutoPlay(true);
+   * ```
+   */
+  setAutoPlay(enabled: boolean): void {
+    if (enabled === this.autoPlaying) {
+      return;
+    }
+    this.autoPlaying = enabled;
+    this.restartLinePause();
+    this.emitEvent({ type: "autoPlayChange", data: { enabled } });
+  }
+
+  /**
+   * Turns auto-play on if it is off, or off if it is on.
+   * @returns {boolean} Whether auto-play is now on
+   */
+  toggleAutoPlay(): boolean {
+    this.setAutoPlay(!this.autoPlaying);
+    return this.autoPlaying;
+  }
+
+  /**
+   * Gets whether skip mode is on.
+   * @type {boolean}
+   */
+  get isSkipping(): boolean {
+    return this.skipping;
+  }
+
+  /**
+   * Turns skip mode on or off.
+   *
+   * While skip mode is on, the engine shows each line's full text at once and
+   * moves on after the short `delay` of {@link SkipOptions}, also through
+   * skippable waits. It waits at choices until the player picks one. Unless the
+   * `unseen` option is set, skip mode turns itself off at the first line or choice
+   * the player has never seen (see {@link VNEngine.seenLines}); while the seen lines
+   * of earlier playthroughs are still being read, it holds at the line until they
+   * are. Skip mode only runs
+   * with a renderer. Emits a `"skipChange"` event when the setting changes.
+   *
+   * @param {boolean} enabled - Whether skip mode should be on
+   * @example
+   * ```typescript
+   * skipButton.addEventListener("click", () => engine.toggleSkipping());
+   * engine.on("skipChange", (event) => {
+   *   skipButton.classList.toggle("active", event.data.enabled);
+   * });
+   * ```
+   */
+  setSkipping(enabled: boolean): void {
+    if (enabled === this.skipping) {
+      return;
+    }
+    this.skipping = enabled;
+    if (enabled && this.presentation) {
+      this.finishPresentation();
+    } else {
+      this.restartLinePause();
+    }
+    this.emitEvent({ type: "skipChange", data: { enabled } });
+  }
+
+  /**
+   * Turns skip mode on if it is off, or off if it is on.
+   * @returns {boolean} Whether skip mode is now on
+   */
+  toggleSkipping(): boolean {
+    this.setSkipping(!this.skipping);
+    return this.skipping;
+  }
+
+  /**
+   * Starts the pause after a fully displayed line over, e.g. when auto-play or skip
+   * mode is turned on or off and the pause should be shorter, longer, or gone.
+   * @internal
+   */
+  private restartLinePause(): void {
+    if (this.presentation || !this.presentedLine) {
+      return;
+    }
+    const pause = this.pause;
+    if (pause) {
+      this.pause = null;
+      pause.cancel();
+    }
+    this.scheduleAutoAdvance();
+  }
+
+  /**
+   * Gets the lines and choices the player has seen, over every playthrough.
+   *
+   * The engine adds each line and choice as it is displayed, and keeps them in
+   * its storage adapter apart from save slots, so they are not lost when a new
+   * game starts or an old save is loaded.
+   *
+   * @type {SeenLines}
+   */
+  get seenLines(): SeenLines {
+    return this._seenLines;
+  }
+
+  /**
+   * Resolves once the seen lines of earlier playthroughs have been read from
+   * storage and every line seen so far has been written to it.
+   *
+   * Newly seen lines are written together, a second after the first of them is
+   * displayed; reading this property writes any that are still waiting right away.
+   *
+   * @type {Promise<void>}
+   */
+  get seenLinesReady(): Promise<void> {
+    this.writeSeenLines();
+    return this.seenLinesStorage;
+  }
+
+  /**
+   * Forgets every seen line, also in storage.
+   * @returns {Promise<void>} Resolves once storage has been updated
+   */
+  async clearSeenLines(): Promise<void> {
+    this._seenLines.clear();
+    this.cancelSeenLinesWrite();
+    await this.updateSeenLines(() => this.storage.remove(VNEngine.SEEN_LINES_KEY));
+  }
+
+  /**
+   * Reads the seen lines of earlier playthroughs from storage, keeping any seen
+   * in the meantime.
+   * @returns {Promise<SeenLinesData|null>} The stored seen lines, or null if there
+   *   are none
+   * @internal
+   */
+  private async readSeenLines(): Promise<SeenLinesData | null> {
+    try {
+      const raw = await this.storage.get(VNEngine.SEEN_LINES_KEY);
+      if (raw === null) {
+        return null;
+      }
+      const data: SeenLinesData = JSON.parse(raw);
+      this._seenLines.merge(data);
+      return data;
+    } finally {
+      this.seenLinesLoaded = true;
+    }
+  }
+
+  /**
+   * Marks the current action as seen, and schedules a write of the seen lines to
+   * storage if it was not seen before.
+   * @returns {boolean} True if the action had been seen before
+   * @internal
+   */
+  private markSeen(action: SceneAction): boolean {
+    const sceneId = this._stateManager.currentSceneId ?? "";
+    if (!this._seenLines.add(sceneId, SeenLines.keyOf(action, this._actionIndex))) {
+      return true;
+    }
+    this.seenLinesWrite ??= setTimeout(
+      () => this.writeSeenLines(),
+      VNEngine.SEEN_LINES_WRITE_DELAY
+    );
+    return false;
+  }
+
+  /**
+   * Writes the seen lines to storage now if a write is scheduled.
+   * @internal
+   */
+  private writeSeenLines(): void {
+    if (this.seenLinesWrite === null) {
+      return;
+    }
+    this.cancelSeenLinesWrite();
+    this.updateSeenLines(() =>
+      this.storage.set(VNEngine.SEEN_LINES_KEY, JSON.stringify(this._seenLines))
+    );
+  }
+
+  /**
+   * Cancels the scheduled write of the seen lines.
+   * @internal
+   */
+  private cancelSeenLinesWrite(): void {
+    if (this.seenLinesWrite !== null) {
+      clearTimeout(this.seenLinesWrite);
+      this.seenLinesWrite = null;
+    }
+  }
+
+  /**
+   * Holds skip mode at a line that seems unseen while the seen lines of earlier
+   * playthroughs are still being read, then skips on if they include the line,
+   * or stops skipping if they do not.
+   * @param {string} sceneId - The line's scene
+   * @param {string|number} key - The line's key, see {@link SeenLines.keyOf}
+   * @internal
+   */
+  private checkSeenWhenLoaded(sceneId: string, key: string | number): void {
+    const check = {};
+    this.seenLineCheck = check;
+    this.storedSeenLines.then((stored) => {
+      if (this.seenLineCheck !== check) {
+        return;
+      }
+      this.seenLineCheck = null;
+      if (!this.skipping) {
+        return;
+      }
+      if (!stored?.[sceneId]?.includes(key)) {
+        this.stopSkippingAtUnseen();
+      } else if (this.presentation) {
+        this.finishPresentation();
+      } else {
+        this.restartLinePause();
+      }
+    });
+  }
+
+  /**
+   * Turns skip mode off because an unseen line or choice was reached.
+   * @internal
+   */
+  private stopSkippingAtUnseen(): void {
+    this.skipping = false;
+    this.emitEvent({ type: "skipChange", data: { enabled: false } });
+  }
+
+  /**
+   * Queues a storage update for seen lines after the ones already running, so
+   * that they reach storage in order.
+   * @internal
+   */
+  private updateSeenLines(update: () => Promise<void>): Promise<void> {
+    this.seenLinesStorage = this.seenLinesStorage.catch(() => {}).then(update);
+    // Failures are reported through seenLinesReady
+    this.seenLinesStorage.catch(() => {});
+    return this.seenLinesStorage;
+  }
+
+  /**
+   * Cancels the dialogue and choice presentations and the pause that are still running.
+   * @internal
+   */
+  private cancelPresentations(): void {
+    const { presentation, choicePresentation, pause } = this;
+    this.presentation = null;
+    this.choicePresentation = null;
+    this.pause = null;
+    this.presentedLine = null;
+    this.seenLineCheck = null;
+    presentation?.cancel();
+    choicePresentation?.cancel();
+    pause?.cancel();
+  }
+
+  /**
+   * Gets whether the renderer is still presenting the current line, e.g. a
+   * typewriter effect that has not finished.
+   * @type {boolean}
+   */
+  get isPresenting(): boolean {
+    return this.presentation !== null;
+  }
+
+  /**
+   * Gets whether the engine is pausing, for a `"wait"` action or a dialogue
+   * line's `autoAdvance`, and will advance by itself when the time is up.
+   * @type {boolean}
+   */
+  get isWaiting(): boolean {
+    return this.pause !== null;
+  }
+
+  /**
+   * Gets the index of the current action in the current scene.
+   *
+   * This is `-1` when a scene has just been entered and no action has been reached
+   * yet, and the number of actions once the last scene has finished.
+   *
+   * @type {number}
+   */
+  get actionIndex(): number {
+    return this._actionIndex;
+  }
+
+  /**
+   * Gets the action the engine is currently stopped at.
+   * @type {SceneAction|undefined}
+   */
+  get currentAction(): SceneAction | undefined {
+    return this.currentScene?.actions[this._actionIndex];
+  }
+
+  /**
+   * Gets the stage: the background and the characters shown in the current scene.
+   * @type {Stage}
+   */
+  get stage(): Stage {
+    return this._stage;
+  }
+
+  /**
+   * Steps through the story until the next blocking action (dialogue, a choice or
+   * a wait).
+   *
+   * Actions whose `condition` does not hold are skipped. Non-blocking actions
+   * (show, hide, setImage, setVariable, incrementVariable) are applied to the stage
+   * and variables along the way, and jumps are followed. When a scene runs out of actions, the engine returns
+   * to the scene that called it with `call()`, or else moves on to the next scene. A
+   * `"return"` action returns to the caller, or ends the story when no call is
+   * waiting. Every action stepped through emits an `"action"` event.
+   *
+   * Blocking actions record a rollback checkpoint, and dialogue is added to the
+   * backlog. While a choice is waiting for `choose()`, calling `advance()` returns
+   * the same choice without moving. While the renderer is still presenting the
+   * current line, `advance()` finishes it instead of moving on. Calls made from
+   * inside an event listener while the engine is already advancing are ignored.
+   *
+   * With a renderer, a `"wait"` action pauses for its `duration` and then advances
+   * by itself; `advance()` ends the pause early unless the wait is not `skippable`.
+   * Dialogue with an `autoAdvance` option likewise advances by itself once its text
+   * is fully displayed. A headless runner stops at waits and leaves the timing to
+   * its caller.
+   *
+   * @returns {SceneAction|null} The blocking action reached, with dialogue text
+   *   interpolated, or null when the story has ended
+   * @example
+   * ```typescript
+   * const engine = new VNEngine({ script, container: "#game", startScene: "intro" });
+   * let action = engine.advance();
+   * while (action) {
+   *   if (action.type === "choice") {
+   *     engine.choose(action.choices![0]);
+   *   }
+   *   action = engine.advance();
+   * }
+   * ```
+   */
+  advance(): SceneAction | null {
+    if (this.advancing || this.awaitingChoice) {
+      return this.currentAction ?? null;
+    }
+
+    if (this.pause) {
+      if (!this.pauseSkippable) {
+        return this.currentAction ?? null;
+      }
+      const pause = this.pause;
+      this.pause = null;
+      pause.cancel();
+    }
+
+    if (this.presentation) {
+      this.finishPresentation();
+      return this.currentAction ?? null;
+    }
+
+    this.advancing = true;
+    try {
+      return this.step();
+    } finally {
+      this.advancing = false;
+    }
+  }
+
+  /**
+   * Moves forward until a blocking action is reached or the story ends.
+   * @returns {SceneAction|null} The blocking action reached, or null at the end
+   * @internal
+   */
+  private step(): SceneAction | null {
+    let jumps = 0;
+    for (;;) {
+      const scene = this.currentScene;
+      if (!scene) {
+        return null;
+      }
+
+      const actions = scene.actions;
+      if (this._actionIndex >= actions.length) {
+        // The story has already ended
+        return null;
+      }
+
+      this._actionIndex++;
+      if (this._actionIndex >= actions.length) {
+        if (!this.returnFromCall() && !this.next()) {
+          return this.end();
+        }
+        continue;
+      }
+
+      const action = actions[this._actionIndex];
+      if (!this.evaluateCondition(action.condition)) {
+        continue;
+      }
+
+      if (action.type === "return") {
+        this.emitEvent({
+          type: "action",
+          data: { action, index: this._actionIndex },
+        });
+        if (!this.returnFromCall()) {
+          this._actionIndex = actions.length;
+          return this.end();
+        }
+        continue;
+      }
+
+      if (action.type === "jump" && action.jumpTo !== undefined) {
+        if (++jumps > VNEngine.MAX_JUMPS_PER_STEP) {
+          throw new Error(
+            `Jumped ${VNEngine.MAX_JUMPS_PER_STEP} times without reaching dialogue or a choice in scene "${scene.id}"`
+          );
+        }
+        this.emitEvent({
+          type: "action",
+          data: { action, index: this._actionIndex },
+        });
+        if (this.moveTo(action.jumpTo)) {
+          this.presentStage();
+        }
+        continue;
+      }
+
+      if (this.isBlocking(action)) {
+        return this.enterAction(action);
+      }
+      if (this.applyAction(action)) {
+        this.present(action);
+        this.emitEvent({
+          type: "action",
+          data: { action, index: this._actionIndex },
+        });
+      }
+    }
+  }
+
+  /**
+   * Ends the story: clears the dialogue and emits an `"end"` event.
+   * @returns {null} Always null, for `step()` to return
+   * @internal
+   */
+  private end(): null {
+    this._renderer?.clearDialogue();
+    this.emitEvent({ type: "end" });
+    return null;
+  }
+
+  /**
+   * Checks whether an action pauses the story: dialogue with a speaker and text,
+   * a choice with at least one option, or a wait with a duration.
+   * @param {SceneAction} action - The action to check
+   * @returns {boolean} True if the action is blocking
+   * @internal
+   */
+  private isBlocking(action: SceneAction): boolean {
+    switch (action.type) {
+      case "dialogue":
+        return !!action.character && !!action.text;
+      case "choice":
+        return !!action.choices && action.choices.length > 0;
+      case "wait":
+        return (action.duration ?? 0) > 0;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Applies a non-blocking action to the stage or game variables.
+   * @param {SceneAction} action - The action to apply
+   * @returns {boolean} True if the action was applied, false if it was incomplete
+   * @internal
+   */
+  private applyAction(action: SceneAction): boolean {
+    switch (action.type) {
+      case "show":
+        if (action.character) {
+          this._stage.show(action.character, action.position, action.size);
+          return true;
+        }
+        return false;
+
+      case "hide":
+        if (action.character) {
+          this._stage.hide(action.character);
+          return true;
+        }
+        return false;
+
+      case "setImage":
+        if (action.character && action.image) {
+          this._stage.setImage(action.character, action.image);
+          return true;
+        }
+        return false;
+
+      case "setVariable":
+        if (action.key) {
+          const value =
+            typeof action.value === "function"
+              ? action.value(this.getVariable(action.key))
+              : action.value;
+          this.setVariable(action.key, value);
+          return true;
+        }
+        return false;
+
+      case "incrementVariable":
+        if (action.key) {
+          const current = this.getVariable(action.key) ?? 0;
+          this.setVariable(action.key, current + (action.amount ?? 1));
+          return true;
+        }
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Stops at the blocking action at the current index: records a checkpoint
+   * (except for waits, which rollback skips over), interpolates and records
+   * dialogue, and emits an `"action"` event.
+   * @param {SceneAction} action - The blocking action
+   * @param {boolean} [loaded=false] - Whether the action was just restored from a
+   *   save, whose backlog already ends with the line
+   * @returns {SceneAction} The action as presented, with dialogue text interpolated
+   * @internal
+   */
+  private enterAction(action: SceneAction, loaded: boolean = false): SceneAction {
+    const last = loaded ? this._backlog.entries.at(-1) : undefined;
+    const recorded =
+      last !== undefined &&
+      last.sceneId === this._stateManager.currentSceneId &&
+      last.actionIndex === this._actionIndex;
+    if (action.type !== "wait") {
+      // Rollback points count the backlog as it was before their line
+      this.pushRollbackPoint(this._backlog.added - (recorded ? 1 : 0));
+    }
+
+    if (action.type === "choice") {
+      this.awaitingChoice = true;
+    } else if (action.character && action.text) {
+      const text = this.interpolate(action.text);
+      if (!recorded) {
+        this.recordDialogue(action.character.name, text, this._actionIndex);
+      }
+      action = { ...action, text };
+    }
+    this.presentedLine = action.type === "dialogue" ? action : null;
+    this.seenLineCheck = null;
+
+    if (action.type === "dialogue" || action.type === "choice") {
+      const seen = this.markSeen(action);
+      if (this.skipping && !seen && !this.skipSettings.unseen) {
+        if (this.seenLinesLoaded) {
+          // Stop skipping at unseen text
+          this.stopSkippingAtUnseen();
+        } else {
+          const sceneId = this._stateManager.currentSceneId ?? "";
+          this.checkSeenWhenLoaded(sceneId, SeenLines.keyOf(action, this._actionIndex));
+        }
+      }
+    }
+
+    this.present(action);
+    if (this.skipping && !this.seenLineCheck) {
+      this.finishPresentation();
+    }
+    this.emitEvent({
+      type: "action",
+      data: { action, index: this._actionIndex },
+    });
+    return action;
   }
 
   /**
@@ -178,6 +1280,38 @@ export class VNEngine {
     return true;
   }
 
+  /**
+   * Applies a choice option selected by the player.
+   *
+   * Variables in `option.set` are applied through `setVariable()` so that
+   * `"variableChange"` listeners fire, then the engine jumps to `option.jumpTo`
+   * if one is given. Otherwise, call `advance()` to continue the current scene.
+   *
+   * @param {ChoiceOption} option - The selected option
+   * @returns {boolean} True if the option jumped to another scene or a label, false
+   *   if the current scene should continue
+   * @throws {Error} If `option.jumpTo` names a scene or label that does not exist
+   */
+  choose(option: ChoiceOption): boolean {
+    if (option.jumpTo) {
+      this.resolveTarget(option.jumpTo);
+    }
+
+    this.awaitingChoice = false;
+    this.cancelPresentations();
+    if (option.set) {
+      for (const [key, value] of Object.entries(option.set)) {
+        this.setVariable(key, value);
+      }
+    }
+
+    if (option.jumpTo) {
+      this.jumpTo(option.jumpTo);
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Sets a game variable.
    * @param {string} key - Variable name
@@ -205,6 +1339,324 @@ export class VNEngine {
     return this._stateManager.allVariables;
   }
 
+  /**
+   * Evaluates a condition against the current game variables.
+   * @param {Condition} [condition] - The condition to evaluate
+   * @returns {boolean} Whether the condition holds; true when no condition is given
+   */
+  evaluateCondition(condition?: Condition): boolean {
+    if (!condition) {
+      return true;
+    }
+    return evaluateCondition(condition, this.allVariables);
+  }
+
+  /**
+   * Resolves `{placeholder}` references in text against the current game variables.
+   *
+   * Supports nested paths (`{player.name}`) and formatters (`{gold|number}`,
+   * `{count|plural:# coin:# coins}`), including any passed in `VNEngineOptions.formatters`.
+   * Each undefined variable emits a `"missingVariable"` event and its placeholder
+   * is left in the text as written.
+   *
+   * @param {string} text - The text to interpolate
+   * @returns {string} The interpolated text
+   * @throws {Error} If a placeholder uses an unknown formatter
+   */
+  interpolate(text: string): string {
+    return interpolate(text, this.allVariables, {
+      formatters: this.formatters,
+      onMissing: (key) =>
+        this.emitEvent({ type: "missingVariable", data: { key, text } }),
+    });
+  }
+
+  /**
+   * Takes a snapshot of the game that can later be passed to `restore()`.
+   *
+   * The snapshot includes variables, the current scene, scene history, the call
+   * stack, the backlog, and the stage (action index, background and on-screen characters).
+   * The position is also anchored to the nearest action with an `id`.
+   *
+   * @returns {SaveData} A JSON-serializable snapshot of the game
+   */
+  snapshot(): SaveData {
+    return { ...this.gameState(), backlog: this._backlog.entries };
+  }
+
+  /**
+   * Takes a snapshot of the game without the backlog.
+   * @internal
+   */
+  private gameState(): Omit<SaveData, "backlog"> {
+    return {
+      schemaVersion: SAVE_SCHEMA_VERSION,
+      storyVersion: this.storyVersion,
+      timestamp: Date.now(),
+      state: {
+        variables: this._stateManager.allVariables,
+        _currentSceneId: this._stateManager.currentSceneId,
+        sceneHistory: this._stateManager.sceneHistory,
+        callStack: this._stateManager.callStack,
+      },
+      stage: this.stageState(),
+    };
+  }
+
+  /**
+   * Captures the stage and the current position, anchored to the nearest action
+   * with an `id`.
+   * @returns {StageState} The stage state
+   * @internal
+   */
+  private stageState(): StageState {
+    const stage: StageState = {
+      actionIndex: this._actionIndex,
+      background: this._stage.background,
+      characters: this._stage.characters,
+    };
+
+    const actions = this.currentScene?.actions ?? [];
+    for (
+      let index = Math.min(stage.actionIndex, actions.length - 1);
+      index >= 0;
+      index--
+    ) {
+      const id = actions[index].id;
+      if (id !== undefined) {
+        stage.anchor = { id, offset: stage.actionIndex - index };
+        break;
+      }
+    }
+    return stage;
+  }
+
+  /**
+   * Restores a snapshot taken with `snapshot()`.
+   *
+   * Older snapshots are first upgraded with the registered migrations. Variables,
+   * scene, history and stage are then replaced without emitting `"sceneChange"`,
+   * and the engine resumes at the saved action (found through its anchor ID when
+   * possible). Rollback history is cleared. Emits a `"load"` event, followed by an
+   * `"action"` event for the restored line.
+   *
+   * @param {SaveData} data - The snapshot to restore
+   * @throws {SaveMigrationError} If the snapshot cannot be upgraded
+   * @throws {Error} If the snapshot's scene is not in the script
+   */
+  restore(data: SaveData): void {
+    data = this._migrations.migrate(data, this.storyVersion);
+    this.rollbackStack = [];
+    this.applySnapshot(data, "load");
+  }
+
+  /**
+   * Records a rollback point for the current line.
+   *
+   * `advance()` calls this each time it stops at a blocking action (dialogue or
+   * a choice), so that `back()` can return to it later. Only the most recent
+   * `rollbackDepth` points are kept.
+   */
+  checkpoint(): void {
+    this.pushRollbackPoint(this._backlog.added);
+  }
+
+  /**
+   * Records a rollback point that rewinds the backlog to the given `added` count.
+   * @internal
+   */
+  private pushRollbackPoint(backlogAdded: number): void {
+    if (this.rollbackDepth <= 0) {
+      return;
+    }
+
+    // The backlog only grows between lines, so a count is enough to rewind it
+    this.rollbackStack.push({ data: this.gameState(), backlogAdded });
+    if (this.rollbackStack.length > this.rollbackDepth + 1) {
+      this.rollbackStack.shift();
+    }
+  }
+
+  /**
+   * Gets whether `back()` has an earlier line to rewind to.
+   * @type {boolean}
+   */
+  get canGoBack(): boolean {
+    return this.rollbackStack.length > 1;
+  }
+
+  /**
+   * Rewinds to the previous line.
+   *
+   * Variables, scene, background and on-screen characters are put back to what
+   * they were when that line was first displayed, and the lines displayed since
+   * are taken out of the backlog (lines a full backlog dropped meanwhile do not
+   * come back). Emits a `"rollback"` event.
+   *
+   * @returns {boolean} True if the engine rewound, false if there is nothing to rewind to
+   */
+  back(): boolean {
+    if (!this.canGoBack) {
+      return false;
+    }
+
+    // Discard the current line; the previous one is recorded again when redisplayed
+    this.rollbackStack.pop();
+    const point = this.rollbackStack.pop()!;
+    this._backlog.rewind(point.backlogAdded);
+    this.applySnapshot(point.data, "rollback");
+    return true;
+  }
+
+  /**
+   * Applies a snapshot that is already at the current save format and story version,
+   * emits the given event, then re-enters the restored blocking action. The backlog
+   * is replaced only if the snapshot has one.
+   * @param {SaveData} data - The snapshot to apply
+   * @param {EngineEventType} eventType - The event to emit once applied
+   * @throws {Error} If the snapshot's scene is not in the script
+   * @internal
+   */
+  private applySnapshot(
+    data: Omit<SaveData, "backlog"> & Partial<Pick<SaveData, "backlog">>,
+    eventType: "load" | "rollback"
+  ): void {
+    const sceneId = data.state._currentSceneId;
+    const scene = sceneId ? this._script.getScene(sceneId) : undefined;
+    if (!scene) {
+      throw new Error(`Scene with id "${sceneId}" not found`);
+    }
+
+    this._stateManager.restore(data.state);
+    if (data.backlog) {
+      this._backlog.restore(data.backlog);
+    }
+    this._stage.restore(data.stage, scene);
+    this._actionIndex = VNEngine.resolveActionIndex(data.stage, scene);
+    this.awaitingChoice = false;
+    this.emitEvent({ type: eventType, data: { sceneId: scene.id } });
+    this.presentStage();
+
+    const action = this.currentAction;
+    if (action && this.isBlocking(action)) {
+      this.enterAction(action, eventType === "load");
+    }
+  }
+
+  /**
+   * Finds the action a saved stage was at, through its anchor ID when the ID still
+   * exists in the scene.
+   * @param {StageState} stage - The saved stage
+   * @param {Scene} scene - The scene the stage belongs to
+   * @returns {number} The action index
+   * @internal
+   */
+  private static resolveActionIndex(stage: StageState, scene: Scene): number {
+    if (stage.anchor) {
+      const anchorIndex = scene.actions.findIndex(
+        (action) => action.id === stage.anchor!.id
+      );
+      if (anchorIndex !== -1) {
+        return anchorIndex + stage.anchor.offset;
+      }
+    }
+    return stage.actionIndex;
+  }
+
+  /**
+   * Gets the registry of story migrations applied when restoring saves.
+   * @type {SaveMigrations}
+   */
+  get migrations(): SaveMigrations {
+    return this._migrations;
+  }
+
+  /**
+   * Saves the game to a slot in the configured storage adapter.
+   * @param {string} slot - The slot name, e.g. "1" or "autosave"
+   * @returns {Promise<SaveData>} The data that was saved
+   */
+  async save(slot: string): Promise<SaveData> {
+    const data = this.snapshot();
+    await this.storage.set(VNEngine.saveKey(slot), JSON.stringify(data));
+    return data;
+  }
+
+  /**
+   * Loads the game from a slot in the configured storage adapter.
+   * @param {string} slot - The slot name
+   * @returns {Promise<SaveData>} The data that was loaded, before migration
+   * @throws {SaveMigrationError} If the save cannot be upgraded
+   * @throws {Error} If the slot is empty or its scene is not in the script
+   */
+  async load(slot: string): Promise<SaveData> {
+    const raw = await this.storage.get(VNEngine.saveKey(slot));
+    if (raw === null) {
+      throw new Error(`Save slot "${slot}" not found`);
+    }
+
+    const data: SaveData = JSON.parse(raw);
+    this.restore(data);
+    return data;
+  }
+
+  /**
+   * Deletes a save slot.
+   * @param {string} slot - The slot name
+   */
+  async deleteSave(slot: string): Promise<void> {
+    await this.storage.remove(VNEngine.saveKey(slot));
+  }
+
+  /**
+   * Lists the names of all save slots in the configured storage adapter.
+   * @returns {Promise<string[]>} The slot names
+   */
+  async listSaves(): Promise<string[]> {
+    const prefix = VNEngine.saveKey("");
+    return (await this.storage.keys())
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+  }
+
+  /**
+   * Gets the storage key for a save slot.
+   * @param {string} slot - The slot name
+   * @returns {string} The storage key
+   * @internal
+   */
+  private static saveKey(slot: string): string {
+    return `save:${slot}`;
+  }
+
+  /**
+   * Adds a displayed line to the backlog and emits a `"backlog"` event.
+   *
+   * `advance()` calls this each time it stops at dialogue.
+   *
+   * @param {string} speaker - Name of the character who spoke
+   * @param {string} text - The text as displayed
+   * @param {number} actionIndex - Index of the dialogue action in the current scene
+   */
+  recordDialogue(speaker: string, text: string, actionIndex: number): void {
+    const entry = {
+      speaker,
+      text,
+      sceneId: this._stateManager.currentSceneId ?? "",
+      actionIndex,
+    };
+    this._backlog.add(entry);
+    this.emitEvent({ type: "backlog", data: entry });
+  }
+
+  /**
+   * Gets the backlog of displayed dialogue.
+   * @type {Backlog}
+   */
+  get backlog(): Backlog {
+    return this._backlog;
+  }
+
   /**
    * Gets the state manager instance.
    * @type {StateManager}
@@ -215,9 +1667,9 @@ export class VNEngine {
 
   /**
    * Gets the renderer instance.
-   * @type {DOMRenderer|null}
+   * @type {Renderer|null}
    */
-  get renderer(): DOMRenderer | null {
+  get renderer(): Renderer | null {
     return this._renderer;
   }
 
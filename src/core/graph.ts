@@ -0,0 +1,327 @@
+import { Script } from "./types.js";
+import type { Scene, SceneAction } from "./types.js";
+
+/**
+ * A scene in a story graph.
+ *
+ * @interface StoryGraphNode
+ * @property {string} id - The scene's ID
+ * @property {number} lines - Number of dialogue lines in the scene
+ * @property {string[]} characters - Names of the characters who speak or are shown
+ *   in the scene, in order of appearance
+ */
+export interface StoryGraphNode {
+  id: string;
+  lines: number;
+  characters: string[];
+}
+
+/**
+ * How the story gets from one scene to another.
+ *
+ * - `"next"` - The scene ends and the story continues into the next scene
+ * - `"choice"` - A choice option jumps to the scene
+ * - `"jump"` - A `"jump"` action jumps to the scene
+ *
+ * @typedef {("next"|"choice"|"jump")} StoryGraphEdgeKind
+ */
+export type StoryGraphEdgeKind = "next" | "choice" | "jump";
+
+/**
+ * A way from one scene to another in a story graph.
+ *
+ * @interface StoryGraphEdge
+ * @property {string} from - ID of the scene the edge leaves
+ * @property {string} to - ID of the scene the edge enters
+ * @property {StoryGraphEdgeKind} kind - How the story moves between the scenes
+ * @property {string} [label] - The choice option's text, for choice edges
+ * @property {boolean} [conditional] - True if the edge is only taken when a
+ *   condition holds
+ */
+export interface StoryGraphEdge {
+  from: string;
+  to: string;
+  kind: StoryGraphEdgeKind;
+  label?: string;
+  conditional?: boolean;
+}
+
+/**
+ * A graph of how the scenes of a script connect, for reviewing story flow.
+ *
+ * Nodes are scenes, in script order. Edges are choice options and jump actions
+ * that go to a scene (or a label in it), and the fall-through from a scene into
+ * the next one, which is left out when the end of the scene cannot be reached:
+ * an unconditional return, jump, or choice whose every option jumps comes after
+ * the last label. Calls made with `engine.call()` are not part of the script, so
+ * they are not edges.
+ * Jumps to scenes that do not exist are left out; see `validateScript()`.
+ *
+ * The graph can be written as Graphviz DOT, Mermaid or JSON, e.g. to check it
+ * in alongside the script.
+ *
+ * @class StoryGraph
+ * @example
+ * ```typescript
+ * const graph = StoryGraph.fromScript(script);
+ * writeFileSync("story.dot", graph.toDot());
+ * writeFileSync("story.mmd", graph.toMermaid());
+ * writeFileSync("story.json", JSON.stringify(graph, null, 2));
+ * ```
+ */
+export class StoryGraph {
+  private _nodes: StoryGraphNode[];
+  private _edges: StoryGraphEdge[];
+
+  /**
+   * Creates a graph from nodes and edges.
+   * @param {StoryGraphNode[]} nodes - The scenes
+   * @param {StoryGraphEdge[]} edges - The ways between scenes
+   */
+  constructor(nodes: StoryGraphNode[], edges: StoryGraphEdge[]) {
+    this._nodes = nodes;
+    this._edges = edges;
+  }
+
+  /**
+   * Builds the graph of a script.
+   * @param {Script} script - The script
+   * @returns {StoryGraph} The script's graph
+   */
+  static fromScript(script: Script): StoryGraph {
+    const scenes = script.scenes;
+    const nodes: StoryGraphNode[] = [];
+    const edges: StoryGraphEdge[] = [];
+
+    scenes.forEach((scene, index) => {
+      nodes.push(StoryGraph.nodeFor(scene));
+
+      const addEdge = (
+        target: string,
+        kind: StoryGraphEdgeKind,
+        action: SceneAction,
+        label?: string
+      ): void => {
+        const to = Script.parseTarget(target, scene.id).sceneId;
+        if (!script.getScene(to)) {
+          return;
+        }
+        const edge: StoryGraphEdge = { from: scene.id, to, kind };
+        if (label !== undefined) {
+          edge.label = label;
+        }
+        if (action.condition) {
+          edge.conditional = true;
+        }
+        edges.push(edge);
+      };
+
+      let endReachable = true;
+      for (const action of scene.actions) {
+        for (const choice of action.choices ?? []) {
+          if (choice.jumpTo !== undefined) {
+            addEdge(choice.jumpTo, "choice", action, choice.text);
+          }
+        }
+        if (action.type === "jump" && action.jumpTo !== undefined) {
+          addEdge(action.jumpTo, "jump", action);
+        }
+
+        if (action.type === "label") {
+          endReachable = true;
+        } else if (StoryGraph.leavesScene(action)) {
+          endReachable = false;
+        }
+      }
+
+      const next = scenes[index + 1];
+      if (next && endReachable) {
+        edges.push({ from: scene.id, to: next.id, kind: "next" });
+      }
+    });
+
+    return new StoryGraph(nodes, edges);
+  }
+
+  /**
+   * Gets the graph's nodes.
+   * @returns {StoryGraphNode[]} The scenes, in script order
+   */
+  get nodes(): StoryGraphNode[] {
+    return this._nodes.map((node) => ({ ...node, characters: [...node.characters] }));
+  }
+
+  /**
+   * Gets the graph's edges.
+   * @returns {StoryGraphEdge[]} The ways between scenes
+   */
+  get edges(): StoryGraphEdge[] {
+    return this._edges.map((edge) => ({ ...edge }));
+  }
+
+  /**
+   * Finds the scenes reachable from a scene by following edges.
+   * @param {string} sceneId - The scene to start from
+   * @returns {Set<string>} IDs of the reachable scenes, including the start scene
+   *   if it exists
+   */
+  reachableFrom(sceneId: string): Set<string> {
+    const reachable = new Set<string>();
+    const pending = this._nodes.some((node) => node.id === sceneId) ? [sceneId] : [];
+    let id: string | undefined;
+    while ((id = pending.pop()) !== undefined) {
+      if (reachable.has(id)) {
+        continue;
+      }
+      reachable.add(id);
+      for (const edge of this._edges) {
+        if (edge.from === id) {
+          pending.push(edge.to);
+        }
+      }
+    }
+    return reachable;
+  }
+
+  /**
+   * Writes the graph in Graphviz DOT format.
+   *
+   * Nodes are labelled with the scene ID, line count and characters. Choice edges
+   * are labelled with the option's text; conditional edges are dashed.
+   *
+   * @returns {string} The DOT source
+   */
+  toDot(): string {
+    const lines = ["digraph story {", "  node [shape=box];"];
+    for (const node of this._nodes) {
+      const label = StoryGraph.describe(node).map(dotString).join("\\n");
+      lines.push(`  "${dotString(node.id)}" [label="${label}"];`);
+    }
+    for (const edge of this._edges) {
+      const attributes: string[] = [];
+      if (edge.label !== undefined) {
+        attributes.push(`label="${dotString(edge.label)}"`);
+      }
+      if (edge.conditional) {
+        attributes.push("style=dashed");
+      }
+      lines.push(
+        `  "${dotString(edge.from)}" -> "${dotString(edge.to)}"` +
+          (attributes.length > 0 ? ` [${attributes.join(", ")}]` : "") +
+          ";"
+      );
+    }
+    lines.push("}");
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Writes the graph as a Mermaid flowchart.
+   *
+   * Scenes get the IDs `s0`, `s1`, ... in script order, since scene IDs may
+   * contain characters Mermaid does not accept. Conditional edges are dotted.
+   *
+   * @returns {string} The Mermaid source
+   */
+  toMermaid(): string {
+    const ids = new Map(this._nodes.map((node, index) => [node.id, `s${index}`]));
+    const lines = ["flowchart TD"];
+    for (const node of this._nodes) {
+      const label = StoryGraph.describe(node).map(mermaidString).join("<br/>");
+      lines.push(`  ${ids.get(node.id)}["${label}"]`);
+    }
+    for (const edge of this._edges) {
+      const arrow = edge.conditional ? "-.->" : "-->";
+      const label = edge.label !== undefined ? `|"${mermaidString(edge.label)}"|` : "";
+      lines.push(`  ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Converts the graph to plain JSON data.
+   *
+   * Also called by `JSON.stringify(graph)`.
+   *
+   * @returns {{nodes: StoryGraphNode[], edges: StoryGraphEdge[]}} The graph's data
+   */
+  toJSON(): { nodes: StoryGraphNode[]; edges: StoryGraphEdge[] } {
+    return { nodes: this.nodes, edges: this.edges };
+  }
+
+  /**
+   * Summarizes a scene for graph nodes.
+   * @internal
+   */
+  private static nodeFor(scene: Scene): StoryGraphNode {
+    const characters: string[] = [];
+    let lines = 0;
+    for (const action of scene.actions) {
+      if (action.type === "dialogue" && action.text?.trim()) {
+        lines++;
+      }
+      const name = action.character?.name;
+      if (
+        name !== undefined &&
+        (action.type === "dialogue" || action.type === "show") &&
+        !characters.includes(name)
+      ) {
+        characters.push(name);
+      }
+    }
+    return { id: scene.id, lines, characters };
+  }
+
+  /**
+   * Returns true if the story never gets past an action: an unconditional return
+   * or jump, or a choice that runs unconditionally and whose every option jumps.
+   * @internal
+   */
+  private static leavesScene(action: SceneAction): boolean {
+    if (action.type === "return") {
+      return !action.condition;
+    }
+    if (action.type === "jump") {
+      return !action.condition && action.jumpTo !== undefined;
+    }
+    return (
+      action.type === "choice" &&
+      !action.condition &&
+      (action.choices?.length ?? 0) > 0 &&
+      action.choices!.every((choice) => choice.jumpTo !== undefined)
+    );
+  }
+
+  /**
+   * Lines of text describing a node.
+   * @internal
+   */
+  private static describe(node: StoryGraphNode): string[] {
+    const description = [node.id, `${node.lines} ${node.lines === 1 ? "line" : "lines"}`];
+    if (node.characters.length > 0) {
+      description.push(node.characters.join(", "));
+    }
+    return description;
+  }
+}
+
+/**
+ * Escapes text for a double-quoted DOT string.
+ * @internal
+ */
+function dotString(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Escapes text for a double-quoted Mermaid label.
+ * @internal
+ */
+function mermaidString(text: string): string {
+  return text
+    .replace(/&/g, "#amp;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\r?\n/g, "<br/>");
+}
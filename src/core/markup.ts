@@ -0,0 +1,172 @@
+/**
+ * A formatting tag that wraps part of a line.
+ *
+ * - `"b"` / `"i"` - Bold and italic text
+ * - `"color"` - Text color, e.g. `[color=#f00]` or `[color=red]`
+ * - `"size"` - Font size relative to the rest of the line, e.g. `[size=1.5]`
+ * - `"shake"` - Text that trembles
+ * - `"speed"` - Typewriter speed in characters per second, e.g. `[speed=10]`
+ *
+ * @typedef {("b"|"i"|"color"|"size"|"shake"|"speed")} MarkupTag
+ */
+export type MarkupTag = "b" | "i" | "color" | "size" | "shake" | "speed";
+
+/**
+ * A node of parsed dialogue markup.
+ *
+ * - `{ type: "text", text }` - Plain text
+ * - `{ type: "tag", tag, value, children }` - A formatting tag and the nodes it wraps.
+ *   `value` is the text after `=`, for tags that take one.
+ * - `{ type: "wait", duration }` - A pause of `duration` milliseconds in the typewriter
+ *
+ * @typedef {Object} MarkupNode
+ */
+export type MarkupNode =
+  | { type: "text"; text: string }
+  | { type: "tag"; tag: MarkupTag; value?: string; children: MarkupNode[] }
+  | { type: "wait"; duration: number };
+
+type TagNode = Extract<MarkupNode, { type: "tag" }>;
+
+/**
+ * Checks the value of each tag; tags that fail are left in the text as written.
+ * @internal
+ */
+const TAG_VALUES: Record<MarkupTag | "wait", (value: string | undefined) => boolean> = {
+  b: (value) => value === undefined,
+  i: (value) => value === undefined,
+  shake: (value) => value === undefined,
+  color: (value) =>
+    value !== undefined &&
+    /^(#[0-9a-f]{3,8}|[a-z]+|(rgb|hsl)a?\([\d\s.,%]+\))$/i.test(value),
+  size: (value) => isPositiveNumber(value),
+  speed: (value) => isPositiveNumber(value),
+  wait: (value) => isPositiveNumber(value),
+};
+
+const TAG = /\[\[|\]\]|\[(\/?)([a-z]+)(?:=([^[\]]*))?\]/g;
+
+/**
+ * Parses inline markup in dialogue text.
+ *
+ * - `[b]bold[/b]`, `[i]italic[/i]`
+ * - `[color=#f00]red[/color]` - Hex, named, `rgb()` and `hsl()` colors
+ * - `[size=1.5]big[/size]` - Size relative to the surrounding text
+ * - `[shake]scary[/shake]`
+ * - `[speed=10]slowly[/speed]` - Typewriter speed in characters per second
+ * - `[wait=500]` - Typewriter pause in milliseconds; has no closing tag
+ * - `[[` and `]]` - Literal brackets
+ *
+ * Tags that are not recognized, or whose value is not valid, are kept as
+ * plain text, as are closing tags without an opening tag. Closing a tag also
+ * closes any tags opened inside it, and tags left open end with the line.
+ *
+ * @param {string} text - The text to parse
+ * @returns {MarkupNode[]} The parsed nodes
+ *
+ * @example
+ * ```typescript
+ * parseMarkup("It's [b]huge[/b]![wait=300]");
+ * // [
+ * //   { type: "text", text: "It's " },
+ * //   { type: "tag", tag: "b", children: [{ type: "text", text: "huge" }] },
+ * //   { type: "text", text: "!" },
+ * //   { type: "wait", duration: 300 },
+ * // ]
+ * ```
+ */
+export function parseMarkup(text: string): MarkupNode[] {
+  const root: MarkupNode[] = [];
+  const open: TagNode[] = [];
+  const current = () => (open.length > 0 ? open[open.length - 1].children : root);
+
+  let last = 0;
+  for (const match of text.matchAll(TAG)) {
+    appendText(current(), text.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    const [source, closing, name, value] = match;
+    if (name === undefined) {
+      appendText(current(), source[0]);
+    } else if (!(name in TAG_VALUES)) {
+      appendText(current(), source);
+    } else if (closing) {
+      const depth = open.map((node) => node.tag).lastIndexOf(name as MarkupTag);
+      if (depth === -1 || value !== undefined) {
+        appendText(current(), source);
+      } else {
+        open.length = depth;
+      }
+    } else if (!TAG_VALUES[name as MarkupTag | "wait"](value)) {
+      appendText(current(), source);
+    } else if (name === "wait") {
+      current().push({ type: "wait", duration: Number(value) });
+    } else {
+      const node: TagNode = { type: "tag", tag: name as MarkupTag, children: [] };
+      if (value !== undefined) {
+        node.value = value;
+      }
+      current().push(node);
+      open.push(node);
+    }
+  }
+  appendText(current(), text.slice(last));
+
+  return root;
+}
+
+/**
+ * Removes markup from dialogue text, leaving the text a player would read.
+ *
+ * Useful wherever formatting cannot be shown, such as screen reader
+ * announcements or a headless runner's output.
+ *
+ * @param {string} text - The text to strip
+ * @returns {string} The text without tags
+ *
+ * @example
+ * ```typescript
+ * stripMarkup("It's [b]huge[/b]![wait=300] [[sic]]"); // "It's huge! [sic]"
+ * ```
+ */
+export function stripMarkup(text: string): string {
+  return markupText(parseMarkup(text));
+}
+
+/**
+ * Joins the text of parsed markup nodes.
+ * @param {MarkupNode[]} nodes - The nodes
+ * @returns {string} Their text, without tags
+ */
+export function markupText(nodes: MarkupNode[]): string {
+  return nodes
+    .map((node) =>
+      node.type === "text" ? node.text : node.type === "tag" ? markupText(node.children) : ""
+    )
+    .join("");
+}
+
+/**
+ * Appends text to a list of nodes, joining it with a text node at the end.
+ * @internal
+ */
+function appendText(nodes: MarkupNode[], text: string): void {
+  if (text === "") {
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+/**
+ * Returns true if a tag value is a number greater than zero.
+ * @internal
+ */
+function isPositiveNumber(value: string | undefined): boolean {
+  const number = Number(value);
+  return value?.trim() !== "" && Number.isFinite(number) && number > 0;
+}
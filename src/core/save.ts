@@ -0,0 +1,220 @@
+import type { SaveData } from "./types.js";
+
+/**
+ * The current version of the save data format.
+ *
+ * Bumped whenever the shape of {@link SaveData} changes. Saves written with an
+ * older version are upgraded by the engine's built-in schema migrations before
+ * any story migrations run.
+ */
+export const SAVE_SCHEMA_VERSION = 3;
+
+/**
+ * Built-in migrations between save schema versions, keyed by the version they upgrade from.
+ * @internal
+ */
+const SCHEMA_MIGRATIONS: Record<number, (data: any) => any> = {
+  // 2: added the dialogue backlog
+  1: (data) => ({ ...data, backlog: [] }),
+  // 3: added the call stack
+  2: (data) => ({ ...data, state: { ...data.state, callStack: [] } }),
+};
+
+/**
+ * A function that upgrades save data written for one story version to the next.
+ *
+ * @interface SaveMigration
+ * @property {string} [from] - The story version this migration upgrades from. Omit it to
+ *   upgrade saves made before the story had a version.
+ * @property {string} to - The story version this migration produces
+ * @property {Function} migrate - Receives the old save data and returns the upgraded data
+ *
+ * @example
+ * ```typescript
+ * const migration: SaveMigration = {
+ *   from: "1.0",
+ *   to: "1.1",
+ *   migrate: (data) => {
+ *     data.state.variables.trust = data.state.variables.affection ?? 0;
+ *     delete data.state.variables.affection;
+ *     return data;
+ *   },
+ * };
+ * ```
+ */
+export interface SaveMigration {
+  from?: string;
+  to: string;
+  migrate: (data: SaveData) => SaveData;
+}
+
+/**
+ * Error thrown when save data cannot be upgraded to the current versions.
+ *
+ * The message is suitable for showing to players. `fromVersion` and `toVersion`
+ * identify the step that failed and `cause` holds the underlying error, if any.
+ *
+ * @class SaveMigrationError
+ * @extends Error
+ */
+export class SaveMigrationError extends Error {
+  /** The version the save data was at when migration failed */
+  readonly fromVersion: string | number | undefined;
+  /** The version migration was trying to reach */
+  readonly toVersion: string | number | undefined;
+
+  /**
+   * Creates a new SaveMigrationError instance.
+   * @param {string} message - Description of the failure
+   * @param {string|number} [fromVersion] - The version the save data was at
+   * @param {string|number} [toVersion] - The version migration was trying to reach
+   * @param {*} [cause] - The underlying error
+   */
+  constructor(
+    message: string,
+    fromVersion?: string | number,
+    toVersion?: string | number,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "SaveMigrationError";
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/**
+ * Registry of story migrations used to upgrade older save data.
+ *
+ * Migrations are chained: a save at "1.0" is upgraded through "1.1" and "1.2"
+ * if migrations for each step are registered.
+ *
+ * @class SaveMigrations
+ * @example
+ * ```typescript
+ * const migrations = new SaveMigrations();
+ * migrations.register({ from: "1.0", to: "1.1", migrate: (data) => data });
+ * const upgraded = migrations.migrate(oldSave, "1.1");
+ * ```
+ */
+export class SaveMigrations {
+  private migrations: Map<string | undefined, SaveMigration> = new Map();
+
+  /**
+   * Creates a new SaveMigrations registry.
+   * @param {SaveMigration[]} [migrations=[]] - Migrations to register initially
+   */
+  constructor(migrations: SaveMigration[] = []) {
+    migrations.forEach((migration) => this.register(migration));
+  }
+
+  /**
+   * Registers a migration.
+   * @param {SaveMigration} migration - The migration to register
+   * @throws {Error} If a migration from the same story version is already registered
+   */
+  register(migration: SaveMigration): void {
+    if (this.migrations.has(migration.from)) {
+      throw new Error(
+        `Migration from story version "${migration.from}" already exists`
+      );
+    }
+    this.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * Upgrades save data to the current schema version and the given story version.
+   *
+   * Schema migrations run first, then registered story migrations are applied in
+   * a chain until the save's `storyVersion` matches `storyVersion`. The input is
+   * not modified; it is returned as-is when it is already up to date.
+   *
+   * @param {SaveData} data - The save data to upgrade
+   * @param {string} [storyVersion] - The story version to upgrade to
+   * @returns {SaveData} The upgraded save data
+   * @throws {SaveMigrationError} If the save is from a newer schema, no migration
+   *   path exists, or a migration throws
+   */
+  migrate(data: SaveData, storyVersion?: string): SaveData {
+    let current: any = data;
+    if (
+      data.schemaVersion !== SAVE_SCHEMA_VERSION ||
+      data.storyVersion !== storyVersion
+    ) {
+      current = structuredClone(data);
+    }
+    current.schemaVersion ??= 1;
+
+    if (current.schemaVersion > SAVE_SCHEMA_VERSION) {
+      throw new SaveMigrationError(
+        `Save was created by a newer version of the engine (save format ${current.schemaVersion}, supported ${SAVE_SCHEMA_VERSION})`,
+        current.schemaVersion,
+        SAVE_SCHEMA_VERSION
+      );
+    }
+    while (current.schemaVersion < SAVE_SCHEMA_VERSION) {
+      const from = current.schemaVersion;
+      current = SaveMigrations.apply(
+        SCHEMA_MIGRATIONS[from],
+        current,
+        from,
+        from + 1
+      );
+      current.schemaVersion = from + 1;
+    }
+
+    const visited = new Set<string | undefined>();
+    while (current.storyVersion !== storyVersion) {
+      const from = current.storyVersion;
+      const migration = this.migrations.get(from);
+      if (!migration || visited.has(from)) {
+        throw new SaveMigrationError(
+          `No migration path from story version "${from}" to "${storyVersion}"`,
+          from,
+          storyVersion
+        );
+      }
+      visited.add(from);
+      current = SaveMigrations.apply(
+        migration.migrate,
+        current,
+        from,
+        migration.to
+      );
+      current.storyVersion = migration.to;
+    }
+
+    return current;
+  }
+
+  /**
+   * Runs a single migration step, wrapping failures in a SaveMigrationError.
+   * @internal
+   */
+  private static apply(
+    migrate: ((data: any) => any) | undefined,
+    data: any,
+    from: string | number,
+    to: string | number
+  ): any {
+    if (!migrate) {
+      throw new SaveMigrationError(
+        `No migration from save format ${from} to ${to}`,
+        from,
+        to
+      );
+    }
+    try {
+      return migrate(data);
+    } catch (error) {
+      throw new SaveMigrationError(
+        `Failed to migrate save from version "${from}" to "${to}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        from,
+        to,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Seen lines as stored: for each scene ID, the actions that have been seen,
+ * by action ID where the action has one and by index otherwise.
+ * @typedef {Object<string, Array<string|number>>} SeenLinesData
+ */
+export type SeenLinesData = Record<string, (string | number)[]>;
+
+/**
+ * The set of dialogue lines and choices the player has seen, over every
+ * playthrough.
+ *
+ * Lines are keyed by scene and action: by the action's `id` when it has one,
+ * so that the record survives edits to the script around it, and by its index
+ * in the scene otherwise. Unlike the backlog, seen lines are not part of save
+ * data; the engine keeps them in its storage adapter under their own key.
+ *
+ * @class SeenLines
+ * @example
+ * ```typescript
+ * const seen = new SeenLines();
+ * seen.add("park", 2);
+ * seen.has("park", 2); // true
+ * JSON.stringify(seen); // '{"park":[2]}'
+ * ```
+ */
+export class SeenLines {
+  private scenes: Map<string, Set<string | number>> = new Map();
+
+  /**
+   * Gets the key of an action for {@link SeenLines.add} and {@link SeenLines.has}.
+   * @param {{id?: string}} action - The action
+   * @param {number} index - Index of the action in its scene
+   * @returns {string|number} The action's ID, or its index if it has none
+   */
+  static keyOf(action: { id?: string }, index: number): string | number {
+    return action.id ?? index;
+  }
+
+  /**
+   * Gets the number of seen lines and choices.
+   * @type {number}
+   */
+  get size(): number {
+    let size = 0;
+    for (const keys of this.scenes.values()) {
+      size += keys.size;
+    }
+    return size;
+  }
+
+  /**
+   * Marks an action as seen.
+   * @param {string} sceneId - The scene the action belongs to
+   * @param {string|number} key - The action's key, see {@link SeenLines.keyOf}
+   * @returns {boolean} True if the action was not seen before
+   */
+  add(sceneId: string, key: string | number): boolean {
+    let keys = this.scenes.get(sceneId);
+    if (!keys) {
+      keys = new Set();
+      this.scenes.set(sceneId, keys);
+    }
+    if (keys.has(key)) {
+      return false;
+    }
+    keys.add(key);
+    return true;
+  }
+
+  /**
+   * Returns true if an action has been seen.
+   * @param {string} sceneId - The scene the action belongs to
+   * @param {string|number} key - The action's key, see {@link SeenLines.keyOf}
+   * @returns {boolean} Whether the action has been seen
+   */
+  has(sceneId: string, key: string | number): boolean {
+    return this.scenes.get(sceneId)?.has(key) ?? false;
+  }
+
+  /**
+   * Adds stored seen lines to the ones already recorded.
+   * @param {SeenLinesData} data - Seen lines, as returned by `toJSON()`
+   */
+  merge(data: SeenLinesData): void {
+    for (const [sceneId, keys] of Object.entries(data)) {
+      for (const key of keys) {
+        this.add(sceneId, key);
+      }
+    }
+  }
+
+  /**
+   * Forgets every seen line.
+   */
+  clear(): void {
+    this.scenes.clear();
+  }
+
+  /**
+   * Converts the seen lines to plain JSON data.
+   *
+   * Also called by `JSON.stringify(seenLines)`.
+   *
+   * @returns {SeenLinesData} The seen lines
+   */
+  toJSON(): SeenLinesData {
+    const data: SeenLinesData = {};
+    for (const [sceneId, keys] of this.scenes) {
+      data[sceneId] = [...keys];
+    }
+    return data;
+  }
+}
@@ -0,0 +1,151 @@
+import type {
+  Character,
+  CharacterState,
+  Position,
+  Scene,
+  Size,
+  StageState,
+} from "./types.js";
+
+/**
+ * Tracks what is on screen: the background and every character shown in the scene.
+ *
+ * The stage is updated by the engine as it steps through actions, independently of
+ * any renderer. Renderers read it to draw the screen, and the engine serializes it
+ * into save data.
+ *
+ * @class Stage
+ * @example
+ * ```typescript
+ * const stage = engine.stage;
+ * stage.background; // "park.png"
+ * stage.characters; // [{ name: "Alex", image: "alex.png", position: "left", visible: true }]
+ * ```
+ */
+export class Stage {
+  private _background?: string;
+  private _characters: Map<Character, CharacterState> = new Map();
+
+  /**
+   * Gets the background image currently displayed.
+   * @type {string|undefined}
+   */
+  get background(): string | undefined {
+    return this._background;
+  }
+
+  /**
+   * Sets the background image currently displayed.
+   * @param {string|undefined} path - The background image path
+   */
+  set background(path: string | undefined) {
+    this._background = path;
+  }
+
+  /**
+   * Gets a copy of the state of every character shown in the scene, in the order
+   * they were first shown.
+   * @type {CharacterState[]}
+   */
+  get characters(): CharacterState[] {
+    return [...this._characters.values()].map((state) => ({ ...state }));
+  }
+
+  /**
+   * Gets every character shown in the scene together with a copy of its state.
+   * @type {Array<{character: Character, state: CharacterState}>}
+   */
+  get entries(): { character: Character; state: CharacterState }[] {
+    return [...this._characters].map(([character, state]) => ({
+      character,
+      state: { ...state },
+    }));
+  }
+
+  /**
+   * Gets a copy of a character's state.
+   * @param {Character} character - The character to look up
+   * @returns {CharacterState|undefined} The character's state, or undefined if it
+   *   has not been shown in this scene
+   */
+  getCharacter(character: Character): CharacterState | undefined {
+    const state = this._characters.get(character);
+    return state ? { ...state } : undefined;
+  }
+
+  /**
+   * Shows a character, keeping its previous position and size unless new ones are given.
+   * @param {Character} character - The character to show
+   * @param {Position} [position] - New position
+   * @param {Size} [size] - New size
+   */
+  show(character: Character, position?: Position, size?: Size): void {
+    let state = this._characters.get(character);
+    if (!state) {
+      state = { name: character.name, image: character.image, visible: false };
+      this._characters.set(character, state);
+    }
+
+    state.visible = true;
+    if (position) {
+      state.position = position;
+    }
+    if (size) {
+      state.size = size;
+    }
+  }
+
+  /**
+   * Hides a character. Characters that have not been shown are ignored.
+   * @param {Character} character - The character to hide
+   */
+  hide(character: Character): void {
+    const state = this._characters.get(character);
+    if (state) {
+      state.visible = false;
+    }
+  }
+
+  /**
+   * Changes a character's sprite. Characters that have not been shown are ignored.
+   * @param {Character} character - The character to update
+   * @param {string} image - The new image path
+   */
+  setImage(character: Character, image: string): void {
+    const state = this._characters.get(character);
+    if (state) {
+      state.image = image;
+    }
+  }
+
+  /**
+   * Removes every character, e.g. when entering a new scene. The background is kept.
+   */
+  clear(): void {
+    this._characters.clear();
+  }
+
+  /**
+   * Replaces the stage with a saved state.
+   *
+   * Characters are matched by name against the characters used in the scene's
+   * actions; saved characters that no longer appear in the scene are dropped.
+   *
+   * @param {StageState} state - The saved stage state
+   * @param {Scene} scene - The scene the state belongs to
+   */
+  restore(state: StageState, scene: Scene): void {
+    this._background = state.background;
+    this._characters.clear();
+
+    const actions = scene.actions;
+    for (const saved of state.characters) {
+      const character = actions.find(
+        (action) => action.character?.name === saved.name
+      )?.character;
+      if (character) {
+        this._characters.set(character, { ...saved });
+      }
+    }
+  }
+}
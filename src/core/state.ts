@@ -1,4 +1,4 @@
-import type { GameState } from "./types.js";
+import type { CallFrame, GameState } from "./types.js";
 
 /**
  * Manages game state including variables and scene history.
@@ -7,8 +7,10 @@ import type { GameState } from "./types.js";
  * - Custom game variables (flags, counters, player choices, etc.)
  * - Current scene tracking
  * - Scene navigation history for back functionality
+ * - The call stack of scenes waiting for a called scene to return
  *
- * State is stored in memory and can be accessed for save/load functionality.
+ * State is stored in memory and can be read with `state` and put back with
+ * `restore()` for save/load functionality.
  *
  * @class StateManager
  * @example
@@ -39,6 +41,7 @@ export class StateManager {
       variables: {},
       _currentSceneId: initialSceneId,
       sceneHistory: [],
+      callStack: [],
     };
   }
 
@@ -54,6 +57,22 @@ export class StateManager {
     return { ...this._state };
   }
 
+  /**
+   * Replaces the current game state, e.g. when loading a save.
+   *
+   * The given state is copied so later changes to it do not affect the manager.
+   *
+   * @param {GameState} state - The state to restore
+   */
+  restore(state: GameState): void {
+    this._state = {
+      variables: { ...state.variables },
+      _currentSceneId: state._currentSceneId,
+      sceneHistory: [...state.sceneHistory],
+      callStack: (state.callStack ?? []).map(StateManager.copyFrame),
+    };
+  }
+
   /**
    * Sets a game variable.
    * @param {string} key - Variable name
@@ -121,4 +140,47 @@ export class StateManager {
   clearHistory(): void {
     this._state.sceneHistory = [];
   }
+
+  /**
+   * Gets a copy of the call stack.
+   *
+   * Each frame is a scene waiting for the scene it called to return, with the
+   * innermost caller at the end.
+   *
+   * @returns {CallFrame[]} The waiting callers, outermost first
+   */
+  get callStack(): CallFrame[] {
+    return this._state.callStack.map(StateManager.copyFrame);
+  }
+
+  /**
+   * Pushes a caller onto the call stack.
+   * @param {CallFrame} frame - The calling scene and its stage
+   */
+  pushCall(frame: CallFrame): void {
+    this._state.callStack.push(StateManager.copyFrame(frame));
+  }
+
+  /**
+   * Removes the innermost caller from the call stack.
+   * @returns {CallFrame|undefined} The caller to return to, or undefined if no call is waiting
+   */
+  popCall(): CallFrame | undefined {
+    return this._state.callStack.pop();
+  }
+
+  /**
+   * Copies a call frame so that it shares no objects with the original.
+   * @internal
+   */
+  private static copyFrame(frame: CallFrame): CallFrame {
+    const stage = {
+      ...frame.stage,
+      characters: frame.stage.characters.map((character) => ({ ...character })),
+    };
+    if (stage.anchor) {
+      stage.anchor = { ...stage.anchor };
+    }
+    return { sceneId: frame.sceneId, stage };
+  }
 }
@@ -0,0 +1,125 @@
+/**
+ * A function that formats a variable value for display.
+ *
+ * Formatters are applied with `{path|name:arg1:arg2}` placeholders. They receive the
+ * value (or the previous formatter's output when chained) followed by any arguments.
+ *
+ * @callback Formatter
+ * @param {*} value - The value to format
+ * @param {...string} args - Arguments given after the formatter name
+ * @returns {*} The formatted value
+ */
+export type Formatter = (value: any, ...args: string[]) => any;
+
+/**
+ * Options for interpolating text.
+ *
+ * @interface InterpolateOptions
+ * @property {Object<string, Formatter>} [formatters] - Additional formatters by name.
+ *   These take precedence over the built-in formatters.
+ * @property {Function} [onMissing] - Called with the path of each placeholder whose
+ *   variable is undefined. The placeholder is left in the text as written.
+ */
+export interface InterpolateOptions {
+  /** Additional formatters by name */
+  formatters?: Record<string, Formatter>;
+  /** Callback for placeholders whose variable is undefined */
+  onMissing?: (path: string) => void;
+}
+
+/**
+ * Formatters available in every placeholder.
+ *
+ * - `number` - Locale-formatted number, with an optional fixed number of decimals (`{gold|number:2}`)
+ * - `plural` - Picks the singular or plural form by value; `#` is replaced with the value
+ *   (`{count|plural:# apple:# apples}`)
+ * - `upper` / `lower` - Changes the case of the value
+ */
+export const defaultFormatters: Record<string, Formatter> = {
+  number: (value, decimals) => {
+    const digits = decimals === undefined ? undefined : Number(decimals);
+    return Number(value).toLocaleString(undefined, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
+  },
+  plural: (value, singular = "", plural = singular) =>
+    (Number(value) === 1 ? singular : plural).replace(/#/g, String(value)),
+  upper: (value) => String(value).toUpperCase(),
+  lower: (value) => String(value).toLowerCase(),
+};
+
+const PLACEHOLDER = /\{\{|\}\}|\{([^{}]+)\}/g;
+
+/**
+ * Resolves `{placeholder}` references in text against game variables.
+ *
+ * - `{name}` - Replaced with the variable's value
+ * - `{player.name}` / `{party.0}` - Nested paths into objects and arrays
+ * - `{gold|number}` - Pipes the value through one or more formatters
+ * - `{{` and `}}` - Literal braces
+ *
+ * Placeholders whose variable is undefined are left as written and reported
+ * through `options.onMissing`.
+ *
+ * @param {string} text - The text to interpolate
+ * @param {Object<string, *>} variables - The variables to resolve against
+ * @param {InterpolateOptions} [options={}] - Formatters and missing-variable callback
+ * @returns {string} The interpolated text
+ * @throws {Error} If a placeholder uses an unknown formatter
+ *
+ * @example
+ * ```typescript
+ * interpolate("Welcome back, {player.name}!", { player: { name: "Alex" } });
+ * // "Welcome back, Alex!"
+ * interpolate("You have {count|plural:# coin:# coins}.", { count: 3 });
+ * // "You have 3 coins."
+ * ```
+ */
+export function interpolate(
+  text: string,
+  variables: Record<string, any>,
+  options: InterpolateOptions = {}
+): string {
+  return text.replace(PLACEHOLDER, (match, body?: string) => {
+    if (body === undefined) {
+      return match[0];
+    }
+
+    const [path, ...pipes] = body.split("|").map((part) => part.trim());
+    let value = resolvePath(variables, path);
+    if (value === undefined) {
+      options.onMissing?.(path);
+      return match;
+    }
+
+    for (const pipe of pipes) {
+      const [name, ...args] = pipe.split(":");
+      const formatter = options.formatters?.[name] ?? defaultFormatters[name];
+      if (!formatter) {
+        throw new Error(`Unknown formatter "${name}" in "${match}"`);
+      }
+      value = formatter(value, ...args);
+    }
+
+    return String(value);
+  });
+}
+
+/**
+ * Looks up a dot-separated path in an object.
+ * @param {Object<string, *>} variables - The object to look in
+ * @param {string} path - Dot-separated path, e.g. "player.name"
+ * @returns {*} The value at the path, or undefined if any segment is missing
+ * @internal
+ */
+function resolvePath(variables: Record<string, any>, path: string): any {
+  let value: any = variables;
+  for (const segment of path.split(".")) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
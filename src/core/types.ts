@@ -1,3 +1,5 @@
+import type { BacklogEntry } from "./backlog.js";
+
 /**
  * Types of actions that can occur within a scene.
  *
@@ -5,35 +7,88 @@
  * - `"show"` - Show a character on screen with optional position and size
  * - `"hide"` - Hide a character from the screen
  * - `"setImage"` - Change a character's sprite/image
+ * - `"choice"` - Present a menu of options and wait for the player to pick one
+ * - `"setVariable"` - Set a game variable to a value, or to the result of an updater function
+ * - `"incrementVariable"` - Add an amount to a numeric game variable
+ * - `"return"` - Go back to the scene that entered this one with `engine.call()`
+ * - `"label"` - Mark a point in the scene that jumps can target
+ * - `"jump"` - Continue at another scene, or at a label (`"scene#label"`)
+ * - `"wait"` - Pause the story for a number of milliseconds
  *
  * @typedef {string} SceneActionType
  */
-export type SceneActionType = "dialogue" | "show" | "hide" | "setImage";
+export type SceneActionType =
+  | "dialogue"
+  | "show"
+  | "hide"
+  | "setImage"
+  | "choice"
+  | "setVariable"
+  | "incrementVariable"
+  | "return"
+  | "label"
+  | "jump"
+  | "wait";
 
 /**
  * Options for dialogue display.
  * @typedef {Object} DialogueOptions
  * @property {("fade"|"typewriter")} [effect] - Text effect to apply
+ * @property {string} [id] - Stable ID for the dialogue action, used to anchor saves
+ * @property {number} [autoAdvance] - Milliseconds to wait once the text is fully displayed
+ *   before moving on without a click
  */
 export interface DialogueOptions {
   effect?: "fade" | "typewriter";
+  id?: string;
+  autoAdvance?: number;
+}
+
+/**
+ * The named positions the DOM renderer places characters at, as accepted by
+ * {@link Position}, script validation and the story format importers.
+ * @type {string[]}
+ */
+export const NAMED_POSITIONS = [
+  "left",
+  "center",
+  "right",
+  "far-left",
+  "far-right",
+  "top",
+  "bottom",
+  "top-left",
+  "top-center",
+  "top-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+] as const;
+
+/**
+ * A position name from {@link NAMED_POSITIONS}.
+ * @typedef {string} NamedPosition
+ */
+export type NamedPosition = (typeof NAMED_POSITIONS)[number];
+
+/**
+ * Returns true if a string is one of the {@link NAMED_POSITIONS}.
+ * @param {string} value - The string to check
+ * @returns {boolean} Whether it names a position
+ */
+export function isNamedPosition(value: string): value is NamedPosition {
+  return (NAMED_POSITIONS as readonly string[]).includes(value);
 }
 
 /**
  * Character position - can be a named position or coordinate object.
  * @typedef {string|Object} Position
- * @property {("left"|"center"|"right"|"far-left"|"far-right")} [named] - Named position
+ * @property {NamedPosition} [named] - Named position, see {@link NAMED_POSITIONS}
  * @property {Object} [coordinates] - Coordinate object with x and y
  * @property {number|string} [coordinates.x] - X coordinate (0.0-1.0 normalized, "100px", or "30%")
  * @property {number|string} [coordinates.y] - Y coordinate (0.0-1.0 normalized, "50px", or "80%")
  */
-export type Position =
-  | "left"
-  | "center"
-  | "right"
-  | "far-left"
-  | "far-right"
-  | { x?: number | string; y?: number | string };
+export type Position = NamedPosition | { x?: number | string; y?: number | string };
 
 /**
  * Character size - width and height dimensions.
@@ -46,6 +101,64 @@ export interface Size {
   height?: number | string;
 }
 
+/**
+ * A single option in a choice menu.
+ *
+ * When selected, any variables in `set` are applied first, then the engine jumps
+ * to `jumpTo` if given. Options without `jumpTo` continue with the next action
+ * in the current scene.
+ *
+ * @interface ChoiceOption
+ * @property {string} text - Label shown to the player
+ * @property {string} [jumpTo] - Where to jump when selected: a scene ID, `"scene#label"`,
+ *   or `"#label"` for a label in the current scene
+ * @property {Object<string, *>} [set] - Game variables to set when selected
+ */
+export interface ChoiceOption {
+  text: string;
+  jumpTo?: string;
+  set?: Record<string, any>;
+}
+
+/**
+ * A serializable condition over game variables.
+ *
+ * - `{ var: "hasKey" }` - True when the variable is truthy
+ * - `{ var: "gold", gte: 10 }` - Compares the variable with `eq`, `ne`, `gt`, `gte`,
+ *   `lt`, `lte` or `in` (every comparison given must hold)
+ * - `{ all: [...] }` - True when every inner condition holds
+ * - `{ any: [...] }` - True when at least one inner condition holds
+ * - `{ not: ... }` - Negates the inner condition
+ *
+ * @typedef {Object} ConditionExpression
+ */
+export type ConditionExpression =
+  | {
+      var: string;
+      eq?: any;
+      ne?: any;
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+      in?: any[];
+    }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+/**
+ * A condition that gates a scene action.
+ *
+ * Either a predicate called with a copy of all game variables, or a
+ * serializable {@link ConditionExpression}.
+ *
+ * @typedef {Function|ConditionExpression} Condition
+ */
+export type Condition =
+  | ((variables: Record<string, any>) => boolean)
+  | ConditionExpression;
+
 /**
  * Represents a single action within a scene, such as dialogue or character visibility changes.
  *
@@ -54,24 +167,58 @@ export interface Size {
  * - For `"show"`: `character`, and optionally `position` and `size` are used
  * - For `"hide"`: only `character` is used
  * - For `"setImage"`: `character` and `image` are used
+ * - For `"choice"`: `choices` is used
+ * - For `"setVariable"`: `key` and `value` are used
+ * - For `"incrementVariable"`: `key` and optionally `amount` are used
+ * - For `"return"`: no other fields are used
+ * - For `"label"`: `label` is used
+ * - For `"jump"`: `jumpTo` is used
+ * - For `"wait"`: `duration` and optionally `skippable` are used
+ *
+ * Any action may carry a `condition`; when it evaluates to false the action is skipped.
+ * Any action may also carry a stable `id`. Saves anchor to the nearest action ID
+ * so that inserting actions earlier in the scene does not shift existing saves.
  *
  * @interface SceneAction
  * @property {SceneActionType} type - The type of action to perform
+ * @property {string} [id] - Stable identifier, unique within the scene
  * @property {Character} [character] - The character involved in this action
  * @property {string} [text] - Dialogue text (for "dialogue" actions)
  * @property {DialogueOptions} [options] - Display options for dialogue
  * @property {Position} [position] - Character position (for "show" actions)
  * @property {Size} [size] - Character size (for "show" actions)
  * @property {string} [image] - New image URL (for "setImage" actions)
+ * @property {ChoiceOption[]} [choices] - Options to present (for "choice" actions)
+ * @property {string} [key] - Variable name (for "setVariable" and "incrementVariable" actions)
+ * @property {*} [value] - New value, or a function from the current value to the new one
+ *   (for "setVariable" actions)
+ * @property {number} [amount] - Amount to add, default 1 (for "incrementVariable" actions)
+ * @property {string} [label] - Name of the label, unique within the scene (for "label" actions)
+ * @property {string} [jumpTo] - Where to jump: a scene ID, `"scene#label"`, or `"#label"`
+ *   for a label in the same scene (for "jump" actions)
+ * @property {number} [duration] - How long to pause, in milliseconds (for "wait" actions)
+ * @property {boolean} [skippable] - Whether a click ends the pause early, default true
+ *   (for "wait" actions)
+ * @property {Condition} [condition] - Condition that must hold for the action to run
  */
 export interface SceneAction {
   type: SceneActionType;
+  id?: string;
   character?: Character;
   text?: string;
   options?: DialogueOptions;
   position?: Position;
   size?: Size;
   image?: string;
+  choices?: ChoiceOption[];
+  key?: string;
+  value?: any;
+  amount?: number;
+  label?: string;
+  jumpTo?: string;
+  duration?: number;
+  skippable?: boolean;
+  condition?: Condition;
 }
 
 /**
@@ -83,6 +230,99 @@ export interface SceneOptions {
   background?: string;
 }
 
+/**
+ * A character in a JSON story file.
+ *
+ * @interface CharacterJSON
+ * @property {string} name - Display name, also used by actions to refer to the character
+ * @property {string} [image] - Sprite image path
+ * @property {Position} [position] - Default position when shown
+ * @property {Size} [size] - Default size when shown
+ */
+export interface CharacterJSON {
+  name: string;
+  image?: string;
+  position?: Position;
+  size?: Size;
+}
+
+/**
+ * An action in a JSON story file.
+ *
+ * Mirrors {@link SceneAction}, except that `character` is the character's name,
+ * dialogue effects are given directly as `effect`, and conditions must be
+ * {@link ConditionExpression}s.
+ *
+ * @interface SceneActionJSON
+ * @property {SceneActionType} type - The type of action to perform
+ * @property {string} [id] - Stable identifier, unique within the scene
+ * @property {string} [character] - Name of the character involved
+ * @property {string} [text] - Dialogue text
+ * @property {("fade"|"typewriter")} [effect] - Dialogue text effect
+ * @property {number} [autoAdvance] - Milliseconds before dialogue moves on by itself
+ * @property {Position} [position] - Character position (for "show" actions)
+ * @property {Size} [size] - Character size (for "show" actions)
+ * @property {string} [image] - New image path (for "setImage" actions)
+ * @property {ChoiceOption[]} [choices] - Options to present (for "choice" actions)
+ * @property {string} [key] - Variable name
+ * @property {*} [value] - New value (for "setVariable" actions)
+ * @property {number} [amount] - Amount to add (for "incrementVariable" actions)
+ * @property {string} [label] - Name of the label (for "label" actions)
+ * @property {string} [jumpTo] - Jump target (for "jump" actions)
+ * @property {number} [duration] - Pause length in milliseconds (for "wait" actions)
+ * @property {boolean} [skippable] - Whether a click ends the pause early (for "wait" actions)
+ * @property {ConditionExpression} [condition] - Condition that must hold for the action to run
+ */
+export interface SceneActionJSON {
+  type: SceneActionType;
+  id?: string;
+  character?: string;
+  text?: string;
+  effect?: "fade" | "typewriter";
+  autoAdvance?: number;
+  position?: Position;
+  size?: Size;
+  image?: string;
+  choices?: ChoiceOption[];
+  key?: string;
+  value?: any;
+  amount?: number;
+  label?: string;
+  jumpTo?: string;
+  duration?: number;
+  skippable?: boolean;
+  condition?: ConditionExpression;
+}
+
+/**
+ * A scene in a JSON story file.
+ *
+ * @interface SceneJSON
+ * @property {string} id - Unique identifier for the scene
+ * @property {string} [background] - Background image path
+ * @property {SceneActionJSON[]} actions - The scene's actions, in order
+ */
+export interface SceneJSON {
+  id: string;
+  background?: string;
+  actions: SceneActionJSON[];
+}
+
+/**
+ * A complete story in JSON form, as read by `Script.fromJSON()` and written by
+ * `script.toJSON()`. Files can be validated against `schema/script.schema.json`.
+ *
+ * @interface ScriptJSON
+ * @property {string} [$schema] - Path or URL of the JSON Schema, for editors
+ * @property {CharacterJSON[]} characters - Every character used by the scenes
+ * @property {SceneJSON[]} scenes - The scenes, in play order
+ */
+export interface ScriptJSON {
+  $schema?: string;
+  characters: CharacterJSON[];
+  scenes: SceneJSON[];
+}
+
 /**
  * Represents a character in the visual novel.
  *
@@ -205,6 +445,7 @@ export class Character {
    * @param {string} text - The dialogue text
    * @param {DialogueOptions} [options] - Optional dialogue options
    * @param {("fade"|"typewriter")} [options.effect] - Text effect to apply
+   * @param {string} [options.id] - Stable ID for this line, used to anchor saves
    * @throws {Error} If character is not added to a scene
    */
   say(text: string, options?: DialogueOptions): void {
@@ -215,6 +456,7 @@ export class Character {
     }
     this._currentScene.addAction({
       type: "dialogue",
+      id: options?.id,
       character: this,
       text,
       options,
@@ -288,6 +530,7 @@ export class Scene {
   private _options: SceneOptions;
   private _actions: SceneAction[] = [];
   private characters: Set<Character> = new Set();
+  private conditionStack: Condition[] = [];
 
   /**
    * Creates a new Scene instance.
@@ -347,6 +590,190 @@ export class Scene {
     });
   }
 
+  /**
+   * Presents a choice menu to the player.
+   *
+   * Processing pauses until an option is picked. Each option can set game
+   * variables, jump to another scene, or simply continue with the next action.
+   *
+   * @param {ChoiceOption[]} choices - The options to present
+   * @param {Object} [options] - Optional choice options
+   * @param {string} [options.id] - Stable ID for this choice, used to anchor saves
+   * @throws {Error} If no options are given
+   * @example
+   * ```typescript
+   * scene.choice([
+   *   { text: "Follow Sam", jumpTo: "alley", set: { trustsSam: true } },
+   *   { text: "Stay on the bench" },
+   * ]);
+   * ```
+   */
+  choice(choices: ChoiceOption[], options?: { id?: string }): void {
+    if (choices.length === 0) {
+      throw new Error(`Choice in scene "${this._id}" must have at least one option`);
+    }
+    this.addAction({
+      type: "choice",
+      id: options?.id,
+      choices,
+    });
+  }
+
+  /**
+   * Sets a game variable at this point in the scene.
+   *
+   * If `value` is a function, it is called with the variable's current value
+   * when the action runs, and its result becomes the new value.
+   *
+   * @param {string} key - Variable name
+   * @param {*} value - New value, or an updater function
+   * @example
+   * ```typescript
+   * alice.say("Thanks for listening.");
+   * scene.set("trust", (v) => (v ?? 0) + 1);
+   * scene.set("metAlice", true);
+   * ```
+   */
+  set(key: string, value: any): void {
+    this.addAction({
+      type: "setVariable",
+      key,
+      value,
+    });
+  }
+
+  /**
+   * Adds an amount to a numeric game variable at this point in the scene.
+   *
+   * A variable that has not been set yet is treated as 0.
+   *
+   * @param {string} key - Variable name
+   * @param {number} [amount=1] - Amount to add (may be negative)
+   */
+  increment(key: string, amount: number = 1): void {
+    this.addAction({
+      type: "incrementVariable",
+      key,
+      amount,
+    });
+  }
+
+  /**
+   * Returns to the calling scene at this point in the scene.
+   *
+   * A scene entered with `engine.call()` resumes its caller after the action the
+   * call was made at. When no call is waiting, the story ends here.
+   *
+   * @example
+   * ```typescript
+   * const shop = new Scene("shop");
+   * shopkeeper.say("Come again!");
+   * shop.return();
+   * ```
+   */
+  return(): void {
+    this.addAction({ type: "return" });
+  }
+
+  /**
+   * Marks the current point in the scene with a label that jumps can target.
+   *
+   * @param {string} name - The label's name, unique within the scene
+   * @throws {Error} If the scene already has a label with this name
+   * @example
+   * ```typescript
+   * scene.label("ask");
+   * sam.say("What's the password?");
+   * scene.choice([
+   *   { text: "Swordfish", jumpTo: "hideout" },
+   *   { text: "Let me think...", jumpTo: "#ask" },
+   * ]);
+   * ```
+   */
+  label(name: string): void {
+    this.addAction({ type: "label", label: name });
+  }
+
+  /**
+   * Jumps to another scene or label at this point in the scene.
+   *
+   * @param {string} target - A scene ID, `"scene#label"`, or `"#label"` for a label
+   *   in this scene
+   * @example
+   * ```typescript
+   * scene.when({ var: "gold", lt: 10 }, () => scene.jump("#work"));
+   * scene.jump("shop");
+   * ```
+   */
+  jump(target: string): void {
+    this.addAction({ type: "jump", jumpTo: target });
+  }
+
+  /**
+   * Pauses the story at this point in the scene.
+   *
+   * With a renderer, the story moves on by itself once the time is up, or when
+   * the player clicks unless `skippable` is false. A headless runner stops at the
+   * pause like at dialogue.
+   *
+   * @param {number} duration - How long to pause, in milliseconds
+   * @param {Object} [options] - Optional wait options
+   * @param {boolean} [options.skippable=true] - Whether a click ends the pause early
+   * @example
+   * ```typescript
+   * alex.say("And the winner is...");
+   * scene.wait(2000, { skippable: false });
+   * alex.say("You!");
+   * ```
+   */
+  wait(duration: number, options?: { skippable?: boolean }): void {
+    this.addAction({
+      type: "wait",
+      duration,
+      skippable: options?.skippable,
+    });
+  }
+
+  /**
+   * Finds the action index of a label.
+   * @param {string} name - The label's name
+   * @returns {number} Index of the `"label"` action, or -1 if the scene has no such label
+   */
+  findLabel(name: string): number {
+    return this._actions.findIndex(
+      (action) => action.type === "label" && action.label === name
+    );
+  }
+
+  /**
+   * Gates a block of actions on a condition.
+   *
+   * Every action queued while `build` runs (by `say()`, `show()`, `choice()`, etc.)
+   * is skipped at runtime unless the condition holds. Blocks can be nested, in
+   * which case all enclosing conditions must hold.
+   *
+   * @param {Condition} condition - Predicate or expression over game variables
+   * @param {Function} build - Callback that queues the gated actions
+   * @example
+   * ```typescript
+   * scene.when({ var: "hasKey" }, () => {
+   *   alice.say("You found the key!");
+   *   alice.image = "alice-happy.png";
+   * });
+   * scene.when((vars) => !vars.hasKey, () => {
+   *   alice.say("The door is locked.");
+   * });
+   * ```
+   */
+  when(condition: Condition, build: () => void): void {
+    this.conditionStack.push(condition);
+    try {
+      build();
+    } finally {
+      this.conditionStack.pop();
+    }
+  }
+
   /**
    * Adds an action to the scene's action queue.
    *
@@ -354,7 +781,12 @@ export class Scene {
    * called internally by character methods like `say()`, `show()`, and `hide()`,
    * but can be called directly for advanced use cases.
    *
+   * Inside a `when()` block, the block's conditions are combined with the
+   * action's own `condition`.
+   *
    * @param {SceneAction} action - The action to add to the scene
+   * @throws {Error} If an action with the same `id`, or a label with the same name,
+   *   already exists in the scene
    * @example
    * ```typescript
    * // Manually add a dialogue action
@@ -367,7 +799,33 @@ export class Scene {
    * ```
    */
   addAction(action: SceneAction): void {
-    this._actions.push(action);
+    if (action.id !== undefined && this._actions.some((a) => a.id === action.id)) {
+      throw new Error(
+        `Action with id "${action.id}" already exists in scene "${this._id}"`
+      );
+    }
+    if (
+      action.type === "label" &&
+      action.label !== undefined &&
+      this.findLabel(action.label) !== -1
+    ) {
+      throw new Error(
+        `Label "${action.label}" already exists in scene "${this._id}"`
+      );
+    }
+
+    if (this.conditionStack.length === 0) {
+      this._actions.push(action);
+      return;
+    }
+
+    const conditions = action.condition
+      ? [...this.conditionStack, action.condition]
+      : [...this.conditionStack];
+    this._actions.push({
+      ...action,
+      condition: conditions.length === 1 ? conditions[0] : { all: conditions },
+    });
   }
 }
 
@@ -446,6 +904,273 @@ export class Script {
   getSceneIndex(id: string): number {
     return this._scenes.findIndex((scene) => scene.id === id);
   }
+
+  /**
+   * Splits a jump target into a scene ID and a label.
+   *
+   * @param {string} target - A scene ID, `"scene#label"`, or `"#label"`
+   * @param {string} [fromSceneId] - The scene a `"#label"` target belongs to
+   * @returns {{sceneId: string, label?: string}} The scene ID, and the label if one is given
+   * @example
+   * ```typescript
+   * Script.parseTarget("shop#buy"); // { sceneId: "shop", label: "buy" }
+   * Script.parseTarget("#buy", "shop"); // { sceneId: "shop", label: "buy" }
+   * Script.parseTarget("shop"); // { sceneId: "shop" }
+   * ```
+   */
+  static parseTarget(
+    target: string,
+    fromSceneId?: string
+  ): { sceneId: string; label?: string } {
+    const hash = target.indexOf("#");
+    if (hash === -1) {
+      return { sceneId: target };
+    }
+    return {
+      sceneId: hash === 0 ? fromSceneId ?? "" : target.slice(0, hash),
+      label: target.slice(hash + 1),
+    };
+  }
+
+  /**
+   * Builds a script from its JSON form.
+   *
+   * Real `Character`, `Scene` and `Script` objects are created, so the result
+   * behaves exactly like a script built in code.
+   *
+   * @param {ScriptJSON|string} json - The story, as an object or a JSON string
+   * @returns {Script} The script
+   * @throws {Error} If an action refers to a character that is not declared, or
+   *   has an unknown type
+   * @example
+   * ```typescript
+   * const script = Script.fromJSON({
+   *   characters: [{ name: "Alex", image: "alex.png" }],
+   *   scenes: [
+   *     {
+   *       id: "park",
+   *       background: "park.png",
+   *       actions: [
+   *         { type: "show", character: "Alex", position: "left" },
+   *         { type: "dialogue", character: "Alex", text: "Hello!", effect: "typewriter" },
+   *       ],
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  static fromJSON(json: ScriptJSON | string): Script {
+    const data: ScriptJSON = typeof json === "string" ? JSON.parse(json) : json;
+
+    const characters = new Map<string, Character>();
+    for (const entry of data.characters ?? []) {
+      const character = new Character(entry.name, entry.image);
+      character.position = entry.position;
+      character.size = entry.size;
+      characters.set(entry.name, character);
+    }
+
+    const script = new Script();
+    for (const sceneData of data.scenes) {
+      const scene = new Scene(
+        sceneData.id,
+        sceneData.background !== undefined
+          ? { background: sceneData.background }
+          : {}
+      );
+      for (const actionData of sceneData.actions) {
+        scene.addAction(Script.actionFromJSON(actionData, scene, characters));
+      }
+      script.addScene(scene);
+    }
+    return script;
+  }
+
+  /**
+   * Converts the script to its JSON form, which `Script.fromJSON()` reads back.
+   *
+   * Also called by `JSON.stringify(script)`.
+   *
+   * @returns {ScriptJSON} The story as plain JSON data
+   * @throws {Error} If an action uses a function condition or updater, which
+   *   cannot be represented in JSON, or two different characters share a name
+   */
+  toJSON(): ScriptJSON {
+    const characters = new Map<string, Character>();
+    const scenes = this._scenes.map((scene) => {
+      const sceneData: SceneJSON = { id: scene.id, actions: [] };
+      if (scene.options.background !== undefined) {
+        sceneData.background = scene.options.background;
+      }
+      sceneData.actions = scene.actions.map((action) =>
+        Script.actionToJSON(action, scene, characters)
+      );
+      return sceneData;
+    });
+
+    return {
+      characters: [...characters.values()].map((character) => {
+        const data: CharacterJSON = { name: character.name };
+        if (character.image !== undefined) {
+          data.image = character.image;
+        }
+        if (character.position !== undefined) {
+          data.position = character.position;
+        }
+        if (character.size !== undefined) {
+          data.size = character.size;
+        }
+        return data;
+      }),
+      scenes,
+    };
+  }
+
+  /**
+   * Converts an action from its JSON form.
+   * @param {SceneActionJSON} data - The action's JSON form
+   * @param {Scene} scene - The scene the action belongs to
+   * @param {Map<string, Character>} characters - Declared characters by name
+   * @returns {SceneAction} The action
+   * @throws {Error} If the character is not declared or the type is unknown
+   * @internal
+   */
+  private static actionFromJSON(
+    data: SceneActionJSON,
+    scene: Scene,
+    characters: Map<string, Character>
+  ): SceneAction {
+    if (!Script.ACTION_TYPES.includes(data.type)) {
+      throw new Error(
+        `Unknown action type "${data.type}" in scene "${scene.id}"`
+      );
+    }
+
+    const { character: name, effect, autoAdvance, ...fields } = data;
+    const action: SceneAction = { ...fields };
+
+    if (name !== undefined) {
+      const character = characters.get(name);
+      if (!character) {
+        throw new Error(
+          `Character "${name}" in scene "${scene.id}" is not declared`
+        );
+      }
+      action.character = character;
+    }
+
+    if (
+      data.type === "dialogue" &&
+      (effect !== undefined || autoAdvance !== undefined || data.id !== undefined)
+    ) {
+      action.options = {};
+      if (effect !== undefined) {
+        action.options.effect = effect;
+      }
+      if (autoAdvance !== undefined) {
+        action.options.autoAdvance = autoAdvance;
+      }
+      if (data.id !== undefined) {
+        action.options.id = data.id;
+      }
+    }
+    return action;
+  }
+
+  /**
+   * Converts an action to its JSON form, collecting the characters it uses.
+   * @param {SceneAction} action - The action
+   * @param {Scene} scene - The scene the action belongs to
+   * @param {Map<string, Character>} characters - Characters collected so far, by name
+   * @returns {SceneActionJSON} The action's JSON form
+   * @throws {Error} If the action cannot be represented in JSON
+   * @internal
+   */
+  private static actionToJSON(
+    action: SceneAction,
+    scene: Scene,
+    characters: Map<string, Character>
+  ): SceneActionJSON {
+    if (action.condition && Script.hasFunction(action.condition)) {
+      throw new Error(
+        `Cannot convert a function condition in scene "${scene.id}" to JSON`
+      );
+    }
+    if (typeof action.value === "function") {
+      throw new Error(
+        `Cannot convert a function value for "${action.key}" in scene "${scene.id}" to JSON`
+      );
+    }
+
+    const { character, options, condition, ...fields } = action;
+    const data: SceneActionJSON = { ...fields };
+    for (const key of Object.keys(data) as (keyof SceneActionJSON)[]) {
+      if (data[key] === undefined) {
+        delete data[key];
+      }
+    }
+
+    if (character) {
+      const existing = characters.get(character.name);
+      if (existing && existing !== character) {
+        throw new Error(
+          `Two different characters are named "${character.name}"`
+        );
+      }
+      characters.set(character.name, character);
+      data.character = character.name;
+    }
+    if (options?.effect !== undefined) {
+      data.effect = options.effect;
+    }
+    if (options?.autoAdvance !== undefined) {
+      data.autoAdvance = options.autoAdvance;
+    }
+    if (condition !== undefined) {
+      data.condition = condition as ConditionExpression;
+    }
+    return data;
+  }
+
+  /**
+   * Checks whether a condition is, or contains, a predicate function.
+   * @param {Condition} condition - The condition to check
+   * @returns {boolean} True if the condition cannot be represented in JSON
+   * @internal
+   */
+  private static hasFunction(condition: Condition): boolean {
+    if (typeof condition === "function") {
+      return true;
+    }
+    if ("all" in condition) {
+      return condition.all.some(Script.hasFunction);
+    }
+    if ("any" in condition) {
+      return condition.any.some(Script.hasFunction);
+    }
+    if ("not" in condition) {
+      return Script.hasFunction(condition.not);
+    }
+    return false;
+  }
+
+  /**
+   * Action types accepted by `Script.fromJSON()`.
+   * @internal
+   */
+  private static readonly ACTION_TYPES: SceneActionType[] = [
+    "dialogue",
+    "show",
+    "hide",
+    "setImage",
+    "choice",
+    "setVariable",
+    "incrementVariable",
+    "return",
+    "label",
+    "jump",
+    "wait",
+  ];
 }
 
 /**
@@ -458,9 +1183,84 @@ export class Script {
  * @property {Record<string, any>} variables - Custom game variables (flags, counters, etc.)
  * @property {string|null} _currentSceneId - The ID of the currently active scene
  * @property {string[]} sceneHistory - Array of previously visited scene IDs for back navigation
+ * @property {CallFrame[]} callStack - Scenes waiting for a called scene to return, innermost last
  */
 export interface GameState {
   variables: Record<string, any>;
   _currentSceneId: string | null;
   sceneHistory: string[];
+  callStack: CallFrame[];
+}
+
+/**
+ * A scene that entered another one with `engine.call()` and is waiting for it to return.
+ *
+ * @interface CallFrame
+ * @property {string} sceneId - The calling scene's ID
+ * @property {StageState} stage - The calling scene's stage when the call was made. Its
+ *   `actionIndex` is the action the call was made at; the scene resumes after it.
+ */
+export interface CallFrame {
+  sceneId: string;
+  stage: StageState;
+}
+
+/**
+ * What is on screen for a single character.
+ *
+ * @interface CharacterState
+ * @property {string} name - The character's name
+ * @property {string} [image] - The sprite currently displayed
+ * @property {Position} [position] - The position last applied by a show action
+ * @property {Size} [size] - The size last applied by a show action
+ * @property {boolean} visible - Whether the character is currently shown
+ */
+export interface CharacterState {
+  name: string;
+  image?: string;
+  position?: Position;
+  size?: Size;
+  visible: boolean;
+}
+
+/**
+ * The presentation state of the current scene.
+ *
+ * Together with {@link GameState}, this is everything needed to resume the story
+ * at the exact point it was left.
+ *
+ * @interface StageState
+ * @property {number} actionIndex - Index of the current action in the scene
+ * @property {Object} [anchor] - The nearest action with an `id` at or before `actionIndex`.
+ *   When present and the ID still exists, it takes precedence over `actionIndex` on restore.
+ * @property {string} anchor.id - The anchoring action's ID
+ * @property {number} anchor.offset - Number of actions between the anchor and the current action
+ * @property {string} [background] - The background image currently displayed
+ * @property {CharacterState[]} characters - Every character that has been shown in the scene
+ */
+export interface StageState {
+  actionIndex: number;
+  anchor?: { id: string; offset: number };
+  background?: string;
+  characters: CharacterState[];
+}
+
+/**
+ * A complete, JSON-serializable snapshot of a game in progress.
+ *
+ * @interface SaveData
+ * @property {number} schemaVersion - Version of the save format, see `SAVE_SCHEMA_VERSION`
+ * @property {string} [storyVersion] - Version of the story the save was made with
+ * @property {number} timestamp - When the snapshot was taken (milliseconds since epoch)
+ * @property {GameState} state - Variables, current scene, scene history and call stack
+ * @property {StageState} stage - Action index, background and on-screen characters
+ * @property {BacklogEntry[]} backlog - Dialogue shown so far, oldest first
+ */
+export interface SaveData {
+  schemaVersion: number;
+  storyVersion?: string;
+  timestamp: number;
+  state: GameState;
+  stage: StageState;
+  backlog: BacklogEntry[];
 }
@@ -0,0 +1,257 @@
+import { StoryGraph } from "./graph.js";
+import { Script, NAMED_POSITIONS, isNamedPosition } from "./types.js";
+import type { Character } from "./types.js";
+
+/**
+ * How serious a validation issue is.
+ *
+ * - `"error"` - The story will fail or show something broken at runtime
+ * - `"warning"` - The story runs, but probably not as intended
+ *
+ * @typedef {("error"|"warning")} ValidationSeverity
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * The kind of problem a validation issue reports.
+ * @typedef {string} ValidationCode
+ */
+export type ValidationCode =
+  | "unknown-start-scene"
+  | "unreachable-scene"
+  | "unknown-jump-target"
+  | "hide-before-show"
+  | "set-image-before-show"
+  | "missing-asset"
+  | "unknown-position"
+  | "empty-dialogue";
+
+/**
+ * A problem found by {@link validateScript}.
+ *
+ * @interface ValidationIssue
+ * @property {ValidationSeverity} severity - How serious the problem is
+ * @property {ValidationCode} code - The kind of problem
+ * @property {string} message - Description of the problem
+ * @property {string} [sceneId] - The scene containing the problem
+ * @property {number} [actionIndex] - Index of the action with the problem in its scene
+ * @property {string} [actionId] - ID of the action with the problem, if it has one
+ */
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  message: string;
+  sceneId?: string;
+  actionIndex?: number;
+  actionId?: string;
+}
+
+/**
+ * Options for validating a script.
+ *
+ * @interface ValidateOptions
+ * @property {string} [startScene] - The scene the story starts in. Defaults to the
+ *   first scene.
+ * @property {Iterable<string>} [assets] - Every asset path the game ships, as
+ *   written in the script. When given, backgrounds and character images are
+ *   checked against it. `http://` and `https://` URLs are not checked.
+ */
+export interface ValidateOptions {
+  startScene?: string;
+  assets?: Iterable<string>;
+}
+
+/**
+ * Checks a script for mistakes that would otherwise only show up while
+ * playing it:
+ *
+ * - A `startScene` that does not exist (error)
+ * - Scenes that cannot be reached from the start scene by continuing or by
+ *   choices (warning). Scenes only entered with `engine.jumpTo()` or
+ *   `engine.call()` are reported too.
+ * - Choice options and jumps that go to scenes or labels that do not exist (error)
+ * - Hiding a character that is not shown in the scene (warning)
+ * - Changing the image of a character that is not shown in the scene (warning)
+ * - Backgrounds and images missing from the `assets` manifest (error)
+ * - Named positions the renderer does not know (warning)
+ * - Dialogue without text, which is skipped (warning)
+ *
+ * Characters are removed when a scene starts, so showing and hiding is checked
+ * scene by scene. An action with a condition counts as run.
+ *
+ * @param {Script} script - The script to check
+ * @param {ValidateOptions} [options={}] - Validation options
+ * @returns {ValidationIssue[]} The issues found, in story order; empty if none
+ * @example
+ * ```typescript
+ * const issues = validateScript(script, { assets: ["park.png", "alex.png"] });
+ * for (const issue of issues) {
+ *   console.log(`${issue.severity} in ${issue.sceneId}[${issue.actionIndex}]: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateScript(
+  script: Script,
+  options: ValidateOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const assets = options.assets ? new Set(options.assets) : null;
+  const scenes = script.scenes;
+
+  const checkAsset = (
+    path: string | undefined,
+    what: string,
+    location: Partial<ValidationIssue>,
+    character?: Character
+  ): void => {
+    if (
+      !assets ||
+      path === undefined ||
+      assets.has(path) ||
+      /^https?:\/\//.test(path)
+    ) {
+      return;
+    }
+    issues.push({
+      severity: "error",
+      code: "missing-asset",
+      message: `${what} "${path}"${character ? ` of "${character.name}"` : ""} is not in the asset manifest`,
+      ...location,
+    });
+  };
+
+  const unknownTarget = (target: string, fromSceneId: string): string | undefined => {
+    const { sceneId, label } = Script.parseTarget(target, fromSceneId);
+    const scene = script.getScene(sceneId);
+    if (!scene) {
+      return `unknown scene "${sceneId}"`;
+    }
+    if (label !== undefined && scene.findLabel(label) === -1) {
+      return `unknown label "${label}" in scene "${sceneId}"`;
+    }
+    return undefined;
+  };
+
+  if (options.startScene !== undefined && !script.getScene(options.startScene)) {
+    issues.push({
+      severity: "error",
+      code: "unknown-start-scene",
+      message: `Start scene "${options.startScene}" not found`,
+    });
+  }
+
+  const reachable = StoryGraph.fromScript(script).reachableFrom(
+    options.startScene ?? scenes[0]?.id
+  );
+  const checkedCharacters = new Set<Character>();
+
+  for (const scene of scenes) {
+    if (!reachable.has(scene.id)) {
+      issues.push({
+        severity: "warning",
+        code: "unreachable-scene",
+        message: `Scene "${scene.id}" cannot be reached from the start scene`,
+        sceneId: scene.id,
+      });
+    }
+    checkAsset(scene.options.background, "Background", { sceneId: scene.id });
+
+    const shown = new Set<Character>();
+    scene.actions.forEach((action, actionIndex) => {
+      const location: Partial<ValidationIssue> = { sceneId: scene.id, actionIndex };
+      if (action.id !== undefined) {
+        location.actionId = action.id;
+      }
+      const issue = (
+        severity: ValidationSeverity,
+        code: ValidationCode,
+        message: string
+      ): void => {
+        issues.push({ severity, code, message, ...location });
+      };
+      const character = action.character;
+
+      switch (action.type) {
+        case "show": {
+          if (!character) {
+            break;
+          }
+          shown.add(character);
+          if (!checkedCharacters.has(character)) {
+            checkedCharacters.add(character);
+            checkAsset(character.image, "Image", location, character);
+          }
+          const position = action.position ?? character.position;
+          if (typeof position === "string" && !isNamedPosition(position)) {
+            issue(
+              "warning",
+              "unknown-position",
+              `Unknown position "${position}" for "${character.name}"; expected one of ${NAMED_POSITIONS.join(", ")}`
+            );
+          }
+          break;
+        }
+
+        case "hide":
+          if (character && !shown.has(character)) {
+            issue(
+              "warning",
+              "hide-before-show",
+              `"${character.name}" is hidden before being shown in scene "${scene.id}"`
+            );
+          }
+          if (character && !action.condition) {
+            shown.delete(character);
+          }
+          break;
+
+        case "setImage":
+          if (character && !shown.has(character)) {
+            issue(
+              "warning",
+              "set-image-before-show",
+              `Image of "${character.name}" is changed before being shown in scene "${scene.id}"`
+            );
+          }
+          checkAsset(action.image, "Image", location, character);
+          break;
+
+        case "dialogue":
+          // The same check as the engine's, which skips such lines
+          if (!action.text) {
+            issue(
+              "warning",
+              "empty-dialogue",
+              `Dialogue${character ? ` of "${character.name}"` : ""} has no text and will be skipped`
+            );
+          } else if (!character) {
+            issue(
+              "warning",
+              "empty-dialogue",
+              `Dialogue "${action.text}" has no character and will be skipped`
+            );
+          }
+          break;
+
+        case "choice":
+          for (const choice of action.choices ?? []) {
+            const unknown = choice.jumpTo !== undefined && unknownTarget(choice.jumpTo, scene.id);
+            if (unknown) {
+              issue("error", "unknown-jump-target", `Choice "${choice.text}" jumps to ${unknown}`);
+            }
+          }
+          break;
+
+        case "jump": {
+          const unknown = action.jumpTo !== undefined && unknownTarget(action.jumpTo, scene.id);
+          if (unknown) {
+            issue("error", "unknown-jump-target", `Jump to ${unknown}`);
+          }
+          break;
+        }
+      }
+    });
+  }
+
+  return issues;
+}
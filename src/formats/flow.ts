@@ -0,0 +1,77 @@
+/**
+ * A scene produced by an importer, with where the source story continues
+ * after it.
+ * @internal
+ */
+export interface FlowScene {
+  id: string;
+  /** Where the scene came from in the source, used in warnings */
+  location: string;
+  /** The scene the source continues into, or "end" if the story stops */
+  next?: FlowScene | "end";
+  /** Scenes the scene's choices jump to */
+  branches: FlowScene[];
+}
+
+/**
+ * Orders imported scenes so that each scene is followed by the scene its
+ * source story continues into, since a scene always continues into the next
+ * one in the script.
+ *
+ * Starting from `start`, each scene is followed by its `next` scene and then
+ * its branches; scenes not reached this way come last, in their given order.
+ * Scenes that end in a choice need no particular successor. Any other scene
+ * whose successor does not match its `next` is passed to `jump`, to end it
+ * with a jump action, or reported through `warn` if the story stops there.
+ *
+ * @param {FlowScene} start - The first scene of the story
+ * @param {Iterable<FlowScene>} scenes - Every scene
+ * @param {Function} warn - Called with a message and location for each scene
+ *   that ends the story but is followed by another scene
+ * @param {Function} jump - Called with each scene that must jump to its `next`
+ *   scene
+ * @returns {FlowScene[]} The scenes in script order
+ * @internal
+ */
+export function orderScenes<T extends FlowScene>(
+  start: T,
+  scenes: Iterable<T>,
+  warn: (message: string, location: string) => void,
+  jump: (scene: T, target: T) => void
+): T[] {
+  const ordered: T[] = [];
+  const place = (scene: T): void => {
+    if (ordered.includes(scene)) {
+      return;
+    }
+    ordered.push(scene);
+    if (scene.next && scene.next !== "end") {
+      place(scene.next as T);
+    }
+    scene.branches.forEach((branch) => place(branch as T));
+  };
+  place(start);
+  for (const scene of scenes) {
+    place(scene);
+  }
+
+  ordered.forEach((scene, index) => {
+    if (scene.branches.length > 0) {
+      return;
+    }
+    const following = ordered[index + 1];
+    if (scene.next === undefined || scene.next === "end") {
+      if (following) {
+        warn(
+          `Scene "${scene.id}" ends the story, but will continue into scene "${following.id}"`,
+          scene.location
+        );
+      }
+      return;
+    }
+    if (scene.next !== following) {
+      jump(scene, scene.next as T);
+    }
+  });
+  return ordered;
+}
@@ -0,0 +1,796 @@
+import { Script } from "../core/types.js";
+import type {
+  ChoiceOption,
+  SceneActionJSON,
+  SceneJSON,
+} from "../core/types.js";
+import { orderScenes } from "./flow.js";
+import type { FlowScene } from "./flow.js";
+import type { ImportResult, ImportWarning } from "./types.js";
+
+/**
+ * Options for importing an Ink story.
+ *
+ * @interface InkImportOptions
+ * @property {string} [narrator=""] - Name of the character who speaks lines
+ *   without a `Name:` prefix
+ * @property {string} [mainScene="main"] - Id of the scene holding the story's
+ *   top-level content, before the first knot
+ */
+export interface InkImportOptions {
+  narrator?: string;
+  mainScene?: string;
+}
+
+/**
+ * A container from compiled Ink JSON, with its named sub-containers.
+ * @internal
+ */
+interface InkContainer {
+  path: string;
+  name?: string;
+  content: any[];
+  named: Map<string, InkContainer>;
+  parent?: InkContainer;
+}
+
+/**
+ * A value on the Ink evaluation stack, kept symbolic so that it can be turned
+ * into an action or condition. `null` stands for a value that cannot be.
+ * @internal
+ */
+type InkValue =
+  | { literal: any }
+  | { var: string }
+  | { op: string; args: InkValue[] }
+  | null;
+
+/**
+ * A scene being built from an Ink container.
+ * @internal
+ */
+interface InkScene extends FlowScene {
+  container: InkContainer;
+  actions: SceneActionJSON[];
+}
+
+/**
+ * A choice collected while walking a container.
+ * @internal
+ */
+interface PendingChoice {
+  text: string;
+  target: InkContainer;
+}
+
+/**
+ * State of a walk through the content of one scene.
+ * @internal
+ */
+interface Walk {
+  scene: InkScene;
+  stack: InkValue[];
+  strings: string[];
+  inString: boolean;
+  tag: string | null;
+  line: string;
+  glue: boolean;
+  choices: PendingChoice[];
+}
+
+const SUPPORTED_INK_VERSION = 21;
+const BINARY_OPERATORS = [
+  "+", "-", "*", "/", "%", "==", "!=", ">", ">=", "<", "<=", "&&", "||", "MIN", "MAX",
+];
+const UNARY_OPERATORS = ["!", "_"];
+/** Ink commands that push a value the importer cannot know */
+const UNKNOWN_VALUES = [
+  "visit", "seq", "choiceCnt", "turn", "turns", "readc", "rnd", "listInt", "range", "lrnd",
+];
+const CHOICE_HAS_CONDITION = 0x1;
+const CHOICE_HAS_START_CONTENT = 0x2;
+const CHOICE_HAS_CHOICE_ONLY_CONTENT = 0x4;
+const CHOICE_IS_INVISIBLE_DEFAULT = 0x8;
+/** Names the Ink compiler gives to choices, gathers and choice text */
+const WEAVE_NAMES = /^(c-\d+|g-\d+|s|\$r\d*)$/;
+const SPEAKER = /^([A-Za-z][\w .'-]{0,39}?)\s*:\s+(\S.*)$/s;
+
+/**
+ * Imports a story compiled by Ink (the JSON written by inklecate or Inky's
+ * "Export to JSON").
+ *
+ * - The top-level content becomes the `mainScene`, and every knot and stitch a
+ *   scene named `knot` or `knot.stitch`
+ * - Lines become dialogue. A `Name: text` line is spoken by `Name`; other lines
+ *   by the `narrator`
+ * - Choices become a choice action. Each option jumps to a scene holding the
+ *   choice's content, or straight to the divert target of a `* [Text] -> knot`
+ *   choice
+ * - Global `VAR`s are set at the start of the main scene; `~ x = 1` and
+ *   `~ x = x + 1` become setVariable and incrementVariable actions; `{x}` in a
+ *   line becomes a `{x}` placeholder
+ * - A divert at the end of a scene is followed by placing its target right after
+ *   the scene, since scenes continue into the next one, or becomes a jump action
+ *   where that is not possible
+ *
+ * Anything else (conditional content, tunnels, threads, functions, visit counts,
+ * lists, tags, conditions on choices, and ends that cannot be followed by
+ * ordering scenes) is reported in `warnings`.
+ *
+ * @param {Object|string} json - The compiled story, parsed or as JSON text
+ * @param {InkImportOptions} [options={}] - Import options
+ * @returns {ImportResult} The script, the story's variables and any warnings
+ * @throws {Error} If the JSON is not a compiled Ink story
+ * @example
+ * ```typescript
+ * const { script, warnings } = importInk(readFileSync("story.ink.json", "utf8"));
+ * warnings.forEach((w) => console.warn(`${w.location}: ${w.message}`));
+ * new VNEngine({ script, container: "#game", startScene: "main" });
+ * ```
+ */
+export function importInk(
+  json: object | string,
+  options: InkImportOptions = {}
+): ImportResult {
+  const data = typeof json === "string" ? JSON.parse(json.replace(/^\uFEFF/, "")) : json;
+  return new InkImporter(data, options).run();
+}
+
+/**
+ * Converts compiled Ink containers to scenes.
+ * @internal
+ */
+class InkImporter {
+  private data: any;
+  private narrator: string;
+  private mainScene: string;
+  private root: InkContainer;
+  private scenes: Map<InkContainer, InkScene> = new Map();
+  private queue: InkScene[] = [];
+  private ids: Set<string> = new Set();
+  private characters: Set<string> = new Set();
+  private variables: Record<string, any> = {};
+  private warnings: ImportWarning[] = [];
+
+  constructor(data: any, options: InkImportOptions) {
+    if (!data || !Array.isArray(data.root)) {
+      throw new Error(`Not a compiled Ink story: "root" is missing`);
+    }
+    this.data = data;
+    this.narrator = options.narrator ?? "";
+    this.mainScene = options.mainScene ?? "main";
+    this.root = this.container(data.root, "");
+  }
+
+  /**
+   * Imports the story.
+   * @returns {ImportResult} The import result
+   */
+  run(): ImportResult {
+    if (this.data.inkVersion > SUPPORTED_INK_VERSION) {
+      this.warn(
+        `Ink version ${this.data.inkVersion} is newer than ${SUPPORTED_INK_VERSION} and may not import correctly`
+      );
+    }
+    if (this.data.listDefs && Object.keys(this.data.listDefs).length > 0) {
+      this.warn(`LIST declarations are not supported`);
+    }
+
+    const declarations = this.root.named.get("global decl");
+    if (declarations) {
+      this.declare(declarations);
+    }
+
+    const main = this.root.content.find(isContainer);
+    if (!main) {
+      throw new Error(`Not a compiled Ink story: the root has no content`);
+    }
+    const start = this.sceneFor(main);
+    start.actions.push(
+      ...Object.entries(this.variables).map(
+        ([key, value]): SceneActionJSON => ({ type: "setVariable", key, value })
+      )
+    );
+    for (const [name, knot] of this.root.named) {
+      if (name === "global decl") {
+        continue;
+      }
+      this.sceneFor(knot);
+      for (const [stitchName, stitch] of knot.named) {
+        if (!WEAVE_NAMES.test(stitchName)) {
+          this.sceneFor(stitch);
+        }
+      }
+    }
+
+    let scene: InkScene | undefined;
+    while ((scene = this.queue.shift())) {
+      this.walkScene(scene);
+    }
+
+    const scenes = orderScenes(
+      start,
+      this.scenes.values(),
+      (message, location) => this.warn(message, location),
+      (scene, target) => scene.actions.push({ type: "jump", jumpTo: target.id })
+    );
+    return {
+      script: Script.fromJSON({
+        characters: [...this.characters].map((name) => ({ name })),
+        scenes: scenes.map(
+          (scene): SceneJSON => ({ id: scene.id, actions: scene.actions })
+        ),
+      }),
+      variables: { ...this.variables },
+      warnings: this.warnings,
+    };
+  }
+
+  /**
+   * Builds a container tree from its JSON array.
+   * @internal
+   */
+  private container(array: any[], path: string, parent?: InkContainer): InkContainer {
+    const last = array[array.length - 1];
+    const hasNamed = last === null || (typeof last === "object" && !Array.isArray(last));
+    const container: InkContainer = {
+      path,
+      content: [],
+      named: new Map(),
+      parent,
+    };
+    const items = hasNamed ? array.slice(0, -1) : array;
+    container.content = items.map((item, index) =>
+      Array.isArray(item) ? this.container(item, join(path, String(index)), container) : item
+    );
+    if (hasNamed && last) {
+      for (const [key, value] of Object.entries(last)) {
+        if (key === "#n") {
+          container.name = value as string;
+        } else if (Array.isArray(value)) {
+          const child = this.container(value, join(path, key), container);
+          child.name = key;
+          container.named.set(key, child);
+        }
+      }
+    }
+    return container;
+  }
+
+  /**
+   * Resolves an Ink path, absolute or relative to a container.
+   * @internal
+   */
+  private resolve(path: string, from: InkContainer): InkContainer | undefined {
+    let parts = path.split(".");
+    let node: InkContainer | undefined = this.root;
+    if (parts[0] === "") {
+      // ".^" first steps from the diverting item to its container
+      node = from;
+      parts = parts.slice(2);
+    }
+    for (const part of parts) {
+      if (!node) {
+        return undefined;
+      }
+      if (part === "^") {
+        node = node.parent;
+      } else if (/^\d+$/.test(part)) {
+        const item: unknown = node.content[Number(part)];
+        node = isContainer(item) ? item : undefined;
+      } else {
+        node =
+          node.named.get(part) ??
+          node.content.find(
+            (item): item is InkContainer => isContainer(item) && item.name === part
+          );
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Returns the scene for a container, creating it on first use.
+   * @internal
+   */
+  private sceneFor(container: InkContainer): InkScene {
+    // A knot's content is usually wrapped in a single anonymous container
+    while (
+      container.parent &&
+      container.parent !== this.root &&
+      container.parent.content.length === 1 &&
+      container.parent.content[0] === container
+    ) {
+      container = container.parent;
+    }
+
+    let scene = this.scenes.get(container);
+    if (!scene) {
+      scene = {
+        id: this.idFor(container),
+        location: container.path,
+        container,
+        actions: [],
+        branches: [],
+      };
+      this.scenes.set(container, scene);
+      this.queue.push(scene);
+    }
+    return scene;
+  }
+
+  /**
+   * Makes a unique scene id from a container path, e.g. `park.bench` or
+   * `park.c-0`.
+   * @internal
+   */
+  private idFor(container: InkContainer): string {
+    const parts = container.path.split(".");
+    const named = parts.filter((part, index) => index === 0 || !/^\d+$/.test(part));
+    if (/^\d+$/.test(named[0])) {
+      named[0] = this.mainScene;
+    }
+    const base = named.join(".");
+    let id = base;
+    for (let n = 2; this.ids.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    this.ids.add(id);
+    return id;
+  }
+
+  /**
+   * Reads the initial values of global variables.
+   * @internal
+   */
+  private declare(container: InkContainer): void {
+    const stack: InkValue[] = [];
+    container.content.forEach((item, index) => {
+      const at = join(container.path, String(index));
+      if (typeof item === "number" || typeof item === "boolean") {
+        stack.push({ literal: item });
+      } else if (typeof item === "string" && item.startsWith("^")) {
+        stack.push({ literal: item.slice(1) });
+      } else if (item && typeof item === "object" && "VAR=" in item) {
+        const value = stack.pop();
+        if (value && "literal" in value) {
+          this.variables[item["VAR="]] = value.literal;
+        } else {
+          this.warn(`Initial value of "${item["VAR="]}" is not a constant`, at);
+        }
+      } else if (item && typeof item === "object" && "list" in item) {
+        stack.push(null);
+      }
+    });
+  }
+
+  /**
+   * Converts the content of a scene's container to actions.
+   * @internal
+   */
+  private walkScene(scene: InkScene): void {
+    const walk: Walk = {
+      scene,
+      stack: [],
+      strings: [],
+      inString: false,
+      tag: null,
+      line: "",
+      glue: false,
+      choices: [],
+    };
+    if (!this.walk(scene.container, walk)) {
+      this.flush(walk);
+    }
+  }
+
+  /**
+   * Walks a container's content, including anonymous containers inline.
+   * @returns {boolean} True if the flow stopped at a divert, choice or end
+   * @internal
+   */
+  private walk(container: InkContainer, walk: Walk): boolean {
+    for (let index = 0; index < container.content.length; index++) {
+      const item = container.content[index];
+      const at = join(container.path, String(index));
+      if (isContainer(item)) {
+        if (this.walk(item, walk)) {
+          return true;
+        }
+      } else if (typeof item === "string") {
+        if (this.command(item, walk, at)) {
+          return true;
+        }
+      } else if (typeof item === "number" || typeof item === "boolean") {
+        walk.stack.push({ literal: item });
+      } else if (item && typeof item === "object") {
+        if (this.object(item, container, walk, at)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Handles a text or command string.
+   * @returns {boolean} True if the flow stopped
+   * @internal
+   */
+  private command(item: string, walk: Walk, at: string): boolean {
+    if (item.startsWith("^")) {
+      this.output(item.slice(1), walk);
+      return false;
+    }
+    if (walk.tag !== null && item !== "/#") {
+      return false;
+    }
+
+    switch (item) {
+      case "\n":
+        if (!walk.glue) {
+          this.flushLine(walk);
+        }
+        return false;
+      case "<>":
+        walk.glue = true;
+        return false;
+      case "ev":
+      case "/ev":
+      case "nop":
+      case "void":
+        return false;
+      case "str":
+        walk.inString = true;
+        walk.strings.push("");
+        return false;
+      case "/str":
+        walk.inString = false;
+        walk.stack.push({ literal: walk.strings.pop() ?? "" });
+        return false;
+      case "#":
+        walk.tag = "";
+        return false;
+      case "/#":
+        this.warn(`Tag "${walk.tag?.trim()}" is not supported`, at);
+        walk.tag = null;
+        return false;
+      case "out": {
+        const value = walk.stack.pop();
+        if (value && "var" in value) {
+          this.output(`{${value.var}}`, walk);
+        } else if (value && "literal" in value) {
+          this.output(String(value.literal), walk);
+        } else {
+          this.warn(`Printing the result of an expression is not supported`, at);
+        }
+        return false;
+      }
+      case "pop":
+        walk.stack.pop();
+        return false;
+      case "du":
+        walk.stack.push(walk.stack[walk.stack.length - 1] ?? null);
+        return false;
+      case "done":
+      case "end":
+        this.flush(walk);
+        if (walk.scene.branches.length === 0) {
+          walk.scene.next = "end";
+        }
+        return true;
+    }
+
+    if (BINARY_OPERATORS.includes(item)) {
+      const right = walk.stack.pop() ?? null;
+      const left = walk.stack.pop() ?? null;
+      walk.stack.push(left && right ? { op: item, args: [left, right] } : null);
+      return false;
+    }
+    if (UNARY_OPERATORS.includes(item)) {
+      const value = walk.stack.pop() ?? null;
+      walk.stack.push(value ? { op: item, args: [value] } : null);
+      return false;
+    }
+    if (UNKNOWN_VALUES.includes(item)) {
+      this.warn(`"${item}" is not supported`, at);
+      walk.stack.push(null);
+      return false;
+    }
+    if (item === "->->") {
+      this.warn(`Tunnel returns are not supported`, at);
+    } else if (item === "~ret") {
+      this.warn(`Function returns are not supported`, at);
+    } else if (item === "thread") {
+      this.warn(`Threads are not supported`, at);
+    } else {
+      this.warn(`Unknown Ink command "${item}"`, at);
+    }
+    return false;
+  }
+
+  /**
+   * Handles an object item: diverts, choices, variables and tags.
+   * @returns {boolean} True if the flow stopped
+   * @internal
+   */
+  private object(item: any, container: InkContainer, walk: Walk, at: string): boolean {
+    if ("*" in item) {
+      this.choicePoint(item, container, walk, at);
+      return false;
+    }
+    if ("->" in item) {
+      return this.divert(item, container, walk, at);
+    }
+    if ("VAR?" in item) {
+      walk.stack.push({ var: item["VAR?"] });
+      return false;
+    }
+    if ("VAR=" in item) {
+      this.assign(item["VAR="], walk, at);
+      return false;
+    }
+    if ("temp=" in item) {
+      walk.stack.pop();
+      if (!item["temp="].startsWith("$")) {
+        this.warn(`Temporary variable "${item["temp="]}" is not supported`, at);
+      }
+      return false;
+    }
+    if ("^->" in item) {
+      walk.stack.push(null);
+      return false;
+    }
+    if ("#" in item) {
+      this.warn(`Tag "${item["#"]}" is not supported`, at);
+      return false;
+    }
+    if ("CNT?" in item) {
+      this.warn(`Visit counts are not supported`, at);
+      walk.stack.push(null);
+      return false;
+    }
+    if ("list" in item) {
+      this.warn(`Lists are not supported`, at);
+      walk.stack.push(null);
+      return false;
+    }
+    if ("f()" in item) {
+      this.warn(`Function calls are not supported`, at);
+      walk.stack.push(null);
+      return false;
+    }
+    if ("x()" in item) {
+      this.warn(`External function "${item["x()"]}" is not supported`, at);
+      walk.stack.push(null);
+      return false;
+    }
+    if ("->t->" in item) {
+      this.warn(`Tunnels are not supported`, at);
+      return false;
+    }
+    this.warn(`Unknown Ink object ${JSON.stringify(item)}`, at);
+    return false;
+  }
+
+  /**
+   * Handles a divert, which either continues the flow elsewhere or, inside a
+   * choice, prints the choice's text.
+   * @returns {boolean} True if the flow stopped
+   * @internal
+   */
+  private divert(item: any, container: InkContainer, walk: Walk, at: string): boolean {
+    const path: string = item["->"];
+    if (item.var) {
+      // Choices return from their text with a divert to "$r"
+      if (!path.startsWith("$r")) {
+        this.warn(`Diverting to a variable is not supported`, at);
+      }
+      return false;
+    }
+    if (item.c) {
+      walk.stack.pop();
+      this.warn(`Conditional content is not supported and was skipped`, at);
+      return false;
+    }
+
+    const target = this.resolve(path, container);
+    if (!target) {
+      this.warn(`Divert target "${path}" not found`, at);
+      return false;
+    }
+    if (walk.inString) {
+      walk.strings[walk.strings.length - 1] += this.text(target);
+      return false;
+    }
+    if (target.name === "s") {
+      this.output(this.text(target), walk);
+      return false;
+    }
+
+    this.flush(walk);
+    if (walk.scene.branches.length > 0) {
+      this.warn(`Content after choices is not supported`, at);
+    } else {
+      walk.scene.next = this.sceneFor(target);
+    }
+    return true;
+  }
+
+  /**
+   * Collects a choice point's text and target.
+   * @internal
+   */
+  private choicePoint(item: any, container: InkContainer, walk: Walk, at: string): void {
+    const flags: number = item.flg ?? 0;
+    if (flags & CHOICE_HAS_CONDITION) {
+      walk.stack.pop();
+      this.warn(`Conditions on choices are not supported; the choice is always shown`, at);
+    }
+    const choiceOnly = flags & CHOICE_HAS_CHOICE_ONLY_CONTENT ? walk.stack.pop() : null;
+    const start = flags & CHOICE_HAS_START_CONTENT ? walk.stack.pop() : null;
+    if (flags & CHOICE_IS_INVISIBLE_DEFAULT) {
+      this.warn(`Fallback choices are not supported and were skipped`, at);
+      return;
+    }
+
+    const target = this.resolve(item["*"], container);
+    if (!target) {
+      this.warn(`Choice target "${item["*"]}" not found`, at);
+      return;
+    }
+    const text = [start, choiceOnly]
+      .map((value) => (value && "literal" in value ? String(value.literal) : ""))
+      .join("")
+      .trim();
+    walk.choices.push({ text, target });
+  }
+
+  /**
+   * Converts an assignment to a global variable to an action.
+   * @internal
+   */
+  private assign(key: string, walk: Walk, at: string): void {
+    const value = walk.stack.pop();
+    if (value && "literal" in value) {
+      walk.scene.actions.push({ type: "setVariable", key, value: value.literal });
+      return;
+    }
+    if (value && "op" in value && (value.op === "+" || value.op === "-")) {
+      const [left, right] = value.args;
+      if (
+        left && "var" in left && left.var === key &&
+        right && "literal" in right && typeof right.literal === "number"
+      ) {
+        const amount = value.op === "+" ? right.literal : -right.literal;
+        walk.scene.actions.push({ type: "incrementVariable", key, amount });
+        return;
+      }
+    }
+    this.warn(`Assignment to "${key}" is too complex to import`, at);
+  }
+
+  /**
+   * Adds printed text to the current line, or the current string or tag.
+   * @internal
+   */
+  private output(text: string, walk: Walk): void {
+    if (walk.tag !== null) {
+      walk.tag += text;
+    } else if (walk.inString) {
+      walk.strings[walk.strings.length - 1] += text;
+    } else {
+      walk.line += text;
+      if (text.trim()) {
+        walk.glue = false;
+      }
+    }
+  }
+
+  /**
+   * Collects the text printed by a container, e.g. a choice's start content.
+   * @internal
+   */
+  private text(container: InkContainer): string {
+    let text = "";
+    for (const item of container.content) {
+      if (isContainer(item)) {
+        text += this.text(item);
+      } else if (typeof item === "string" && item.startsWith("^")) {
+        text += item.slice(1);
+      } else if (item && typeof item === "object" && item.var) {
+        break;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Turns the current line into a dialogue action.
+   * @internal
+   */
+  private flushLine(walk: Walk): void {
+    const line = walk.line.trim();
+    walk.line = "";
+    walk.glue = false;
+    if (!line) {
+      return;
+    }
+    const match = SPEAKER.exec(line);
+    const character = match ? match[1].trim() : this.narrator;
+    const text = match ? match[2].trim() : line;
+    this.characters.add(character);
+    walk.scene.actions.push({ type: "dialogue", character, text });
+  }
+
+  /**
+   * Ends the current line and turns collected choices into a choice action.
+   * @internal
+   */
+  private flush(walk: Walk): void {
+    this.flushLine(walk);
+    if (walk.choices.length === 0) {
+      return;
+    }
+    const choices: ChoiceOption[] = walk.choices.map((choice) => {
+      const target = this.sceneFor(this.skipEmpty(choice.target));
+      walk.scene.branches.push(target);
+      return { text: choice.text, jumpTo: target.id };
+    });
+    walk.choices = [];
+    walk.scene.actions.push({ type: "choice", choices });
+  }
+
+  /**
+   * Returns the divert target of a choice whose content is only a divert,
+   * such as `* [Leave] -> outside`, or the choice's own container otherwise.
+   * @internal
+   */
+  private skipEmpty(container: InkContainer): InkContainer {
+    const items = container.content.filter(
+      (item) =>
+        item !== "\n" &&
+        item !== "ev" &&
+        item !== "/ev" &&
+        !(item && typeof item === "object" && "^->" in item) &&
+        !(isContainer(item) && item.content.length === 0)
+    );
+    if (
+      items.length === 1 &&
+      items[0] && typeof items[0] === "object" &&
+      typeof items[0]["->"] === "string" &&
+      !items[0].var &&
+      !items[0].c
+    ) {
+      const target = this.resolve(items[0]["->"], container);
+      if (target && target.name !== "s") {
+        return target;
+      }
+    }
+    return container;
+  }
+
+  /**
+   * Records a warning.
+   * @internal
+   */
+  private warn(message: string, location?: string): void {
+    this.warnings.push(location !== undefined ? { message, location } : { message });
+  }
+}
+
+/**
+ * Returns true if a content item is a container.
+ * @internal
+ */
+function isContainer(item: unknown): item is InkContainer {
+  return !!item && typeof item === "object" && "content" in item && "named" in item;
+}
+
+/**
+ * Joins two parts of an Ink path.
+ * @internal
+ */
+function join(path: string, part: string): string {
+  return path ? `${path}.${part}` : part;
+}
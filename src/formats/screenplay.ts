@@ -0,0 +1,887 @@
+import { Script, NAMED_POSITIONS, isNamedPosition } from "../core/types.js";
+import type {
+  CharacterJSON,
+  ChoiceOption,
+  Condition,
+  ConditionExpression,
+  Position,
+  SceneActionJSON,
+  SceneJSON,
+  ScriptJSON,
+  Size,
+} from "../core/types.js";
+
+/**
+ * Options for parsing a screenplay.
+ *
+ * @interface ScreenplayOptions
+ * @property {string} [file] - Name of the file being parsed, used in error messages
+ *   and passed to `resolveInclude`
+ * @property {Function} [resolveInclude] - Returns the text of a file named in an
+ *   `include` line. Receives the included path and the name of the including file.
+ */
+export interface ScreenplayOptions {
+  file?: string;
+  resolveInclude?: (path: string, from?: string) => string;
+}
+
+/**
+ * Error thrown when a screenplay cannot be parsed.
+ *
+ * The message ends with the location of the problem, e.g.
+ * `Unknown command "dance" (story.vn, line 3, column 1)`.
+ *
+ * @class ScreenplayError
+ * @extends Error
+ */
+export class ScreenplayError extends Error {
+  /** 1-based line number of the problem */
+  readonly line: number;
+  /** 1-based column number of the problem */
+  readonly column: number;
+  /** Name of the file containing the problem, if known */
+  readonly file?: string;
+
+  /**
+   * Creates a new ScreenplayError.
+   * @param {string} message - Description of the problem
+   * @param {number} line - 1-based line number
+   * @param {number} column - 1-based column number
+   * @param {string} [file] - Name of the file
+   */
+  constructor(message: string, line: number, column: number, file?: string) {
+    const location = `${file ? `${file}, ` : ""}line ${line}, column ${column}`;
+    super(`${message} (${location})`);
+    this.name = "ScreenplayError";
+    this.line = line;
+    this.column = column;
+    this.file = file;
+  }
+}
+
+/**
+ * A word on a line, with the column where it starts.
+ * @internal
+ */
+interface Token {
+  value: string;
+  column: number;
+}
+
+/**
+ * Location of a line being parsed.
+ * @internal
+ */
+interface Location {
+  line: number;
+  file?: string;
+}
+
+const EFFECTS = ["fade", "typewriter"];
+const COMPARISONS: Record<string, string> = {
+  "==": "eq",
+  "!=": "ne",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+  in: "in",
+};
+
+/**
+ * Parses a screenplay into a script.
+ *
+ * A screenplay is a line-oriented text format for writers:
+ *
+ * ```text
+ * // Comments start with two slashes
+ * character Alex image=alex.png position=left
+ *
+ * # scene park bg=park.png
+ * show Alex
+ * [typewriter] Alex: Hi {playerName}!
+ * image Alex alex-happy.png
+ * set metAlex = true
+ * increment friendship 2
+ * if friendship >= 2 and not grumpy
+ *   Alex: We're friends now.
+ * end
+ * choice
+ *   * Follow Alex -> alley [trustsAlex=true]
+ *   * Stay
+ * hide Alex
+ * wait 500
+ * jump chapter2#start
+ * include chapter2.vn
+ * ```
+ *
+ * See the README for the full syntax.
+ *
+ * @param {string} source - The screenplay text
+ * @param {ScreenplayOptions} [options={}] - Parsing options
+ * @returns {Script} The parsed script
+ * @throws {ScreenplayError} If the screenplay contains an error
+ * @example
+ * ```typescript
+ * const script = parseScreenplay(text, {
+ *   file: "story.vn",
+ *   resolveInclude: (path) => fs.readFileSync(path, "utf8"),
+ * });
+ * ```
+ */
+export function parseScreenplay(
+  source: string,
+  options: ScreenplayOptions = {}
+): Script {
+  const parser = new ScreenplayParser(options);
+  parser.parse(source, options.file);
+  return Script.fromJSON(parser.finish());
+}
+
+/**
+ * Builds a {@link ScriptJSON} from screenplay lines.
+ * @internal
+ */
+class ScreenplayParser {
+  private options: ScreenplayOptions;
+  private characters: Map<string, CharacterJSON> = new Map();
+  private scenes: SceneJSON[] = [];
+  private scene: SceneJSON | null = null;
+  private actionIds: Set<string> = new Set();
+  private labels: Set<string> = new Set();
+  private conditions: { condition: Condition; at: Location; column: number }[] = [];
+  private choice: { action: SceneActionJSON; at: Location; column: number } | null =
+    null;
+  private files: (string | undefined)[] = [];
+
+  constructor(options: ScreenplayOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Parses the lines of one file, following includes.
+   * @param {string} source - The file's text
+   * @param {string} [file] - The file's name
+   */
+  parse(source: string, file?: string): void {
+    this.files.push(file);
+    source.split(/\r?\n/).forEach((text, index) => {
+      this.parseLine(text, { line: index + 1, file });
+    });
+    this.closeChoice();
+    this.files.pop();
+  }
+
+  /**
+   * Checks that every block is closed and returns the parsed story.
+   * @returns {ScriptJSON} The story
+   * @throws {ScreenplayError} If an `if` block is never closed
+   */
+  finish(): ScriptJSON {
+    const open = this.conditions.at(-1);
+    if (open) {
+      this.fail(`"if" is never closed with "end"`, open.at, open.column);
+    }
+    return { characters: [...this.characters.values()], scenes: this.scenes };
+  }
+
+  /**
+   * Parses a single line.
+   * @param {string} text - The line
+   * @param {Location} at - Where the line is
+   */
+  private parseLine(text: string, at: Location): void {
+    const indent = text.length - text.trimStart().length;
+    const line = text.trim();
+    const column = indent + 1;
+
+    if (line === "" || line.startsWith("//")) {
+      return;
+    }
+
+    if (line.startsWith("*")) {
+      this.parseChoiceOption(line.slice(1).trim(), at, column);
+      return;
+    }
+    this.closeChoice();
+
+    if (line.startsWith("#")) {
+      this.parseScene(this.tokenize(line.slice(1), column + 1, at), at, column);
+      return;
+    }
+
+    // Optional [effect id=...] prefix
+    let prefix: Token[] = [];
+    let rest = line;
+    let restColumn = column;
+    if (line.startsWith("[")) {
+      const close = line.indexOf("]");
+      if (close === -1) {
+        this.fail(`Missing "]"`, at, column + line.length);
+      }
+      prefix = this.tokenize(line.slice(1, close), column + 1, at);
+      rest = line.slice(close + 1);
+      restColumn = column + close + 1 + (rest.length - rest.trimStart().length);
+      rest = rest.trim();
+    }
+
+    const keyword = rest.split(/\s/, 1)[0];
+    switch (keyword) {
+      case "include":
+        this.expectNoPrefix(prefix, keyword, at);
+        this.parseInclude(rest.slice(keyword.length).trim(), at, restColumn);
+        return;
+      case "character":
+        this.expectNoPrefix(prefix, keyword, at);
+        this.parseCharacter(this.tokenize(rest, restColumn, at), at);
+        return;
+      case "if":
+        this.expectNoPrefix(prefix, keyword, at);
+        this.conditions.push({
+          condition: this.parseCondition(
+            rest.slice(2).trim(),
+            at,
+            restColumn + 3
+          ),
+          at,
+          column: restColumn,
+        });
+        return;
+      case "else":
+        this.expectNoPrefix(prefix, keyword, at);
+        this.parseElse(at, restColumn);
+        return;
+      case "end":
+        this.expectNoPrefix(prefix, keyword, at);
+        if (!this.conditions.pop()) {
+          this.fail(`"end" without a matching "if"`, at, restColumn);
+        }
+        return;
+    }
+
+    const action = this.parseAction(rest, at, restColumn);
+    this.applyPrefix(action, prefix, at);
+    this.addAction(action, at, column);
+  }
+
+  /**
+   * Parses a `# scene <id> bg=<image>` line.
+   * @internal
+   */
+  private parseScene(tokens: Token[], at: Location, column: number): void {
+    if (tokens[0]?.value !== "scene") {
+      this.fail(`Expected "# scene <id>"`, at, tokens[0]?.column ?? column);
+    }
+    if (!tokens[1]) {
+      this.fail(`Scene needs an id`, at, tokens[0].column);
+    }
+    const id = unquote(tokens[1].value);
+    if (this.scenes.some((scene) => scene.id === id)) {
+      this.fail(`Scene "${id}" is already defined`, at, tokens[1].column);
+    }
+    if (this.conditions.length > 0) {
+      this.fail(`"if" must be closed with "end" before a new scene`, at, column);
+    }
+
+    const scene: SceneJSON = { id, actions: [] };
+    for (const [key, value, token] of this.parseAttributes(tokens.slice(2), at)) {
+      if (key === "bg" || key === "background") {
+        scene.background = String(value);
+      } else {
+        this.fail(`Unknown scene attribute "${key}"`, at, token.column);
+      }
+    }
+
+    this.scenes.push(scene);
+    this.scene = scene;
+    this.actionIds = new Set();
+    this.labels = new Set();
+  }
+
+  /**
+   * Parses an `include <path>` line by parsing the named file in place.
+   * @internal
+   */
+  private parseInclude(path: string, at: Location, column: number): void {
+    path = unquote(path);
+    if (!path) {
+      this.fail(`"include" needs a file name`, at, column);
+    }
+    if (!this.options.resolveInclude) {
+      this.fail(`Cannot include "${path}" without a resolveInclude option`, at, column);
+    }
+    if (this.files.includes(path)) {
+      this.fail(`Circular include of "${path}"`, at, column);
+    }
+
+    let source: string;
+    try {
+      source = this.options.resolveInclude(path, at.file);
+    } catch (error) {
+      this.fail(
+        `Cannot include "${path}": ${error instanceof Error ? error.message : error}`,
+        at,
+        column
+      );
+    }
+    this.parse(source, path);
+  }
+
+  /**
+   * Parses a `character <name> key=value...` declaration.
+   * @internal
+   */
+  private parseCharacter(tokens: Token[], at: Location): void {
+    const name = tokens[1];
+    if (!name) {
+      this.fail(`"character" needs a name`, at, tokens[0].column);
+    }
+
+    const character = this.character(unquote(name.value));
+    const position: { x?: number | string; y?: number | string } = {};
+    const size: Size = {};
+    for (const [key, value, token] of this.parseAttributes(tokens.slice(2), at)) {
+      switch (key) {
+        case "image":
+          character.image = String(value);
+          break;
+        case "position":
+          character.position = this.namedPosition(String(value), at, token);
+          break;
+        case "x":
+        case "y":
+          position[key] = dimension(value);
+          break;
+        case "width":
+        case "height":
+          size[key] = dimension(value);
+          break;
+        default:
+          this.fail(`Unknown character attribute "${key}"`, at, token.column);
+      }
+    }
+    if (Object.keys(position).length > 0) {
+      character.position = position;
+    }
+    if (Object.keys(size).length > 0) {
+      character.size = size;
+    }
+  }
+
+  /**
+   * Turns an `if` block into its `else` branch.
+   * @internal
+   */
+  private parseElse(at: Location, column: number): void {
+    const block = this.conditions.at(-1);
+    if (!block) {
+      this.fail(`"else" without a matching "if"`, at, column);
+    }
+    block.condition = { not: block.condition };
+  }
+
+  /**
+   * Parses an action line without its prefix.
+   * @internal
+   */
+  private parseAction(line: string, at: Location, column: number): SceneActionJSON {
+    const keyword = line.split(/\s/, 1)[0];
+    switch (keyword) {
+      case "show":
+        return this.parseShow(this.tokenize(line, column, at), at);
+
+      case "hide": {
+        const tokens = this.tokenize(line, column, at);
+        this.expectTokens(tokens, 2, `hide <character>`, at);
+        return {
+          type: "hide",
+          character: this.character(unquote(tokens[1].value)).name,
+        };
+      }
+
+      case "image": {
+        const tokens = this.tokenize(line, column, at);
+        this.expectTokens(tokens, 3, `image <character> <image>`, at);
+        return {
+          type: "setImage",
+          character: this.character(unquote(tokens[1].value)).name,
+          image: unquote(tokens[2].value),
+        };
+      }
+
+      case "set": {
+        const match = /^set\s+([^\s=]+)\s*=\s*(.*)$/.exec(line);
+        if (!match || match[2] === "") {
+          this.fail(`Expected "set <variable> = <value>"`, at, column);
+        }
+        const key = this.variable(match[1], at, column + line.indexOf(match[1], 3));
+        return { type: "setVariable", key, value: literal(match[2]) };
+      }
+
+      case "increment": {
+        const tokens = this.tokenize(line, column, at);
+        if (tokens.length < 2 || tokens.length > 3) {
+          this.fail(`Expected "increment <variable> [amount]"`, at, column);
+        }
+        const action: SceneActionJSON = {
+          type: "incrementVariable",
+          key: this.variable(unquote(tokens[1].value), at, tokens[1].column),
+        };
+        if (tokens[2]) {
+          const amount = Number(tokens[2].value);
+          if (Number.isNaN(amount)) {
+            this.fail(`Amount must be a number`, at, tokens[2].column);
+          }
+          action.amount = amount;
+        }
+        return action;
+      }
+
+      case "label":
+      case "jump": {
+        const tokens = this.tokenize(line, column, at);
+        const usage = keyword === "label" ? `label <name>` : `jump <scene>[#label]`;
+        this.expectTokens(tokens, 2, usage, at);
+        if (tokens.length > 2) {
+          this.fail(`Expected "${usage}"`, at, tokens[2].column);
+        }
+        const value = unquote(tokens[1].value);
+        return keyword === "label"
+          ? { type: "label", label: value }
+          : { type: "jump", jumpTo: value };
+      }
+
+      case "wait": {
+        const tokens = this.tokenize(line, column, at);
+        this.expectTokens(tokens, 2, `wait <milliseconds> [skippable=false]`, at);
+        const duration = this.milliseconds(tokens[1].value, "Duration", at, tokens[1].column);
+        const action: SceneActionJSON = { type: "wait", duration };
+        for (const [key, value, token] of this.parseAttributes(tokens.slice(2), at)) {
+          if (key !== "skippable" || typeof value !== "boolean") {
+            this.fail(`Unknown wait attribute "${token.value}"`, at, token.column);
+          }
+          action.skippable = value;
+        }
+        return action;
+      }
+
+      case "return":
+        if (line !== "return") {
+          this.fail(`"return" takes no arguments`, at, column + 7);
+        }
+        return { type: "return" };
+
+      case "choice": {
+        if (line !== "choice") {
+          this.fail(`Options go on the following lines, starting with "*"`, at, column + 7);
+        }
+        return { type: "choice", choices: [] };
+      }
+    }
+
+    // Dialogue: Name: text
+    const match = /^("[^"]*"|[^:"]+):(.*)$/.exec(line);
+    if (!match) {
+      this.fail(`Unknown command "${keyword}"`, at, column);
+    }
+    const name = unquote(match[1].trim());
+    const text = match[2].trim();
+    if (!text) {
+      this.fail(`Dialogue for "${name}" has no text`, at, column + match[1].length + 1);
+    }
+    return { type: "dialogue", character: this.character(name).name, text };
+  }
+
+  /**
+   * Parses a `show <character> [position] key=value...` line.
+   * @internal
+   */
+  private parseShow(tokens: Token[], at: Location): SceneActionJSON {
+    this.expectTokens(tokens, 2, `show <character> [position]`, at);
+    const character = this.character(unquote(tokens[1].value));
+    const action: SceneActionJSON = { type: "show", character: character.name };
+
+    let attributes = tokens.slice(2);
+    if (attributes[0] && !attributes[0].value.includes("=")) {
+      action.position = this.namedPosition(attributes[0].value, at, attributes[0]);
+      attributes = attributes.slice(1);
+    }
+
+    const position: { x?: number | string; y?: number | string } = {};
+    const size: Size = {};
+    for (const [key, value, token] of this.parseAttributes(attributes, at)) {
+      switch (key) {
+        case "x":
+        case "y":
+          position[key] = dimension(value);
+          break;
+        case "width":
+        case "height":
+          size[key] = dimension(value);
+          break;
+        default:
+          this.fail(`Unknown show attribute "${key}"`, at, token.column);
+      }
+    }
+    if (Object.keys(position).length > 0) {
+      if (action.position) {
+        this.fail(`Use either a named position or x/y`, at, tokens[2].column);
+      }
+      action.position = position;
+    }
+    if (Object.keys(size).length > 0) {
+      action.size = size;
+    }
+
+    // Fall back to the character's declared defaults, like Scene.add()
+    action.position ??= character.position;
+    action.size ??= character.size;
+    if (action.position === undefined) {
+      delete action.position;
+    }
+    if (action.size === undefined) {
+      delete action.size;
+    }
+    return action;
+  }
+
+  /**
+   * Parses a `* text -> scene [key=value...]` choice option.
+   * @internal
+   */
+  private parseChoiceOption(line: string, at: Location, column: number): void {
+    if (!this.choice) {
+      this.fail(`Choice option outside of a "choice"`, at, column);
+    }
+
+    const option: ChoiceOption = { text: line };
+    if (line.endsWith("]")) {
+      const open = line.lastIndexOf("[");
+      if (open === -1) {
+        this.fail(`Missing "["`, at, column + line.length);
+      }
+      const tokens = this.tokenize(line.slice(open + 1, -1), column + open + 2, at);
+      option.set = {};
+      for (const [key, value, token] of this.parseAttributes(tokens, at)) {
+        option.set[this.variable(key, at, token.column)] = value;
+      }
+      line = line.slice(0, open).trim();
+      option.text = line;
+    }
+
+    const arrow = line.lastIndexOf("->");
+    if (arrow !== -1) {
+      const target = line.slice(arrow + 2).trim();
+      if (!target) {
+        this.fail(`Missing scene after "->"`, at, column + arrow + 2);
+      }
+      option.jumpTo = target;
+      option.text = line.slice(0, arrow).trim();
+    }
+    if (!option.text) {
+      this.fail(`Choice option has no text`, at, column);
+    }
+    this.choice.action.choices!.push(option);
+  }
+
+  /**
+   * Ends the choice being read, checking that it has options.
+   * @internal
+   */
+  private closeChoice(): void {
+    const choice = this.choice;
+    this.choice = null;
+    if (choice && choice.action.choices!.length === 0) {
+      this.fail(`Choice has no options`, choice.at, choice.column);
+    }
+  }
+
+  /**
+   * Applies an `[effect id=...]` prefix to an action.
+   * @internal
+   */
+  private applyPrefix(action: SceneActionJSON, prefix: Token[], at: Location): void {
+    for (const token of prefix) {
+      const [key, value] = splitAttribute(token.value);
+      if (value === undefined && EFFECTS.includes(key)) {
+        if (action.type !== "dialogue") {
+          this.fail(`Effect "${key}" only applies to dialogue`, at, token.column);
+        }
+        action.effect = key as "fade" | "typewriter";
+      } else if (key === "id" && value) {
+        action.id = unquote(value);
+      } else if (key === "autoAdvance" && value !== undefined) {
+        if (action.type !== "dialogue") {
+          this.fail(`Option "autoAdvance" only applies to dialogue`, at, token.column);
+        }
+        action.autoAdvance = this.milliseconds(
+          value,
+          `"autoAdvance"`,
+          at,
+          token.column + key.length + 1
+        );
+      } else {
+        this.fail(`Unknown option "${token.value}"`, at, token.column);
+      }
+    }
+  }
+
+  /**
+   * Reads a non-negative number of milliseconds.
+   * @internal
+   */
+  private milliseconds(text: string, name: string, at: Location, column: number): number {
+    const value = Number(text);
+    if (text === "" || !Number.isFinite(value) || value < 0) {
+      this.fail(`${name} must be a number of milliseconds`, at, column);
+    }
+    return value;
+  }
+
+  /**
+   * Adds an action to the current scene, gated by any open `if` blocks.
+   * @internal
+   */
+  private addAction(action: SceneActionJSON, at: Location, column: number): void {
+    if (!this.scene) {
+      this.fail(`Actions must come after a "# scene <id>" line`, at, column);
+    }
+    if (action.id !== undefined) {
+      if (this.actionIds.has(action.id)) {
+        this.fail(
+          `Action with id "${action.id}" already exists in scene "${this.scene.id}"`,
+          at,
+          column
+        );
+      }
+      this.actionIds.add(action.id);
+    }
+    if (action.type === "label") {
+      if (this.labels.has(action.label!)) {
+        this.fail(
+          `Label "${action.label}" already exists in scene "${this.scene.id}"`,
+          at,
+          column
+        );
+      }
+      this.labels.add(action.label!);
+    }
+
+    const conditions = this.conditions.map((block) => block.condition);
+    if (conditions.length > 0) {
+      action.condition = (
+        conditions.length === 1 ? conditions[0] : { all: conditions }
+      ) as ConditionExpression;
+    }
+
+    this.scene.actions.push(action);
+    if (action.type === "choice") {
+      this.choice = { action, at, column };
+    }
+  }
+
+  /**
+   * Parses a condition such as `gold >= 10 and not grumpy or vip`.
+   *
+   * `and` binds tighter than `or`. Each term is a variable, optionally preceded by
+   * `not`, or a comparison with `==`, `!=`, `>`, `>=`, `<`, `<=` or `in`.
+   *
+   * @internal
+   */
+  private parseCondition(text: string, at: Location, column: number): Condition {
+    if (!text) {
+      this.fail(`"if" needs a condition`, at, column);
+    }
+
+    const any = splitWords(text, "or").map((part) => {
+      const all = splitWords(part, "and").map((term) => {
+        const match =
+          /^(not\s+)?([A-Za-z_][\w.]*)(?:\s*(==|!=|>=|<=|>|<|\bin\b)\s*(.+))?$/.exec(
+            term.trim()
+          );
+        if (!match) {
+          this.fail(`Invalid condition "${term.trim()}"`, at, column + text.indexOf(term.trim()));
+        }
+        const [, not, name, operator, value] = match;
+        const variable = this.variable(
+          name,
+          at,
+          column + text.indexOf(term.trim()) + (not?.length ?? 0)
+        );
+        let condition: Condition = { var: variable };
+        if (operator) {
+          condition = { var: variable, [COMPARISONS[operator]]: literal(value) };
+        }
+        return not ? { not: condition } : condition;
+      });
+      return all.length === 1 ? all[0] : { all };
+    });
+    return any.length === 1 ? any[0] : { any };
+  }
+
+  /**
+   * Checks a variable name. Names cannot contain dots: variables are stored by
+   * their whole name, so `a.b` would not be the `b` of `a` that `{a.b}` reads.
+   * @internal
+   */
+  private variable(name: string, at: Location, column: number): string {
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+      this.fail(
+        `Invalid variable name "${name}"; use letters, digits and "_"`,
+        at,
+        column
+      );
+    }
+    return name;
+  }
+
+  /**
+   * Parses `key=value` tokens. Values are read as JSON literals when possible.
+   * @internal
+   */
+  private parseAttributes(tokens: Token[], at: Location): [string, any, Token][] {
+    return tokens.map((token) => {
+      const [key, value] = splitAttribute(token.value);
+      if (value === undefined || !key) {
+        this.fail(`Expected key=value, found "${token.value}"`, at, token.column);
+      }
+      return [key, literal(value), token];
+    });
+  }
+
+  /**
+   * Gets a named position, checking that it exists.
+   * @internal
+   */
+  private namedPosition(value: string, at: Location, token: Token): Position {
+    if (!isNamedPosition(value)) {
+      this.fail(
+        `Unknown position "${value}"; expected one of ${NAMED_POSITIONS.join(", ")}`,
+        at,
+        token.column
+      );
+    }
+    return value as Position;
+  }
+
+  /**
+   * Gets a character by name, declaring it on first use.
+   * @internal
+   */
+  private character(name: string): CharacterJSON {
+    let character = this.characters.get(name);
+    if (!character) {
+      character = { name };
+      this.characters.set(name, character);
+    }
+    return character;
+  }
+
+  /**
+   * Fails if a line that cannot take `[...]` options has them.
+   * @internal
+   */
+  private expectNoPrefix(prefix: Token[], keyword: string, at: Location): void {
+    if (prefix.length > 0) {
+      this.fail(`"${keyword}" does not take options`, at, prefix[0].column);
+    }
+  }
+
+  /**
+   * Fails if a line has fewer than `count` words.
+   * @internal
+   */
+  private expectTokens(tokens: Token[], count: number, usage: string, at: Location): void {
+    if (tokens.length < count) {
+      this.fail(`Expected "${usage}"`, at, tokens[0].column);
+    }
+  }
+
+  /**
+   * Splits a line into words, keeping double-quoted strings together.
+   * Quotes are kept; use `unquote()` where a plain string is needed.
+   * @internal
+   */
+  private tokenize(text: string, column: number, at: Location): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\S*"[^"]*"\S*|\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if ((match[0].match(/"/g) ?? []).length % 2 !== 0) {
+        this.fail(`Unterminated string`, at, column + match.index);
+      }
+      tokens.push({ value: match[0], column: column + match.index });
+    }
+    return tokens;
+  }
+
+  /**
+   * Throws a ScreenplayError at the given location.
+   * @internal
+   */
+  private fail(message: string, at: Location, column: number): never {
+    throw new ScreenplayError(message, at.line, column, at.file);
+  }
+}
+
+/**
+ * Splits text on a word such as `and`, ignoring the word inside quotes.
+ * @internal
+ */
+function splitWords(text: string, word: string): string[] {
+  const parts: string[] = [];
+  const pattern = new RegExp(`"[^"]*"|\\s${word}\\s`, "g");
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[0].startsWith('"')) {
+      continue;
+    }
+    parts.push(text.slice(start, match.index));
+    start = match.index + match[0].length;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Splits `key=value` into its parts; the value is undefined when there is no `=`.
+ * @internal
+ */
+function splitAttribute(text: string): [string, string | undefined] {
+  const equals = text.indexOf("=");
+  return equals === -1
+    ? [text, undefined]
+    : [text.slice(0, equals), text.slice(equals + 1)];
+}
+
+/**
+ * Reads a value as a JSON literal (number, boolean, null, quoted string, array or
+ * object), or as a plain string if it is not valid JSON.
+ * @internal
+ */
+function literal(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reads a position or size value: a number (0.0-1.0) or a CSS length.
+ * @internal
+ */
+function dimension(value: any): number | string {
+  return typeof value === "number" ? value : String(value);
+}
+
+/**
+ * Removes surrounding double quotes.
+ * @internal
+ */
+function unquote(text: string): string {
+  return text.startsWith('"') && text.endsWith('"') && text.length >= 2
+    ? text.slice(1, -1)
+    : text;
+}
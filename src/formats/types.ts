@@ -0,0 +1,32 @@
+import type { Script } from "../core/types.js";
+
+/**
+ * A problem found while importing a story written for another tool.
+ *
+ * Importers report features they cannot represent instead of silently
+ * dropping them.
+ *
+ * @interface ImportWarning
+ * @property {string} message - Description of what was not imported
+ * @property {string} [location] - Where in the source the problem is, e.g. an Ink
+ *   container path or a Yarn node title and line
+ */
+export interface ImportWarning {
+  message: string;
+  location?: string;
+}
+
+/**
+ * The result of importing a story written for another tool.
+ *
+ * @interface ImportResult
+ * @property {Script} script - The imported script
+ * @property {Object<string, *>} variables - Initial values of the story's variables.
+ *   They are also set by `setVariable` actions at the start of the first scene.
+ * @property {ImportWarning[]} warnings - Features that could not be imported
+ */
+export interface ImportResult {
+  script: Script;
+  variables: Record<string, any>;
+  warnings: ImportWarning[];
+}
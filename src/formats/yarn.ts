@@ -0,0 +1,893 @@
+import { Character, Scene, Script, NAMED_POSITIONS, isNamedPosition } from "../core/types.js";
+import type {
+  ChoiceOption,
+  Condition,
+  ConditionExpression,
+  SceneAction,
+} from "../core/types.js";
+import { orderScenes } from "./flow.js";
+import type { FlowScene } from "./flow.js";
+import type { ImportResult, ImportWarning } from "./types.js";
+
+/**
+ * Options for importing a Yarn Spinner story.
+ *
+ * @interface YarnImportOptions
+ * @property {Character[]} [characters] - Characters to use for matching speaker
+ *   names and commands. Other names get a new character without an image.
+ * @property {string} [narrator=""] - Name of the character who speaks lines
+ *   without a `Name:` prefix
+ * @property {string} [file] - Name of the file being imported, used in errors
+ *   and warning locations
+ */
+export interface YarnImportOptions {
+  characters?: Character[];
+  narrator?: string;
+  file?: string;
+}
+
+/**
+ * A non-empty line of a node's body.
+ * @internal
+ */
+interface YarnLine {
+  text: string;
+  indent: number;
+  line: number;
+}
+
+/**
+ * A node: its title and body lines.
+ * @internal
+ */
+interface YarnNode {
+  title: string;
+  line: number;
+  body: YarnLine[];
+}
+
+/**
+ * A parsed statement of a node's body.
+ * @internal
+ */
+type YarnStatement =
+  | { kind: "line"; text: string; condition?: string; at: YarnLine }
+  | { kind: "command"; name: string; args: string; at: YarnLine }
+  | {
+      kind: "if";
+      branches: { condition?: string; body: YarnStatement[]; at: YarnLine }[];
+    }
+  | {
+      kind: "options";
+      options: { text: string; condition?: string; body: YarnStatement[]; at: YarnLine }[];
+    };
+
+/**
+ * A scene being built from a node or part of one.
+ * @internal
+ */
+interface YarnScene extends FlowScene {
+  title: string;
+  actions: SceneAction[];
+}
+
+const COMPARISONS: Record<string, string> = {
+  "==": "eq",
+  is: "eq",
+  eq: "eq",
+  "!=": "ne",
+  neq: "ne",
+  ">": "gt",
+  gt: "gt",
+  ">=": "gte",
+  gte: "gte",
+  "<": "lt",
+  lt: "lt",
+  "<=": "lte",
+  lte: "lte",
+};
+const COMMAND = /^<<\s*([\w.]+)\s*(.*?)\s*>>$/s;
+/** A trailing `<<if ...>>`, which line tags such as `#line:a1` may follow */
+const TRAILING_CONDITION = /\s*<<\s*if\s+(.*?)\s*>>((?:\s+#\S+)*)\s*$/;
+const SPEAKER = /^([^:{}[\]<>#]+?)\s*:\s+(\S.*)$/s;
+
+/**
+ * Imports a Yarn Spinner story (the text of one or more `.yarn` files).
+ *
+ * - Every node becomes a scene with the node's title as its id
+ * - `Name: text` becomes dialogue spoken by the matching character; other lines
+ *   by the `narrator`. `{$var}` becomes a `{var}` placeholder, and a `#line:id`
+ *   tag becomes the dialogue's id
+ * - Options (`-> text`) become a choice action. An option that only jumps jumps
+ *   straight to the node; other options jump to a scene holding their content,
+ *   named `Title.option-N`, and the lines after the options move to a scene
+ *   named `Title.after-N`
+ * - `<<jump Node>>` at the end of a node, option or `<<if>>`-free stretch is
+ *   followed by placing the node right after, since scenes continue into the
+ *   next one. Where that is not possible, and inside `<<if>>`, it becomes a
+ *   jump action
+ * - `<<set $x to 1>>` and `<<set $x to $x + 1>>` become setVariable and
+ *   incrementVariable actions; `<<declare $x = 1>>` adds an initial value to
+ *   `variables`, for the game to set before the story starts
+ * - `<<if>>`, `<<elseif>>`, `<<else>>` and `<<endif>>`, and a trailing
+ *   `<<if ...>>` on a line, become conditions on the actions they enclose
+ * - `<<show Name [position]>>`, `<<hide Name>>` and `<<image Name path>>` (or
+ *   `<<setImage ...>>`) become show, hide and setImage actions
+ * - `<<wait 2>>` becomes a wait action of that many seconds
+ *
+ * Anything else (other commands, functions, conditions on options, `<<stop>>`
+ * inside `<<if>>` and stops that cannot be followed by ordering scenes) is
+ * reported in `warnings`.
+ *
+ * @param {string} source - The Yarn source
+ * @param {YarnImportOptions} [options={}] - Import options
+ * @returns {ImportResult} The script, the declared variables and any warnings
+ * @throws {Error} If a node has no title or is not closed, or `<<if>>` blocks
+ *   are not balanced
+ * @example
+ * ```typescript
+ * const alex = new Character("Alex", "alex.png");
+ * const { script, variables } = importYarn(readFileSync("story.yarn", "utf8"), {
+ *   file: "story.yarn",
+ *   characters: [alex],
+ * });
+ * const engine = new VNEngine({ script, container: "#game", startScene: "Start" });
+ * Object.entries(variables).forEach(([key, value]) => engine.setVariable(key, value));
+ * ```
+ */
+export function importYarn(
+  source: string,
+  options: YarnImportOptions = {}
+): ImportResult {
+  return new YarnImporter(options).run(source);
+}
+
+/**
+ * Converts Yarn nodes to scenes.
+ * @internal
+ */
+class YarnImporter {
+  private options: YarnImportOptions;
+  private characters: Map<string, Character> = new Map();
+  private scenes: YarnScene[] = [];
+  private nodes: Map<string, YarnScene> = new Map();
+  private counters: Map<string, number> = new Map();
+  private variables: Record<string, any> = {};
+  private warnings: ImportWarning[] = [];
+
+  constructor(options: YarnImportOptions) {
+    this.options = options;
+    for (const character of options.characters ?? []) {
+      this.characters.set(character.name, character);
+    }
+  }
+
+  /**
+   * Imports the story.
+   * @param {string} source - The Yarn source
+   * @returns {ImportResult} The import result
+   */
+  run(source: string): ImportResult {
+    const nodes = this.parseNodes(source);
+    if (nodes.length === 0) {
+      throw new Error(`Yarn story has no nodes`);
+    }
+    for (const node of nodes) {
+      const scene = this.createScene(node.title, node.title, node.line);
+      this.nodes.set(node.title, scene);
+    }
+    for (const node of nodes) {
+      const scene = this.nodes.get(node.title)!;
+      this.convert(new BlockParser(node.body, this).parse(), scene, [], "end");
+    }
+
+    // Declared values are returned in `variables` rather than set in the first
+    // node, which a <<jump>> back to it would run again
+    const start = this.nodes.get(nodes[0].title)!;
+
+    const script = new Script();
+    const ordered = orderScenes(
+      start,
+      this.scenes,
+      (message, location) => this.warn(message, location),
+      (scene, target) => scene.actions.push({ type: "jump", jumpTo: target.id })
+    );
+    for (const imported of ordered) {
+      const scene = new Scene(imported.id);
+      imported.actions.forEach((action) => scene.addAction(action));
+      script.addScene(scene);
+    }
+    return { script, variables: { ...this.variables }, warnings: this.warnings };
+  }
+
+  /**
+   * Splits the source into nodes.
+   * @internal
+   */
+  private parseNodes(source: string): YarnNode[] {
+    const nodes: YarnNode[] = [];
+    let node: YarnNode | null = null;
+    let header: { title?: string; line: number } | null = null;
+
+    const lines = source.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+      const raw = lines[index];
+      const line = index + 1;
+      const text = raw.trim();
+
+      if (node) {
+        if (text === "===") {
+          node = null;
+        } else if (text && !text.startsWith("//")) {
+          node.body.push({ text, indent: raw.length - raw.trimStart().length, line });
+        }
+        continue;
+      }
+
+      if (text === "" || text.startsWith("//")) {
+        continue;
+      }
+      if (text === "---") {
+        if (!header?.title) {
+          this.fail(`Node has no title`, header?.line ?? line);
+        }
+        if (nodes.some((existing) => existing.title === header!.title)) {
+          this.fail(`Node "${header.title}" is already defined`, header.line);
+        }
+        node = { title: header.title, line: header.line, body: [] };
+        nodes.push(node);
+        header = null;
+        continue;
+      }
+
+      const match = /^([\w-]+)\s*:\s*(.*)$/.exec(text);
+      if (!match) {
+        this.fail(`Expected a node header line such as "title: Start"`, line);
+      }
+      header ??= { line };
+      if (match[1] === "title") {
+        header.title = match[2].trim();
+        header.line = line;
+      }
+    }
+
+    if (node) {
+      this.fail(`Node "${node.title}" is never closed with "==="`, node.line);
+    }
+    if (header) {
+      this.fail(`Node header is never followed by "---"`, header.line);
+    }
+    return nodes;
+  }
+
+  /**
+   * Converts statements to actions of a scene.
+   * @param {YarnStatement[]} statements - The statements
+   * @param {YarnScene} scene - The scene to add actions to
+   * @param {Condition[]} conditions - Conditions of the enclosing `<<if>>` blocks
+   * @param {YarnScene|"end"} next - Where the story continues when the statements
+   *   run out
+   * @internal
+   */
+  convert(
+    statements: YarnStatement[],
+    scene: YarnScene,
+    conditions: Condition[],
+    next: YarnScene | "end"
+  ): void {
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      switch (statement.kind) {
+        case "line": {
+          const lineConditions = statement.condition
+            ? this.withCondition(conditions, statement.condition, statement.at)
+            : conditions;
+          this.addLine(statement.text, statement.at, scene, lineConditions);
+          break;
+        }
+
+        case "if": {
+          const previous: Condition[] = [];
+          for (const branch of statement.branches) {
+            const branchConditions = previous.map((condition): Condition => ({ not: condition }));
+            const condition =
+              branch.condition !== undefined
+                ? this.condition(branch.condition, branch.at)
+                : null;
+            if (condition) {
+              previous.push(condition);
+            }
+            this.convert(
+              branch.body,
+              scene,
+              [...conditions, ...branchConditions, ...(condition ? [condition] : [])],
+              next
+            );
+          }
+          break;
+        }
+
+        case "options":
+          if (this.addOptions(statement, statements.slice(index + 1), scene, conditions, next)) {
+            return;
+          }
+          break;
+
+        case "command":
+          if (this.addCommand(statement, scene, conditions)) {
+            return;
+          }
+          break;
+      }
+    }
+    if (conditions.length === 0) {
+      scene.next ??= next;
+    }
+  }
+
+  /**
+   * Adds a dialogue line.
+   * @internal
+   */
+  private addLine(
+    text: string,
+    at: YarnLine,
+    scene: YarnScene,
+    conditions: Condition[]
+  ): void {
+    const { text: line, id } = this.lineText(text, at);
+    if (!line) {
+      return;
+    }
+    const match = SPEAKER.exec(line);
+    const character = this.character(match ? match[1] : (this.options.narrator ?? ""));
+    const action: SceneAction = {
+      type: "dialogue",
+      character,
+      text: match ? match[2] : line,
+    };
+    if (id !== undefined) {
+      if (scene.actions.some((existing) => existing.id === id)) {
+        this.warn(`Line id "${id}" is used twice in node "${scene.title}"`, this.location(at));
+      } else {
+        action.id = id;
+        action.options = { id };
+      }
+    }
+    this.addAction(scene, action, conditions);
+  }
+
+  /**
+   * Adds a choice for a group of options.
+   * @returns {boolean} True if the rest of the statements moved to another scene
+   * @internal
+   */
+  private addOptions(
+    statement: Extract<YarnStatement, { kind: "options" }>,
+    rest: YarnStatement[],
+    scene: YarnScene,
+    conditions: Condition[],
+    next: YarnScene | "end"
+  ): boolean {
+    const jumpOnly = (body: YarnStatement[]) =>
+      body.length === 1 && body[0].kind === "command" && body[0].name === "jump";
+    const hasContent = statement.options.some(
+      (option) => option.body.length > 0 && !jumpOnly(option.body)
+    );
+
+    // Options with content jump away, so the lines after the options move to a
+    // scene that each option continues into
+    let after: YarnScene | "end" = next;
+    let split = false;
+    if (hasContent && rest.length > 0) {
+      if (conditions.length > 0) {
+        this.warn(
+          `Options with content inside <<if>> are not supported; they skip the lines after the options`,
+          this.location(statement.options[0].at)
+        );
+      } else {
+        after = this.createScene(
+          this.nextId(scene.title, "after"),
+          scene.title,
+          statement.options[0].at.line
+        );
+        split = true;
+      }
+    }
+
+    const choices = statement.options.map((option): ChoiceOption => {
+      const { text } = this.lineText(option.text, option.at);
+      if (option.condition !== undefined) {
+        this.warn(
+          `Conditions on options are not supported; the option is always shown`,
+          this.location(option.at)
+        );
+      }
+
+      let target: YarnScene | null = null;
+      if (jumpOnly(option.body)) {
+        target = this.jumpTarget((option.body[0] as { args: string }).args, option.at);
+      } else if (option.body.length > 0) {
+        target = this.createScene(this.nextId(scene.title, "option"), scene.title, option.at.line);
+        this.convert(option.body, target, [], after);
+      } else if (hasContent && (split || rest.length === 0) && after !== "end") {
+        target = after;
+      }
+
+      if (!target) {
+        return { text };
+      }
+      scene.branches.push(target);
+      return { text, jumpTo: target.id };
+    });
+    this.addAction(scene, { type: "choice", choices }, conditions);
+
+    if (split) {
+      this.convert(rest, after as YarnScene, [], next);
+    }
+    return split;
+  }
+
+  /**
+   * Adds the action for a command.
+   * @returns {boolean} True if the command ends the scene
+   * @internal
+   */
+  private addCommand(
+    statement: Extract<YarnStatement, { kind: "command" }>,
+    scene: YarnScene,
+    conditions: Condition[]
+  ): boolean {
+    const { name, args, at } = statement;
+    const words = args.split(/\s+/).filter(Boolean);
+
+    switch (name) {
+      case "jump":
+      case "stop": {
+        const target = name === "jump" ? this.jumpTarget(args, at) : "end";
+        if (conditions.length === 0) {
+          if (target) {
+            scene.next = target;
+          }
+          return true;
+        }
+        if (target === "end") {
+          this.warn(`<<stop>> inside <<if>> is not supported`, this.location(at));
+        } else if (target) {
+          this.addAction(scene, { type: "jump", jumpTo: target.id }, conditions);
+        }
+        return false;
+      }
+
+      case "wait": {
+        const seconds = Number(args);
+        if (!args || !Number.isFinite(seconds) || seconds < 0) {
+          this.warn(`Cannot read <<wait ${args}>>`, this.location(at));
+          return false;
+        }
+        this.addAction(scene, { type: "wait", duration: seconds * 1000 }, conditions);
+        return false;
+      }
+
+      case "set":
+        this.addSet(args, at, scene, conditions);
+        return false;
+
+      case "declare": {
+        const match = /^\$(\w+)\s*(?:=|\bto\b)\s*(.+?)(?:\s+as\s+\w+)?$/.exec(args);
+        const value = match ? literal(match[2]) : undefined;
+        if (!match || value === undefined) {
+          this.warn(`Cannot read declaration "${args}"`, this.location(at));
+        } else {
+          this.variables[match[1]] = value;
+        }
+        return false;
+      }
+
+      case "show": {
+        if (!words[0]) {
+          this.warn(`<<show>> needs a character`, this.location(at));
+          return false;
+        }
+        const action: SceneAction = { type: "show", character: this.character(words[0]) };
+        if (words[1]) {
+          if (isNamedPosition(words[1])) {
+            action.position = words[1];
+          } else {
+            this.warn(
+              `Unknown position "${words[1]}"; expected one of ${NAMED_POSITIONS.join(", ")}`,
+              this.location(at)
+            );
+          }
+        }
+        this.addAction(scene, action, conditions);
+        return false;
+      }
+
+      case "hide":
+        if (!words[0]) {
+          this.warn(`<<hide>> needs a character`, this.location(at));
+          return false;
+        }
+        this.addAction(scene, { type: "hide", character: this.character(words[0]) }, conditions);
+        return false;
+
+      case "image":
+      case "setImage":
+        if (words.length < 2) {
+          this.warn(`<<${name}>> needs a character and an image`, this.location(at));
+          return false;
+        }
+        this.addAction(
+          scene,
+          { type: "setImage", character: this.character(words[0]), image: words[1] },
+          conditions
+        );
+        return false;
+    }
+
+    this.warn(`Command <<${name}>> is not supported`, this.location(at));
+    return false;
+  }
+
+  /**
+   * Adds the action for `<<set $x to value>>`.
+   * @internal
+   */
+  private addSet(
+    args: string,
+    at: YarnLine,
+    scene: YarnScene,
+    conditions: Condition[]
+  ): void {
+    const match = /^\$(\w+)\s*(=|\bto\b|\+=|-=)\s*(.+)$/.exec(args);
+    if (!match) {
+      this.warn(`Cannot read <<set ${args}>>`, this.location(at));
+      return;
+    }
+    const [, key, operator, expression] = match;
+
+    if (operator === "+=" || operator === "-=") {
+      const amount = literal(expression);
+      if (typeof amount === "number") {
+        this.addAction(
+          scene,
+          { type: "incrementVariable", key, amount: operator === "+=" ? amount : -amount },
+          conditions
+        );
+        return;
+      }
+    } else {
+      const value = literal(expression);
+      if (value !== undefined) {
+        this.addAction(scene, { type: "setVariable", key, value }, conditions);
+        return;
+      }
+      const sum = /^\$(\w+)\s*([+-])\s*(.+)$/.exec(expression);
+      const amount = sum ? literal(sum[3]) : undefined;
+      if (sum && sum[1] === key && typeof amount === "number") {
+        this.addAction(
+          scene,
+          { type: "incrementVariable", key, amount: sum[2] === "+" ? amount : -amount },
+          conditions
+        );
+        return;
+      }
+    }
+    this.warn(`Assignment to "$${key}" is too complex to import`, this.location(at));
+  }
+
+  /**
+   * Adds an action with the conditions of its enclosing blocks.
+   * @internal
+   */
+  private addAction(scene: YarnScene, action: SceneAction, conditions: Condition[]): void {
+    if (conditions.length > 0) {
+      action.condition = conditions.length === 1 ? conditions[0] : { all: conditions };
+    }
+    scene.actions.push(action);
+  }
+
+  /**
+   * Removes tags from a line and converts inline expressions to placeholders.
+   * @returns The text and the id from a `#line:` tag
+   * @internal
+   */
+  private lineText(text: string, at: YarnLine): { text: string; id?: string } {
+    let id: string | undefined;
+    text = text.replace(/(^|\s)#(\S+)/g, (_, space: string, tag: string) => {
+      if (tag.startsWith("line:")) {
+        id = tag;
+      } else {
+        this.warn(`Tag "#${tag}" is not supported`, this.location(at));
+      }
+      return space;
+    });
+    text = text.replace(/\{([^}]*)\}/g, (whole, expression: string) => {
+      const variable = /^\s*\$(\w+)\s*$/.exec(expression);
+      if (variable) {
+        return `{${variable[1]}}`;
+      }
+      this.warn(`Inline expression "${whole}" is not supported`, this.location(at));
+      return "";
+    });
+    return { text: text.trim(), id };
+  }
+
+  /**
+   * Parses a condition such as `$gold >= 10 and not $grumpy`.
+   * @returns {Condition|null} The condition, or null if it is not supported
+   * @internal
+   */
+  private condition(text: string, at: YarnLine): Condition | null {
+    const parse = (): Condition | null => {
+      const any: Condition[] = [];
+      for (const part of text.split(/\s+(?:or|\|\|)\s+/)) {
+        const all: Condition[] = [];
+        for (const term of part.split(/\s+(?:and|&&)\s+/)) {
+          const match =
+            /^(not\s+|!\s*)?\$(\w+)(?:\s*(==|!=|>=|<=|>|<|\bis\b|\beq\b|\bneq\b|\bgte\b|\blte\b|\bgt\b|\blt\b)\s*(.+))?$/.exec(
+              term.trim()
+            );
+          if (!match) {
+            return null;
+          }
+          const [, not, variable, operator, value] = match;
+          let condition: Condition = { var: variable };
+          if (operator) {
+            const parsed = literal(value);
+            if (parsed === undefined) {
+              return null;
+            }
+            condition = { var: variable, [COMPARISONS[operator]]: parsed } as ConditionExpression;
+          }
+          all.push(not ? { not: condition } : condition);
+        }
+        any.push(all.length === 1 ? all[0] : { all });
+      }
+      return any.length === 1 ? any[0] : { any };
+    };
+
+    const condition = parse();
+    if (!condition) {
+      this.warn(
+        `Condition "${text}" is not supported; its lines always run`,
+        this.location(at)
+      );
+    }
+    return condition;
+  }
+
+  /**
+   * Adds a condition to the enclosing conditions, if it can be read.
+   * @internal
+   */
+  private withCondition(conditions: Condition[], text: string, at: YarnLine): Condition[] {
+    const condition = this.condition(text, at);
+    return condition ? [...conditions, condition] : conditions;
+  }
+
+  /**
+   * Finds the scene of a `<<jump>>` target.
+   * @internal
+   */
+  private jumpTarget(args: string, at: YarnLine): YarnScene | null {
+    const scene = this.nodes.get(args.trim());
+    if (!scene) {
+      this.warn(`<<jump>> target "${args.trim()}" not found`, this.location(at));
+      return null;
+    }
+    return scene;
+  }
+
+  /**
+   * Creates a scene.
+   * @internal
+   */
+  private createScene(id: string, title: string, line: number): YarnScene {
+    const scene: YarnScene = {
+      id,
+      title,
+      location: this.location({ line }),
+      actions: [],
+      branches: [],
+    };
+    this.scenes.push(scene);
+    return scene;
+  }
+
+  /**
+   * Makes the next id such as `Start.option-2` for a part of a node.
+   * @internal
+   */
+  private nextId(title: string, kind: string): string {
+    const key = `${title}.${kind}`;
+    const count = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, count);
+    return `${key}-${count}`;
+  }
+
+  /**
+   * Gets a character by name, creating it on first use.
+   * @internal
+   */
+  private character(name: string): Character {
+    let character = this.characters.get(name);
+    if (!character) {
+      character = new Character(name);
+      this.characters.set(name, character);
+    }
+    return character;
+  }
+
+  /**
+   * Formats a source location, e.g. `story.yarn, line 3`.
+   * @internal
+   */
+  location(at: { line: number }): string {
+    return `${this.options.file ? `${this.options.file}, ` : ""}line ${at.line}`;
+  }
+
+  /**
+   * Records a warning.
+   * @internal
+   */
+  private warn(message: string, location: string): void {
+    this.warnings.push({ message, location });
+  }
+
+  /**
+   * Throws an error for a malformed story.
+   * @internal
+   */
+  fail(message: string, line: number): never {
+    throw new Error(`${message} (${this.location({ line })})`);
+  }
+}
+
+/**
+ * Parses the lines of a node body into statements.
+ * @internal
+ */
+class BlockParser {
+  private lines: YarnLine[];
+  private importer: YarnImporter;
+  private index = 0;
+
+  constructor(lines: YarnLine[], importer: YarnImporter) {
+    this.lines = lines;
+    this.importer = importer;
+  }
+
+  /**
+   * Parses every line.
+   * @returns {YarnStatement[]} The statements
+   */
+  parse(): YarnStatement[] {
+    const { statements, end } = this.parseUntil([]);
+    if (end) {
+      this.importer.fail(`<<${end.name}>> without a matching <<if>>`, end.at.line);
+    }
+    return statements;
+  }
+
+  /**
+   * Parses lines until one of the given commands.
+   * @internal
+   */
+  private parseUntil(stop: string[]): {
+    statements: YarnStatement[];
+    end?: { name: string; args: string; at: YarnLine };
+  } {
+    const statements: YarnStatement[] = [];
+    while (this.index < this.lines.length) {
+      const at = this.lines[this.index];
+
+      if (at.text.startsWith("->")) {
+        statements.push(this.parseOptions(at.indent));
+        continue;
+      }
+
+      this.index++;
+      const command = COMMAND.exec(at.text);
+      if (!command) {
+        statements.push({ kind: "line", ...splitCondition(at.text), at });
+        continue;
+      }
+
+      const [, name, args] = command;
+      if (["elseif", "else", "endif"].includes(name)) {
+        return { statements, end: { name, args, at } };
+      }
+      if (name === "if") {
+        statements.push(this.parseIf(args, at));
+      } else {
+        statements.push({ kind: "command", name, args, at });
+      }
+    }
+    return { statements };
+  }
+
+  /**
+   * Parses an `<<if>>` block up to its `<<endif>>`.
+   * @internal
+   */
+  private parseIf(condition: string, at: YarnLine): YarnStatement {
+    const branches: Extract<YarnStatement, { kind: "if" }>["branches"] = [];
+    let branch: { condition?: string; at: YarnLine } = { condition, at };
+    for (;;) {
+      const { statements, end } = this.parseUntil(["elseif", "else", "endif"]);
+      branches.push({ ...branch, body: statements });
+      if (!end) {
+        this.importer.fail(`<<if>> is never closed with <<endif>>`, at.line);
+      }
+      if (end.name === "endif") {
+        return { kind: "if", branches };
+      }
+      if (branch.condition === undefined) {
+        this.importer.fail(`<<${end.name}>> after <<else>>`, end.at.line);
+      }
+      branch = end.name === "elseif" ? { condition: end.args, at: end.at } : { at: end.at };
+    }
+  }
+
+  /**
+   * Parses a group of options at the same indentation, with their indented
+   * content.
+   * @internal
+   */
+  private parseOptions(indent: number): YarnStatement {
+    const options: Extract<YarnStatement, { kind: "options" }>["options"] = [];
+    while (
+      this.index < this.lines.length &&
+      this.lines[this.index].indent === indent &&
+      this.lines[this.index].text.startsWith("->")
+    ) {
+      const at = this.lines[this.index++];
+      const { text, condition } = splitCondition(at.text.slice(2).trim());
+
+      const body: YarnLine[] = [];
+      while (this.index < this.lines.length && this.lines[this.index].indent > indent) {
+        body.push(this.lines[this.index++]);
+      }
+      options.push({
+        text,
+        condition,
+        body: new BlockParser(body, this.importer).parse(),
+        at,
+      });
+    }
+    return { kind: "options", options };
+  }
+}
+
+/**
+ * Reads a number, quoted string or boolean.
+ * @returns {*} The value, or undefined if the text is not a literal
+ * @internal
+ */
+function literal(text: string): any {
+  text = text.trim();
+  if (text === "true" || text === "false") {
+    return text === "true";
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+    return JSON.parse(text);
+  }
+  return undefined;
+}
+
+/**
+ * Splits a trailing `<<if ...>>` off a line or option, keeping any tags after it.
+ * @internal
+ */
+function splitCondition(text: string): { text: string; condition?: string } {
+  const match = TRAILING_CONDITION.exec(text);
+  if (!match) {
+    return { text };
+  }
+  return { text: text.slice(0, match.index) + match[2], condition: match[1] };
+}
@@ -38,18 +38,63 @@
 
 // Core engine and types
 export { VNEngine } from "./core/engine.js";
-export { Script, Scene, Character } from "./core/types.js";
+export { Script, Scene, Character, NAMED_POSITIONS, isNamedPosition } from "./core/types.js";
 export { StateManager } from "./core/state.js";
+export { Backlog } from "./core/backlog.js";
+export { SeenLines } from "./core/seen.js";
+export { Stage } from "./core/stage.js";
+export { evaluateCondition } from "./core/conditions.js";
+export { validateScript } from "./core/validate.js";
+export { StoryGraph } from "./core/graph.js";
+export { interpolate, defaultFormatters } from "./core/template.js";
+export { parseMarkup, stripMarkup, markupText } from "./core/markup.js";
+export { SaveMigrations, SaveMigrationError, SAVE_SCHEMA_VERSION } from "./core/save.js";
 
 // Renderer
 export { DOMRenderer } from "./renderer/renderer.js";
-export { typewriter, fadeIn, fadeOut } from "./renderer/effects.js";
+export {
+  typewriter,
+  fadeIn,
+  fadeOut,
+  wait,
+  prefersReducedMotion,
+  DEFAULT_PUNCTUATION_PAUSES,
+} from "./renderer/effects.js";
+export { InputController, DEFAULT_INPUT_MAP } from "./renderer/input.js";
+export { renderMarkup } from "./renderer/markup.js";
+
+// Story formats
+export { parseScreenplay, ScreenplayError } from "./formats/screenplay.js";
+export { importInk } from "./formats/ink.js";
+export { importYarn } from "./formats/yarn.js";
+
+// Storage
+export { MemoryStorageAdapter, LocalStorageAdapter } from "./storage/storage.js";
 
 // Utilities
 export { CancellablePromise } from "./util/promise.js";
+export { splitGraphemes } from "./util/graphemes.js";
 
 // Re-export types for consumers
-export type { VNEngineOptions, EngineEvent, EngineEventType, EngineEventListener } from "./core/engine.js";
-export type { RendererOptions } from "./renderer/renderer.js";
+export type { VNEngineOptions, AutoPlayOptions, SkipOptions, EngineEvent, EngineEventType, EngineEventListener } from "./core/engine.js";
+export type { Formatter, InterpolateOptions } from "./core/template.js";
+export type { MarkupNode, MarkupTag } from "./core/markup.js";
+export type { SaveMigration } from "./core/save.js";
+export type { BacklogEntry } from "./core/backlog.js";
+export type { SeenLinesData } from "./core/seen.js";
+export type { StoryGraphNode, StoryGraphEdge, StoryGraphEdgeKind } from "./core/graph.js";
+export type { ValidationIssue, ValidationSeverity, ValidationCode, ValidateOptions } from "./core/validate.js";
+export type { ScreenplayOptions } from "./formats/screenplay.js";
+export type { InkImportOptions } from "./formats/ink.js";
+export type { YarnImportOptions } from "./formats/yarn.js";
+export type { ImportResult, ImportWarning } from "./formats/types.js";
+export type { StorageAdapter } from "./storage/storage.js";
+export type {
+  RendererOptions,
+  AccessibilityOptions,
+  SpriteChange,
+} from "./renderer/renderer.js";
+export type { Renderer } from "./renderer/types.js";
 export type { TypewriterOptions, FadeOptions } from "./renderer/effects.js";
-export type { SceneAction, SceneActionType, SceneOptions, DialogueOptions, Position, Size, GameState } from "./core/types.js";
+export type { InputAction, InputMap, InputHandler } from "./renderer/input.js";
+export type { SceneAction, SceneActionType, SceneOptions, ChoiceOption, Condition, ConditionExpression, DialogueOptions, NamedPosition, Position, Size, GameState, CallFrame, SaveData, StageState, CharacterState, ScriptJSON, SceneJSON, SceneActionJSON, CharacterJSON } from "./core/types.js";
@@ -1,33 +1,70 @@
 import { CancellablePromise } from "../util/promise.js";
+import type { MarkupNode } from "../core/markup.js";
+import { splitGraphemes } from "../util/graphemes.js";
+import { layoutMarkup } from "./markup.js";
+import type { MarkupStep } from "./markup.js";
 
 /**
  * Options for configuring the typewriter text effect.
  *
  * @interface TypewriterOptions
  * @property {number} [speed=50] - Characters per second. Higher values mean faster typing.
+ * @property {Object<string, number>} [punctuationPauses] - Extra milliseconds to wait after
+ *   each punctuation mark that ends a word, by mark. Replaces
+ *   {@link DEFAULT_PUNCTUATION_PAUSES}; pass `{}` to type at an even pace.
  * @property {Function} [onComplete] - Callback function invoked when the animation completes
  *   (either naturally or when cancelled).
  */
 export interface TypewriterOptions {
   /** Characters per second (default: 50) */
   speed?: number;
+  /** Extra milliseconds after punctuation that ends a word (default: DEFAULT_PUNCTUATION_PAUSES) */
+  punctuationPauses?: Record<string, number>;
   /** Callback when animation completes */
   onComplete?: () => void;
 }
 
+/**
+ * The typewriter's pauses after punctuation, in milliseconds: longer after the
+ * end of a sentence than within one.
+ *
+ * @type {Object<string, number>}
+ */
+export const DEFAULT_PUNCTUATION_PAUSES: Readonly<Record<string, number>> = {
+  ".": 250,
+  "!": 250,
+  "?": 250,
+  "…": 250,
+  ",": 100,
+  ";": 100,
+  ":": 100,
+};
+
 /**
  * Displays text character by character with a typewriter effect.
  *
  * The text is revealed one character at a time, creating a typing animation.
  * The returned promise can be cancelled to immediately show the full text.
  *
+ * Characters are grapheme clusters (see {@link splitGraphemes}), so emoji and
+ * accented letters appear whole. The full text is laid out up front, with the
+ * part not yet typed invisible, so words never jump to the next line as they
+ * are typed. Punctuation followed by a space pauses the typewriter for a
+ * moment, as set by `punctuationPauses`.
+ *
+ * A string is shown as plain text. Parsed markup (see {@link parseMarkup}) is
+ * laid out with its formatting up front, so tags are always balanced, and each
+ * character appears inside its formatting. `[speed]` tags change the speed of
+ * the text they wrap, and `[wait]` tags pause before the text after them.
+ *
  * @param {HTMLElement} element - The DOM element to display text in
- * @param {string} text - The text to display
+ * @param {string|MarkupNode[]} text - The text to display, or parsed markup
  * @param {TypewriterOptions} [options={}] - Typewriter options
  * @param {number} [options.speed=50] - Characters per second
+ * @param {Object<string, number>} [options.punctuationPauses] - Pauses after punctuation
  * @param {Function} [options.onComplete] - Callback when animation completes
  * @returns {CancellablePromise} A cancellable promise that resolves when animation completes.
- *   Call `.cancel()` to immediately show the full text.
+ *   Call `.cancel()` to immediately show the full text, with its formatting.
  *
  * @example
  * ```typescript
@@ -36,46 +73,87 @@ export interface TypewriterOptions {
  *
  * // Optionally cancel to show full text immediately
  * animation.cancel();
+ *
+ * // Formatted text, with a long pause after commas
+ * typewriter(element, parseMarkup("Well, [b]no[/b]."), { punctuationPauses: { ",": 600 } });
  * ```
  */
 export function typewriter(
   element: HTMLElement,
-  text: string,
+  text: string | MarkupNode[],
   options: TypewriterOptions = {},
 ): CancellablePromise {
   const speed = options.speed || 50; // default 50 chars per second
   const delay = 1000 / speed; // milliseconds per character
+  const pauses = options.punctuationPauses ?? DEFAULT_PUNCTUATION_PAUSES;
 
-  let interval: ReturnType<typeof setInterval> | null = null;
-  let index = 0;
+  const steps = layoutMarkup(element, typeof text === "string" ? [{ type: "text", text }] : text);
+  const runs: { node: Text; text: string; hidden: HTMLElement }[] = [];
+
+  // Each frame reveals one grapheme after its delay; the last one completes
+  const frames: { delay: number; reveal?: () => void }[] = [];
+  let pending = 0;
+  for (const step of steps) {
+    if (step.type === "wait") {
+      pending += step.duration;
+      continue;
+    }
+    const run = { node: step.node, text: step.text, hidden: hideText(step.node, step.text) };
+    runs.push(run);
+    splitGraphemes(step.text).forEach((grapheme, index, graphemes) => {
+      frames.push({
+        delay: pending + 1000 / (step.speed ?? speed),
+        reveal: () => {
+          run.node.data += grapheme;
+          run.hidden.textContent = graphemes.slice(index + 1).join("");
+          if (index === graphemes.length - 1) {
+            run.hidden.remove();
+          }
+        },
+      });
+      pending = 0;
+      const pause = pauses[grapheme];
+      if (pause && /^\s/.test(graphemes[index + 1] ?? nextText(steps, step))) {
+        pending = pause;
+      }
+    });
+  }
+  frames.push({ delay: pending + delay });
+
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let frameIndex = 0;
 
-  element.textContent = "";
   const promise = new CancellablePromise(
     (resolve) => {
-      interval = setInterval(() => {
-        // Check if cancelled before adding more characters
-        if (promise.cancelled) {
-          return;
-        }
-        if (index < text.length) {
-          element.textContent += text[index];
-          index++;
-        } else {
-          if (interval) {
-            clearInterval(interval);
-            interval = null;
+      const next = () => {
+        const frame = frames[frameIndex];
+        timeout = setTimeout(() => {
+          // Check if cancelled before adding more characters
+          if (promise.cancelled) {
+            return;
+          }
+          frameIndex++;
+          if (frame.reveal) {
+            frame.reveal();
+            next();
+          } else {
+            timeout = null;
+            options.onComplete?.();
+            resolve();
           }
-          options.onComplete?.();
-          resolve();
-        }
-      }, delay);
+        }, frame.delay);
+      };
+      next();
     },
     () => {
-      if (interval) {
-        clearInterval(interval);
-        interval = null;
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+      for (const run of runs) {
+        run.node.data = run.text;
+        run.hidden.remove();
       }
-      element.textContent = text;
       options.onComplete?.();
     },
   );
@@ -83,6 +161,32 @@ export function typewriter(
   return promise;
 }
 
+/**
+ * Empties a text node and puts its text in an invisible span after it, which
+ * holds the space of the text not yet typed.
+ * @internal
+ */
+function hideText(node: Text, text: string): HTMLElement {
+  const hidden = document.createElement("span");
+  hidden.className = "vn-typewriter-hidden";
+  hidden.setAttribute("aria-hidden", "true");
+  hidden.style.visibility = "hidden";
+  hidden.textContent = text;
+  node.data = "";
+  node.after(hidden);
+  return hidden;
+}
+
+/**
+ * Gets the text of the run after a step, to tell whether punctuation at the
+ * end of the step ends a word.
+ * @internal
+ */
+function nextText(steps: MarkupStep[], step: MarkupStep): string {
+  const after = steps.slice(steps.indexOf(step) + 1);
+  return after.find((next) => next.type === "text")?.text ?? "";
+}
+
 /**
  * Options for configuring fade effects.
  *
@@ -201,3 +305,58 @@ export function fadeOut(
   );
   return promise;
 }
+
+/**
+ * Returns true if the player has asked their system to reduce motion, through
+ * the `prefers-reduced-motion` media query.
+ *
+ * Returns false where media queries are not available, e.g. outside a browser.
+ *
+ * @returns {boolean} Whether reduced motion is requested
+ *
+ * @example
+ * ```typescript
+ * const animation = prefersReducedMotion() ? null : fadeIn(element);
+ * ```
+ */
+export function prefersReducedMotion(): boolean {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") {
+    return false;
+  }
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+/**
+ * Waits for a number of milliseconds.
+ *
+ * Used for `"wait"` actions and dialogue `autoAdvance`. The returned promise can
+ * be cancelled to stop waiting; it then resolves immediately.
+ *
+ * @param {number} duration - How long to wait, in milliseconds
+ * @returns {CancellablePromise} A cancellable promise that resolves once the time is up.
+ *   Call `.cancel()` to resolve it right away.
+ *
+ * @example
+ * ```typescript
+ * const pause = wait(2000);
+ * dialogueBox.addEventListener("click", () => pause.cancel());
+ * await pause;
+ * ```
+ */
+export function wait(duration: number): CancellablePromise {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  return new CancellablePromise(
+    (resolve) => {
+      timeout = setTimeout(() => {
+        timeout = null;
+        resolve();
+      }, duration);
+    },
+    () => {
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+    },
+  );
+}
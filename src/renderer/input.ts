@@ -0,0 +1,374 @@
+/**
+ * Something the player can do with a key, the mouse wheel or a gamepad button.
+ *
+ * - `"advance"` - Same as clicking the dialogue box: finish the line's effect, or
+ *   move on to the next line
+ * - `"skip"` - Skip mode, for as long as the input is held
+ * - `"autoPlay"` - Turn auto-play on or off
+ * - `"rollback"` - Rewind to the previous line
+ * - `"backlog"` - Open the backlog panel
+ * - `"menu"` - Close the backlog panel, or ask the host page to open its menu
+ * - `"hideTextBox"` - Hide the dialogue box to look at the scene, or show it again
+ *
+ * @typedef {("advance"|"skip"|"autoPlay"|"rollback"|"backlog"|"menu"|"hideTextBox")} InputAction
+ */
+export type InputAction =
+  | "advance"
+  | "skip"
+  | "autoPlay"
+  | "rollback"
+  | "backlog"
+  | "menu"
+  | "hideTextBox";
+
+/**
+ * Bindings from inputs to {@link InputAction}s.
+ *
+ * When given to the DOM renderer, each binding replaces the default binding of
+ * the same input, and the other defaults stay. Bind an input to `null` to unbind it.
+ *
+ * @interface InputMap
+ * @property {Object<string, InputAction|null>} [keys] - Actions by `KeyboardEvent.key`,
+ *   e.g. `" "` for Space or `"Enter"`. Single letters match either case.
+ * @property {InputAction|null} [wheelUp] - Action when the mouse wheel scrolls up
+ * @property {InputAction|null} [wheelDown] - Action when the mouse wheel scrolls down
+ * @property {Object<number, InputAction|null>} [gamepadButtons] - Actions by button
+ *   index in the standard gamepad mapping, e.g. 0 for the bottom face button
+ * @example
+ * ```typescript
+ * const input: InputMap = {
+ *   keys: { Tab: "skip", Control: null },  // skip with Tab instead of Ctrl
+ *   wheelUp: "backlog",                    // open the backlog instead of rolling back
+ * };
+ * ```
+ */
+export interface InputMap {
+  keys?: Record<string, InputAction | null>;
+  wheelUp?: InputAction | null;
+  wheelDown?: InputAction | null;
+  gamepadButtons?: Record<number, InputAction | null>;
+}
+
+/**
+ * The DOM renderer's input bindings, before any `input` option is applied.
+ *
+ * - Space, Enter, Right and Down arrows advance; Ctrl skips while held;
+ *   A toggles auto-play; Escape opens menus; H hides the text box
+ * - Scrolling up rolls back; scrolling down does nothing
+ * - Gamepad: A (0) advances, B (1) and Start (9) open menus, X (2) hides the text
+ *   box, Y (3) toggles auto-play, LB (4) rolls back, RB (5) skips while held,
+ *   Back (8) opens the backlog
+ *
+ * @type {InputMap}
+ */
+export const DEFAULT_INPUT_MAP: Readonly<Required<InputMap>> = {
+  keys: {
+    " ": "advance",
+    Enter: "advance",
+    ArrowRight: "advance",
+    ArrowDown: "advance",
+    Control: "skip",
+    a: "autoPlay",
+    Escape: "menu",
+    h: "hideTextBox",
+  },
+  wheelUp: "rollback",
+  wheelDown: null,
+  gamepadButtons: {
+    0: "advance",
+    1: "menu",
+    2: "hideTextBox",
+    3: "autoPlay",
+    4: "rollback",
+    5: "skip",
+    8: "backlog",
+    9: "menu",
+  },
+};
+
+/**
+ * Called when a bound input is pressed or released.
+ *
+ * Keys and gamepad buttons report a press and a release; the wheel only reports
+ * presses. Return true if the input was used, so that its default browser
+ * behavior (such as scrolling the page) is prevented.
+ *
+ * @callback InputHandler
+ * @param {InputAction} action - The action the input is bound to
+ * @param {boolean} pressed - True when pressed, false when released
+ * @returns {boolean} Whether the input was used
+ */
+export type InputHandler = (action: InputAction, pressed: boolean) => boolean;
+
+/**
+ * Turns keyboard, mouse wheel and gamepad input into {@link InputAction}s.
+ *
+ * Keys are read from the whole document, except while typing in a text field,
+ * while Ctrl, Alt or Meta is held with another key, and for Space or Enter on a
+ * focused button or link, which activate it instead. Keys pressed inside the
+ * target of another listening controller are left to that controller. Held keys that repeat are
+ * reported once. The wheel is read over the target element. Gamepads are polled
+ * from the first `"gamepadconnected"` event until none is connected.
+ *
+ * @class InputController
+ * @example
+ * ```typescript
+ * new InputController(container, { keys: { s: "skip" } }, (action, pressed) => {
+ *   console.log(action, pressed ? "pressed" : "released");
+ *   return true;
+ * });
+ * ```
+ */
+export class InputController {
+  private target: HTMLElement;
+  private map: Required<InputMap>;
+  private handler: InputHandler;
+  private pressedButtons: Map<string, number> = new Map();
+  private gamepadPoll: ReturnType<typeof setInterval> | null = null;
+  private static readonly GAMEPAD_POLL_INTERVAL = 16;
+  private static readonly MODIFIER_KEYS = ["Control", "Alt", "Meta", "Shift"];
+  /** The controllers listening, to leave each the keys pressed in its target */
+  private static readonly listening: Set<InputController> = new Set();
+
+  /**
+   * Creates a new InputController and starts listening.
+   * @param {HTMLElement} target - The element the wheel is read over
+   * @param {InputMap} map - The input bindings; see {@link InputController.resolve}
+   *   to apply them over the defaults
+   * @param {InputHandler} handler - Called for bound inputs
+   */
+  constructor(target: HTMLElement, map: InputMap, handler: InputHandler) {
+    this.target = target;
+    this.map = {
+      keys: InputController.normalizeKeys(map.keys ?? {}),
+      wheelUp: map.wheelUp ?? null,
+      wheelDown: map.wheelDown ?? null,
+      gamepadButtons: { ...map.gamepadButtons },
+    };
+    this.handler = handler;
+    this.listen();
+  }
+
+  /**
+   * Applies input bindings over {@link DEFAULT_INPUT_MAP}.
+   * @param {InputMap} [overrides={}] - The bindings to change
+   * @returns {InputMap} The complete bindings
+   */
+  static resolve(overrides: InputMap = {}): InputMap {
+    const resolved: InputMap = {
+      keys: {
+        ...InputController.normalizeKeys(DEFAULT_INPUT_MAP.keys),
+        ...InputController.normalizeKeys(overrides.keys ?? {}),
+      },
+      wheelUp: DEFAULT_INPUT_MAP.wheelUp,
+      wheelDown: DEFAULT_INPUT_MAP.wheelDown,
+      gamepadButtons: { ...DEFAULT_INPUT_MAP.gamepadButtons, ...overrides.gamepadButtons },
+    };
+    if (overrides.wheelUp !== undefined) {
+      resolved.wheelUp = overrides.wheelUp;
+    }
+    if (overrides.wheelDown !== undefined) {
+      resolved.wheelDown = overrides.wheelDown;
+    }
+    return resolved;
+  }
+
+  /**
+   * Adds the keyboard, wheel and gamepad listeners.
+   * @internal
+   */
+  private listen(): void {
+    const document = this.target.ownerDocument;
+    const window = document.defaultView;
+    InputController.listening.add(this);
+    document.addEventListener("keydown", this.onKeyDown);
+    document.addEventListener("keyup", this.onKeyUp);
+    this.target.addEventListener("wheel", this.onWheel);
+    window?.addEventListener("gamepadconnected", this.onGamepadConnected);
+    window?.addEventListener("gamepaddisconnected", this.onGamepadDisconnected);
+  }
+
+  /**
+   * Stops listening for input.
+   */
+  destroy(): void {
+    const document = this.target.ownerDocument;
+    const window = document.defaultView;
+    InputController.listening.delete(this);
+    document.removeEventListener("keydown", this.onKeyDown);
+    document.removeEventListener("keyup", this.onKeyUp);
+    this.target.removeEventListener("wheel", this.onWheel);
+    window?.removeEventListener("gamepadconnected", this.onGamepadConnected);
+    window?.removeEventListener("gamepaddisconnected", this.onGamepadDisconnected);
+    this.stopPolling();
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => this.onKey(event, true);
+
+  private onKeyUp = (event: KeyboardEvent): void => this.onKey(event, false);
+
+  private onWheel = (event: WheelEvent): void => {
+    const action =
+      event.deltaY < 0 ? this.map.wheelUp : event.deltaY > 0 ? this.map.wheelDown : null;
+    if (action && this.handler(action, true)) {
+      event.preventDefault();
+    }
+  };
+
+  private onGamepadConnected = (): void => {
+    if (this.gamepadPoll === null) {
+      this.gamepadPoll = setInterval(
+        () => this.pollGamepads(),
+        InputController.GAMEPAD_POLL_INTERVAL
+      );
+    }
+  };
+
+  private onGamepadDisconnected = (): void => this.pollGamepads();
+
+  /**
+   * Reports a bound key being pressed or released.
+   * @internal
+   */
+  private onKey(event: KeyboardEvent, pressed: boolean): void {
+    const key = InputController.normalizeKey(event.key);
+    const action = this.map.keys[key];
+    if (!action || (pressed && event.repeat)) {
+      return;
+    }
+    if (
+      pressed &&
+      !InputController.MODIFIER_KEYS.includes(key) &&
+      (event.ctrlKey || event.altKey || event.metaKey)
+    ) {
+      return;
+    }
+    if (InputController.isOwnInput(event.target, key) || this.belongsElsewhere(event.target)) {
+      return;
+    }
+    if (this.handler(action, pressed)) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Reports gamepad buttons pressed or released since the last poll, and stops
+   * polling once no gamepad is connected.
+   * @internal
+   */
+  private pollGamepads(): void {
+    const navigator = this.target.ownerDocument.defaultView?.navigator;
+    const gamepads = (navigator?.getGamepads?.() ?? []).filter(
+      (gamepad): gamepad is Gamepad => !!gamepad
+    );
+
+    const pressed = new Map<string, number>();
+    for (const gamepad of gamepads) {
+      gamepad.buttons.forEach((button, index) => {
+        if (button.pressed) {
+          pressed.set(`${gamepad.index}:${index}`, index);
+        }
+      });
+    }
+
+    for (const [id, index] of this.pressedButtons) {
+      if (!pressed.has(id)) {
+        this.pressButton(index, false);
+      }
+    }
+    for (const [id, index] of pressed) {
+      if (!this.pressedButtons.has(id)) {
+        this.pressButton(index, true);
+      }
+    }
+    this.pressedButtons = pressed;
+
+    if (gamepads.length === 0) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Stops polling gamepads.
+   * @internal
+   */
+  private stopPolling(): void {
+    if (this.gamepadPoll !== null) {
+      clearInterval(this.gamepadPoll);
+      this.gamepadPoll = null;
+    }
+  }
+
+  /**
+   * Reports a bound gamepad button being pressed or released.
+   * @internal
+   */
+  private pressButton(index: number, pressed: boolean): void {
+    const action = this.map.gamepadButtons[index];
+    if (action) {
+      this.handler(action, pressed);
+    }
+  }
+
+  /**
+   * Returns true if a key event was pressed inside another controller's target,
+   * and not inside this one's.
+   * @internal
+   */
+  private belongsElsewhere(target: EventTarget | null): boolean {
+    if (!(target instanceof Node) || this.target.contains(target)) {
+      return false;
+    }
+    for (const other of InputController.listening) {
+      if (other.target.contains(target)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns true if a key event belongs to the element it was typed into: any key
+   * in a text field, or Space and Enter on a button or link.
+   * @internal
+   */
+  private static isOwnInput(target: EventTarget | null, key: string): boolean {
+    if (!(target instanceof HTMLElement)) {
+      return false;
+    }
+    if (
+      target.isContentEditable ||
+      target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA" ||
+      target.tagName === "SELECT"
+    ) {
+      return true;
+    }
+    return (
+      (key === " " || key === "Enter") &&
+      (target.tagName === "BUTTON" || target.tagName === "A")
+    );
+  }
+
+  /**
+   * Lowercases single letters, so that bindings match with or without Shift.
+   * @internal
+   */
+  private static normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+  }
+
+  /**
+   * Normalizes the keys of key bindings.
+   * @internal
+   */
+  private static normalizeKeys(
+    keys: Record<string, InputAction | null>
+  ): Record<string, InputAction | null> {
+    const normalized: Record<string, InputAction | null> = {};
+    for (const [key, action] of Object.entries(keys)) {
+      normalized[InputController.normalizeKey(key)] = action;
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,114 @@
+import type { MarkupNode } from "../core/markup.js";
+import { splitGraphemes } from "../util/graphemes.js";
+
+/**
+ * A run of text for the typewriter to reveal, or a pause between runs.
+ *
+ * `node` is the DOM text node that shows `text`, and `speed` the
+ * characters per second set by the innermost `[speed]` tag around it.
+ *
+ * @internal
+ */
+export type MarkupStep =
+  | { type: "text"; node: Text; text: string; speed?: number }
+  | { type: "wait"; duration: number };
+
+/**
+ * Replaces an element's content with formatted dialogue markup.
+ *
+ * The markup is built from DOM nodes, never from HTML, so text that looks like
+ * HTML is shown as written:
+ * - `[b]` and `[i]` become `<b>` and `<i>`
+ * - `[color]` and `[size]` become `<span>`s with an inline `color` or `font-size`
+ *   (in `em`)
+ * - `[shake]` becomes a `<span class="vn-shake">` holding a
+ *   `<span class="vn-shake-char">` per grapheme cluster, for a stylesheet to animate
+ * - `[speed]` and `[wait]` only affect the typewriter
+ *
+ * @param {HTMLElement} element - The element to fill
+ * @param {MarkupNode[]} nodes - Parsed markup, see {@link parseMarkup}
+ *
+ * @example
+ * ```typescript
+ * renderMarkup(element, parseMarkup("[color=#f00]Stop[/color] <right there>!"));
+ * element.innerHTML; // '<span style="color: rgb(255, 0, 0);">Stop</span> &lt;right there&gt;!'
+ * ```
+ */
+export function renderMarkup(element: HTMLElement, nodes: MarkupNode[]): void {
+  layoutMarkup(element, nodes);
+}
+
+/**
+ * Fills an element with formatted markup, and lists the text it shows in
+ * reading order, for the typewriter to reveal.
+ *
+ * @param {HTMLElement} element - The element to fill
+ * @param {MarkupNode[]} nodes - Parsed markup
+ * @returns {MarkupStep[]} The runs of text and the pauses between them
+ * @internal
+ */
+export function layoutMarkup(element: HTMLElement, nodes: MarkupNode[]): MarkupStep[] {
+  const steps: MarkupStep[] = [];
+  element.textContent = "";
+  appendMarkup(element, nodes, steps, { speed: undefined, shake: false });
+  return steps;
+}
+
+/**
+ * Appends the DOM nodes for markup to a parent.
+ * @internal
+ */
+function appendMarkup(
+  parent: Node,
+  nodes: MarkupNode[],
+  steps: MarkupStep[],
+  context: { speed?: number; shake: boolean }
+): void {
+  for (const node of nodes) {
+    if (node.type === "wait") {
+      steps.push({ type: "wait", duration: node.duration });
+    } else if (node.type === "text") {
+      if (!context.shake) {
+        appendText(parent, node.text, steps, context.speed);
+        continue;
+      }
+      for (const character of splitGraphemes(node.text)) {
+        const span = document.createElement("span");
+        span.className = "vn-shake-char";
+        appendText(span, character, steps, context.speed);
+        parent.appendChild(span);
+      }
+    } else if (node.tag === "speed") {
+      appendMarkup(parent, node.children, steps, { ...context, speed: Number(node.value) });
+    } else {
+      let element: HTMLElement;
+      if (node.tag === "b" || node.tag === "i") {
+        element = document.createElement(node.tag);
+      } else {
+        element = document.createElement("span");
+        if (node.tag === "color") {
+          element.style.color = node.value!;
+        } else if (node.tag === "size") {
+          element.style.fontSize = `${Number(node.value)}em`;
+        } else {
+          element.className = "vn-shake";
+        }
+      }
+      appendMarkup(element, node.children, steps, {
+        ...context,
+        shake: context.shake || node.tag === "shake",
+      });
+      parent.appendChild(element);
+    }
+  }
+}
+
+/**
+ * Appends a text node and records it as a step.
+ * @internal
+ */
+function appendText(parent: Node, text: string, steps: MarkupStep[], speed?: number): void {
+  const node = document.createTextNode(text);
+  parent.appendChild(node);
+  steps.push({ type: "text", node, text, speed });
+}
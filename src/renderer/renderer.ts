@@ -1,6 +1,63 @@
 import type { VNEngine } from "../core/engine.js";
-import type { SceneAction, Character, Position, Size } from "../core/types.js";
-import { typewriter, fadeIn } from "./effects.js";
+import type {
+  Character,
+  ChoiceOption,
+  DialogueOptions,
+  NamedPosition,
+  Position,
+  Size,
+  CharacterState,
+} from "../core/types.js";
+import { parseMarkup, markupText } from "../core/markup.js";
+import type { MarkupNode } from "../core/markup.js";
+import { CancellablePromise } from "../util/promise.js";
+import { typewriter, fadeIn, prefersReducedMotion } from "./effects.js";
+import { renderMarkup } from "./markup.js";
+import { InputController } from "./input.js";
+import type { InputAction, InputMap } from "./input.js";
+import type { Renderer } from "./types.js";
+
+/**
+ * A change to a character's sprite, as narrated to screen readers.
+ *
+ * @interface SpriteChange
+ * @property {("show"|"hide"|"image")} type - Whether the character appeared, left,
+ *   or changed image
+ * @property {Character} character - The character
+ * @property {string} [image] - The new image, for `"image"` changes
+ */
+export interface SpriteChange {
+  type: "show" | "hide" | "image";
+  character: Character;
+  image?: string;
+}
+
+/**
+ * Accessibility options for the DOM renderer.
+ *
+ * @interface AccessibilityOptions
+ * @property {boolean} [announceDialogue=true] - Announce each line with its speaker
+ *   through an ARIA live region once its text is fully displayed, rather than
+ *   letter by letter
+ * @property {boolean|Function} [narrateSprites=false] - Announce characters appearing,
+ *   leaving and changing images. Pass a function that takes a {@link SpriteChange}
+ *   to word the announcements yourself; it may return null to stay silent.
+ * @property {boolean|"auto"} [reducedMotion="auto"] - Show text and sprites at once,
+ *   without typewriter or fade effects. `"auto"` follows the player's
+ *   `prefers-reduced-motion` setting.
+ * @example
+ * ```typescript
+ * const accessibility: AccessibilityOptions = {
+ *   narrateSprites: (change) =>
+ *     change.type === "image" ? null : `${change.character.name} ${change.type === "show" ? "enters" : "exits"}.`,
+ * };
+ * ```
+ */
+export interface AccessibilityOptions {
+  announceDialogue?: boolean;
+  narrateSprites?: boolean | ((change: SpriteChange) => string | null);
+  reducedMotion?: boolean | "auto";
+}
 
 /**
  * Options for configuring the DOM renderer.
@@ -8,9 +65,19 @@ import { typewriter, fadeIn } from "./effects.js";
  * @interface RendererOptions
  * @property {number} [typewriterSpeed=50] - Characters per second for typewriter effect.
  *   Higher values mean faster typing. Default is 50 characters per second.
+ * @property {Object<string, number>} [punctuationPauses] - Extra milliseconds the
+ *   typewriter waits after punctuation that ends a word, by mark
+ *   (default: {@link DEFAULT_PUNCTUATION_PAUSES})
  * @property {string} [assetsDirectory] - Base directory for asset paths.
  *   When set, relative paths like "character.png" become "assets/character.png".
  *   Absolute paths (starting with "/", "http://", or "https://") are not modified.
+ * @property {string|null} [autoPlayKey="a"] - Key that turns auto-play on and off,
+ *   compared with `KeyboardEvent.key` ignoring case. Set to `null` for no shortcut.
+ *   Bindings for `"autoPlay"` in `input.keys` replace it.
+ * @property {InputMap} [input] - Key, wheel and gamepad bindings to use instead of
+ *   the defaults (see {@link DEFAULT_INPUT_MAP})
+ * @property {AccessibilityOptions} [accessibility] - Screen reader announcements and
+ *   reduced motion
  *
  * @example
  * ```typescript
@@ -23,23 +90,38 @@ import { typewriter, fadeIn } from "./effects.js";
 export interface RendererOptions {
   /** Characters per second for typewriter effect (default: 50) */
   typewriterSpeed?: number;
+  /** Typewriter pauses after punctuation, in milliseconds by mark */
+  punctuationPauses?: Record<string, number>;
   /** Base directory for asset paths (e.g., "assets", "/assets", "./assets") */
   assetsDirectory?: string;
+  /** Key that toggles auto-play, or null for none (default: "a") */
+  autoPlayKey?: string | null;
+  /** Input bindings that replace the defaults */
+  input?: InputMap;
+  /** Screen reader announcements and reduced motion */
+  accessibility?: AccessibilityOptions;
 }
 
 /**
  * Renders the visual novel to the DOM.
  *
- * The DOMRenderer handles all visual presentation of the visual novel, including:
+ * The DOMRenderer is the built-in {@link Renderer}: it draws the actions the engine
+ * steps through and holds no story state of its own. It handles all visual
+ * presentation of the visual novel, including:
  * - Background images for scenes
  * - Character sprites with positioning and sizing
  * - Dialogue display with text effects (typewriter, fade)
- * - User interaction (clicking to advance dialogue)
+ * - Choice menus that pause the story until the player picks an option
+ * - A backlog panel listing previously displayed dialogue
+ * - User interaction: clicks, keys, the mouse wheel and gamepads (see {@link InputMap})
  *
  * The renderer creates a layered DOM structure within the provided container:
  * - Background layer (`.vn-background-layer`)
  * - Character layer (`.vn-character-layer`)
  * - Dialogue box (`.vn-dialogue-box`) containing speaker name and text
+ * - Choice menu (`.vn-choice-menu`) containing one `.vn-choice` button per option
+ * - Backlog panel (`.vn-backlog`) containing one `.vn-backlog-entry` per displayed line
+ * - Visually hidden live region (`.vn-announcer`) that announces lines to screen readers
  *
  * @class DOMRenderer
  * @example
@@ -51,7 +133,7 @@ export interface RendererOptions {
  * });
  * ```
  */
-export class DOMRenderer {
+export class DOMRenderer implements Renderer {
   private container: HTMLElement;
   private engine: VNEngine;
   private options: RendererOptions;
@@ -60,10 +142,16 @@ export class DOMRenderer {
   private dialogueBox!: HTMLElement;
   private speakerName!: HTMLElement;
   private dialogueText!: HTMLElement;
-  private currentActionIndex: number = 0;
+  private choiceMenu!: HTMLElement;
+  private backlogPanel!: HTMLElement;
+  private backlogEntries!: HTMLElement;
+  private announcer!: HTMLElement;
+  private input!: InputController;
+  private pendingNarration: Map<Character, SpriteChange> = new Map();
+  private narrationQueued: boolean = false;
+  private lineCount: number = 0;
   private isProcessing: boolean = false;
   private characterElements: Map<Character, HTMLElement> = new Map();
-  private currentAnimation: { cancel: () => void } | null = null;
 
   /**
    * Creates a new DOMRenderer instance.
@@ -100,10 +188,13 @@ export class DOMRenderer {
   /**
    * Creates and appends the DOM structure for the visual novel.
    *
-   * Creates three main layers:
+   * Creates the main layers:
    * - Background layer for scene backgrounds
    * - Character layer for character sprites
    * - Dialogue box with speaker name and dialogue text
+   * - Choice menu, hidden until a choice action is reached
+   * - Backlog panel, hidden until `openBacklog()` is called
+   * - Live region for screen reader announcements
    *
    * @internal
    */
@@ -117,6 +208,9 @@ export class DOMRenderer {
 
     this.dialogueBox = document.createElement("div");
     this.dialogueBox.className = "vn-dialogue-box";
+    this.dialogueBox.setAttribute("role", "group");
+    this.dialogueBox.setAttribute("aria-label", "Dialogue");
+    this.dialogueBox.tabIndex = 0;
 
     this.speakerName = document.createElement("div");
     this.speakerName.className = "vn-speaker-name";
@@ -124,182 +218,263 @@ export class DOMRenderer {
     this.dialogueText = document.createElement("div");
     this.dialogueText.className = "vn-dialogue-text";
 
+    this.choiceMenu = document.createElement("div");
+    this.choiceMenu.className = "vn-choice-menu";
+    this.choiceMenu.setAttribute("role", "group");
+    this.choiceMenu.setAttribute("aria-label", "Choices");
+    this.choiceMenu.style.display = "none";
+
+    this.backlogPanel = document.createElement("div");
+    this.backlogPanel.className = "vn-backlog";
+    this.backlogPanel.setAttribute("role", "dialog");
+    this.backlogPanel.setAttribute("aria-label", "Backlog");
+    this.backlogPanel.style.display = "none";
+
+    this.backlogEntries = document.createElement("div");
+    this.backlogEntries.className = "vn-backlog-entries";
+    this.backlogEntries.setAttribute("role", "log");
+
+    // Screen readers read lines from here, so that typing effects are not
+    // announced letter by letter
+    this.announcer = document.createElement("div");
+    this.announcer.className = "vn-announcer";
+    this.announcer.setAttribute("aria-live", "polite");
+    Object.assign(this.announcer.style, {
+      position: "absolute",
+      width: "1px",
+      height: "1px",
+      overflow: "hidden",
+      clipPath: "inset(50%)",
+      whiteSpace: "nowrap",
+    });
+
+    const backlogClose = document.createElement("button");
+    backlogClose.type = "button";
+    backlogClose.className = "vn-backlog-close";
+    backlogClose.textContent = "Close";
+    backlogClose.addEventListener("click", () => this.closeBacklog());
+
+    this.backlogPanel.appendChild(this.backlogEntries);
+    this.backlogPanel.appendChild(backlogClose);
+
     this.dialogueBox.appendChild(this.speakerName);
     this.dialogueBox.appendChild(this.dialogueText);
 
     this.container.appendChild(this.backgroundLayer);
     this.container.appendChild(this.characterLayer);
     this.container.appendChild(this.dialogueBox);
+    this.container.appendChild(this.choiceMenu);
+    this.container.appendChild(this.backlogPanel);
+    this.container.appendChild(this.announcer);
   }
 
   /**
-   * Sets up event listeners for engine events and user interaction.
+   * Sets up event listeners for user interaction.
    *
-   * - Listens for scene changes to re-render when the scene changes
-   * - Handles click events on the dialogue box to advance dialogue or cancel animations
+   * - Handles click events on the dialogue box to advance dialogue or finish animations
+   * - Shows the dialogue box again on a click while it is hidden
+   * - Turns keys, the mouse wheel and gamepad buttons into actions through the
+   *   `input` option's bindings
    *
    * @internal
    */
   private setupEventListeners(): void {
-    // Listen for scene changes
-    this.engine.on("sceneChange", async () => {
-      await this.renderCurrentScene();
-    });
-
-    // Click to advance dialogue
-    this.dialogueBox.addEventListener("click", async () => {
-      // If an animation is running, cancel it and show full text immediately
-      // User must click again to advance to next dialogue
-      if (this.currentAnimation) {
-        this.currentAnimation.cancel();
-        this.currentAnimation = null;
-        this.isProcessing = false;
-        // Don't advance - just cancel the animation and show full text
-        return;
-      }
-
-      // Otherwise, advance normally if not processing
-      if (!this.isProcessing) {
-        await this.nextAction();
+    // Click to advance dialogue. If the line is still animating, the engine
+    // shows the full text instead and the user must click again to advance.
+    this.dialogueBox.addEventListener("click", () => this.advance());
+
+    // While the dialogue box is hidden, any click brings it back
+    this.container.addEventListener("click", () => {
+      if (this.isTextBoxHidden) {
+        this.showTextBox();
       }
     });
+
+    this.input = new InputController(this.container, this.resolveInput(), (action, pressed) =>
+      this.handleInput(action, pressed)
+    );
   }
 
   /**
-   * Renders the current scene, updating background and starting action processing.
-   *
-   * This method:
-   * 1. Resets the action index to the beginning
-   * 2. Updates the background image if specified
-   * 3. Clears all character elements from the previous scene
-   * 4. Begins processing actions from the start
-   *
-   * @returns {Promise<void>} Resolves when initial rendering is complete
+   * Gets the input bindings: the defaults with the `input` option applied, and
+   * the `autoPlayKey` option unless `input` binds auto-play itself.
    * @internal
    */
-  private async renderCurrentScene(): Promise<void> {
-    const scene = this.engine.currentScene;
-    if (!scene) {
-      return;
+  private resolveInput(): InputMap {
+    const input = InputController.resolve(this.options.input);
+    const { autoPlayKey } = this.options;
+    const overrides = Object.values(this.options.input?.keys ?? {});
+    if (autoPlayKey === undefined || overrides.includes("autoPlay")) {
+      return input;
     }
 
-    // Reset action index
-    this.currentActionIndex = 0;
+    const keys = input.keys!;
+    for (const [key, action] of Object.entries(keys)) {
+      if (action === "autoPlay") {
+        delete keys[key];
+      }
+    }
+    if (autoPlayKey !== null) {
+      keys[autoPlayKey.toLowerCase()] = "autoPlay";
+    }
+    return input;
+  }
 
-    // Update background
-    const options = scene.options;
-    if (options.background) {
-      const backgroundUrl = this.resolveAssetPath(options.background);
-      this.backgroundLayer.style.backgroundImage = `url(${backgroundUrl})`;
-      this.backgroundLayer.style.backgroundSize = "cover";
-      this.backgroundLayer.style.backgroundPosition = "center";
+  /**
+   * Advances the story as a click on the dialogue box does.
+   * @returns {boolean} True unless the input was ignored
+   * @internal
+   */
+  private advance(): boolean {
+    // The story is paused while the backlog is open
+    if (this.isBacklogOpen) {
+      return false;
     }
 
-    // Clear character layer
-    this.characterLayer.innerHTML = "";
-    this.characterElements.clear();
+    // A hidden dialogue box is shown again before the story moves on
+    if (this.isTextBoxHidden) {
+      this.showTextBox();
+      return true;
+    }
 
-    // Process first action
-    await this.processActions();
+    // Clicks are ignored while waiting on a choice
+    if (this.isProcessing) {
+      return false;
+    }
+    this.engine.advance();
+    return true;
   }
 
   /**
-   * Processes the next action in the current scene's action queue.
-   *
-   * This method handles the action processing loop, checking if there are
-   * more actions to process and delegating to the appropriate handler.
-   *
-   * @returns {Promise<void>} Resolves when the current action is processed
+   * Carries out an input action.
+   * @param {InputAction} action - The action bound to the input
+   * @param {boolean} pressed - True when pressed, false when released
+   * @returns {boolean} Whether the input was used
    * @internal
    */
-  private async processActions(): Promise<void> {
-    const scene = this.engine.currentScene;
-    if (!scene) {
-      return;
+  private handleInput(action: InputAction, pressed: boolean): boolean {
+    if (!pressed) {
+      // Only skipping lasts while an input is held
+      if (action === "skip") {
+        this.engine.setSkipping(false);
+        return true;
+      }
+      return false;
     }
 
-    const actions = scene.actions;
-    if (this.currentActionIndex >= actions.length) {
-      // All actions processed, wait for next scene
-      return;
-    }
+    switch (action) {
+      case "advance":
+        return this.advance();
 
-    this.isProcessing = true;
-    const action = actions[this.currentActionIndex];
-    await this.processAction(action);
+      case "skip":
+        this.engine.setSkipping(true);
+        return true;
 
-    this.isProcessing = false;
+      case "autoPlay":
+        this.engine.toggleAutoPlay();
+        return true;
+
+      case "rollback":
+        // The wheel scrolls the backlog panel while it is open
+        return !this.isBacklogOpen && this.engine.back();
+
+      case "backlog":
+        if (this.isBacklogOpen) {
+          return false;
+        }
+        this.openBacklog();
+        return true;
+
+      case "menu":
+        if (this.isBacklogOpen) {
+          this.closeBacklog();
+        } else {
+          this.container.dispatchEvent(new CustomEvent("vn-menu", { bubbles: true }));
+        }
+        return true;
+
+      case "hideTextBox":
+        if (this.isTextBoxHidden) {
+          this.showTextBox();
+        } else {
+          this.hideTextBox();
+        }
+        return true;
+    }
   }
 
   /**
-   * Processes a single scene action based on its type.
+   * Stops the renderer from reacting to keys, the mouse wheel and gamepads.
    *
-   * Delegates to the appropriate handler method:
-   * - `"show"` -> `showCharacter()`
-   * - `"hide"` -> `hideCharacter()`
-   * - `"setImage"` -> `setCharacterImage()`
-   * - `"dialogue"` -> `displayDialogue()`
+   * Input is read from the whole document, so call this before removing a
+   * renderer's container or replacing the renderer, or the old engine keeps
+   * responding to the player. The renderer's elements stay in the container.
    *
-   * Non-blocking actions (show, hide, setImage) automatically advance to the next action.
-   * Dialogue actions wait for user interaction before advancing.
-   *
-   * @param {SceneAction} action - The action to process
-   * @returns {Promise<void>} Resolves when the action is complete
-   * @internal
+   * @example
+   * ```typescript
+   * (engine.renderer as DOMRenderer).destroy();
+   * container.remove();
+   * ```
    */
-  private async processAction(action: SceneAction): Promise<void> {
-    switch (action.type) {
-      case "show":
-        if (action.character) {
-          this.showCharacter(action.character, action.position, action.size);
-          return this.nextAction();
-        }
-        break;
+  destroy(): void {
+    this.input.destroy();
+  }
 
-      case "hide":
-        if (action.character) {
-          this.hideCharacter(action.character);
-          return this.nextAction();
-        }
-        break;
+  /**
+   * Removes all characters, the dialogue and any open choice menu.
+   */
+  clear(): void {
+    this.characterLayer.innerHTML = "";
+    this.characterElements.clear();
+    this.pendingNarration.clear();
+    this.hideChoices();
+    this.clearDialogue();
+  }
 
-      case "setImage":
-        if (action.character && action.image) {
-          this.setCharacterImage(action.character, action.image);
-          return this.nextAction();
-        }
-        break;
-
-      case "dialogue":
-        if (action.character && action.text) {
-          return this.displayDialogue(
-            action.character,
-            action.text,
-            action.options
-          );
-        }
-        break;
+  /**
+   * Removes the speaker name and dialogue text.
+   */
+  clearDialogue(): void {
+    this.lineCount++;
+    this.dialogueText.textContent = "";
+    this.speakerName.textContent = "";
+  }
+
+  /**
+   * Sets the background image, or clears it when no path is given.
+   * @param {string} [path] - The background image path
+   * @returns {CancellablePromise} Resolves immediately
+   */
+  setBackground(path?: string): CancellablePromise {
+    if (!path) {
+      this.backgroundLayer.style.backgroundImage = "";
+      return DOMRenderer.done();
     }
+
+    const backgroundUrl = this.resolveAssetPath(path);
+    this.backgroundLayer.style.backgroundImage = `url(${backgroundUrl})`;
+    this.backgroundLayer.style.backgroundSize = "cover";
+    this.backgroundLayer.style.backgroundPosition = "center";
+    return DOMRenderer.done();
   }
 
   /**
-   * Shows a character on screen with optional position and size.
+   * Shows a character on screen at the position and size in its stage state.
    *
    * If the character doesn't have a DOM element yet, one is created.
-   * The character is then positioned and sized according to the parameters,
-   * and faded in with an animation.
+   * The character is then positioned and sized according to its state,
+   * and faded in with an animation, unless reduced motion is on.
    *
    * @param {Character} character - The character to show
-   * @param {Position} [position] - Optional position (named or coordinate)
-   * @param {Size} [size] - Optional size (normalized, pixel, or percentage)
-   * @internal
+   * @param {CharacterState} state - The character's state on the engine's stage
+   * @returns {CancellablePromise} Resolves when the fade-in completes
    */
-  private showCharacter(
-    character: Character,
-    position?: Position,
-    size?: Size
-  ): void {
+  showCharacter(character: Character, state: CharacterState): CancellablePromise {
+    const { position, size } = state;
     let element = this.characterElements.get(character);
+    if (!element || element.style.display === "none") {
+      this.narrate({ type: "show", character });
+    }
     if (!element) {
       element = document.createElement("div");
       element.className = "vn-character";
@@ -308,7 +483,7 @@ export class DOMRenderer {
       element.style.position = "absolute";
 
       // Add character image if available
-      const imageUrl = character.image;
+      const imageUrl = state.image;
       if (imageUrl) {
         const img = document.createElement("img");
         img.src = this.resolveAssetPath(imageUrl);
@@ -349,20 +524,29 @@ export class DOMRenderer {
     }
 
     element.style.display = "block";
-    fadeIn(element);
+    if (this.reduceMotion) {
+      element.style.transition = "none";
+      element.style.opacity = "1";
+      return DOMRenderer.done();
+    }
+    return fadeIn(element);
   }
 
   /**
    * Hides a character from the screen by setting display to none.
    *
    * @param {Character} character - The character to hide
-   * @internal
+   * @returns {CancellablePromise} Resolves immediately
    */
-  private hideCharacter(character: Character): void {
+  hideCharacter(character: Character): CancellablePromise {
     const element = this.characterElements.get(character);
     if (element) {
+      if (element.style.display !== "none") {
+        this.narrate({ type: "hide", character });
+      }
       element.style.display = "none";
     }
+    return DOMRenderer.done();
   }
 
   /**
@@ -371,18 +555,16 @@ export class DOMRenderer {
    * If the character's DOM element already has an image, the src is updated.
    * If no image element exists, one is created and appended.
    *
-   * Note: The character's internal image property is already updated by the
-   * setter that queued this action; this method only updates the DOM.
-   *
    * @param {Character} character - The character whose image to update
    * @param {string} image - The new image URL
-   * @internal
+   * @returns {CancellablePromise} Resolves immediately
    */
-  private setCharacterImage(character: Character, image: string): void {
-    // Note: character.image is already updated by the setter that queued this action
-    // We only need to update the DOM element here
+  setCharacterImage(character: Character, image: string): CancellablePromise {
     const element = this.characterElements.get(character);
     if (element) {
+      if (element.style.display !== "none") {
+        this.narrate({ type: "image", character, image });
+      }
       const img = element.querySelector("img");
       if (img) {
         // Update existing image element
@@ -398,90 +580,308 @@ export class DOMRenderer {
         element.appendChild(newImg);
       }
     }
+    return DOMRenderer.done();
   }
 
   /**
    * Displays dialogue text with an optional text effect.
    *
+   * The engine has already resolved placeholders such as `{playerName}`, so
+   * effects always work on the final text.
+   *
    * Sets the speaker name and displays the dialogue text with the specified effect:
    * - `"typewriter"` - Types text character by character
    * - `"fade"` - Fades the text in from transparent
    * - No effect - Displays text immediately
    *
-   * During animation, the animation can be cancelled by clicking, which
-   * immediately shows the full text.
+   * Markup such as `[b]` or `[color=#f00]` in the text is shown as formatting
+   * (see {@link parseMarkup}); it is never read as HTML.
+   *
+   * Cancelling the returned promise (the engine does so when the player clicks
+   * during the animation) immediately shows the full text. With reduced motion
+   * on, the text is always shown at once. Once the text is fully displayed, the
+   * line is announced to screen readers.
    *
    * @param {Character} character - The character speaking
    * @param {string} text - The dialogue text to display
-   * @param {Object} [options] - Display options
+   * @param {DialogueOptions} [options] - Display options
    * @param {("fade"|"typewriter")} [options.effect] - Text effect to apply
-   * @returns {Promise<void>} Resolves when the text is fully displayed
-   * @internal
+   * @returns {CancellablePromise} Resolves when the text is fully displayed
    */
-  private async displayDialogue(
+  showDialogue(
     character: Character,
     text: string,
-    options?: { effect?: "fade" | "typewriter" }
-  ): Promise<void> {
+    options?: DialogueOptions
+  ): CancellablePromise {
     this.speakerName.textContent = character.name;
 
-    const effect = options?.effect;
+    const line = ++this.lineCount;
+    const markup = parseMarkup(text);
+    const presentation = this.presentDialogueText(markup, options);
+    presentation.then(() => {
+      // Lines replaced before they were fully displayed are not announced
+      if (line === this.lineCount && this.options.accessibility?.announceDialogue !== false) {
+        this.announce(`${character.name}: ${markupText(markup)}`);
+      }
+    });
+    return presentation;
+  }
+
+  /**
+   * Displays dialogue text with its effect.
+   * @internal
+   */
+  private presentDialogueText(
+    markup: MarkupNode[],
+    options?: DialogueOptions
+  ): CancellablePromise {
+    const effect = this.reduceMotion ? undefined : options?.effect;
 
     if (effect === "typewriter") {
-      this.dialogueText.textContent = "";
       const speed = this.options.typewriterSpeed || 50;
-      this.currentAnimation = typewriter(this.dialogueText, text, { speed });
-      await this.currentAnimation;
-      this.currentAnimation = null;
+      return typewriter(this.dialogueText, markup, {
+        speed,
+        punctuationPauses: this.options.punctuationPauses,
+      });
     } else if (effect === "fade") {
       // Set text first, ensure it's invisible, then fade it in smoothly
-      this.dialogueText.textContent = text;
+      renderMarkup(this.dialogueText, markup);
       this.dialogueText.style.opacity = "0";
       this.dialogueText.style.transition = "none";
       // Force reflow to ensure opacity is applied before transition
       void this.dialogueText.offsetHeight;
       // Now apply the fade transition
-      this.currentAnimation = fadeIn(this.dialogueText);
-      await this.currentAnimation;
-      this.currentAnimation = null;
+      return fadeIn(this.dialogueText);
     } else {
       // No effect, display immediately
-      this.dialogueText.textContent = text;
+      renderMarkup(this.dialogueText, markup);
       this.dialogueText.style.opacity = "1";
+      return DOMRenderer.done();
     }
   }
 
   /**
-   * Advances to the next action in the scene or moves to the next scene.
+   * Gets whether the backlog panel is open.
+   * @type {boolean}
+   */
+  get isBacklogOpen(): boolean {
+    return this.backlogPanel.style.display !== "none";
+  }
+
+  /**
+   * Opens the backlog panel, listing every line in the engine's backlog.
    *
-   * If there are more actions in the current scene, processes the next one.
-   * If all actions are complete, attempts to move to the next scene.
-   * If there are no more scenes, clears the dialogue display.
+   * The panel is scrolled to the most recent line. The story does not advance
+   * while the panel is open.
+   */
+  openBacklog(): void {
+    this.backlogEntries.innerHTML = "";
+    for (const entry of this.engine.backlog.entries) {
+      const item = document.createElement("div");
+      item.className = "vn-backlog-entry";
+
+      const speaker = document.createElement("div");
+      speaker.className = "vn-backlog-speaker";
+      speaker.textContent = entry.speaker;
+
+      const text = document.createElement("div");
+      text.className = "vn-backlog-text";
+      renderMarkup(text, parseMarkup(entry.text));
+
+      item.appendChild(speaker);
+      item.appendChild(text);
+      this.backlogEntries.appendChild(item);
+    }
+
+    this.backlogPanel.style.display = "flex";
+    this.backlogEntries.scrollTop = this.backlogEntries.scrollHeight;
+  }
+
+  /**
+   * Closes the backlog panel.
+   */
+  closeBacklog(): void {
+    this.backlogPanel.style.display = "none";
+  }
+
+  /**
+   * Hides the dialogue box, so the player can look at the scene behind it.
    *
-   * @returns {Promise<void>} Resolves when the next action is processed
+   * The story does not advance while the box is hidden: the next click or
+   * `"advance"` input shows it again.
+   */
+  hideTextBox(): void {
+    this.dialogueBox.style.display = "none";
+  }
+
+  /**
+   * Shows the dialogue box again after `hideTextBox()`.
+   */
+  showTextBox(): void {
+    this.dialogueBox.style.display = "";
+  }
+
+  /**
+   * Returns true if the dialogue box is hidden.
+   * @type {boolean}
+   */
+  get isTextBoxHidden(): boolean {
+    return this.dialogueBox.style.display === "none";
+  }
+
+  /**
+   * Returns true if text and sprites should appear without effects, following the
+   * `reducedMotion` accessibility option.
    * @internal
    */
-  private async nextAction(): Promise<void> {
-    const scene = this.engine.currentScene;
-    if (!scene) {
+  private get reduceMotion(): boolean {
+    const reducedMotion = this.options.accessibility?.reducedMotion ?? "auto";
+    return reducedMotion === "auto" ? prefersReducedMotion() : reducedMotion;
+  }
+
+  /**
+   * Announces a message to screen readers through the live region.
+   *
+   * The game's own lines are announced automatically; use this for anything
+   * else the player should hear, such as "Game saved".
+   *
+   * @param {string} message - The message to announce
+   */
+  announce(message: string): void {
+    const item = document.createElement("p");
+    item.textContent = message;
+    this.announcer.appendChild(item);
+
+    // Only recent announcements are kept
+    while (this.announcer.childElementCount > DOMRenderer.MAX_ANNOUNCEMENTS) {
+      this.announcer.firstElementChild!.remove();
+    }
+  }
+
+  /**
+   * Queues the narration of a sprite change, if sprites are narrated.
+   *
+   * Narrations are announced together once the current action has been drawn, so
+   * that a character shown and hidden again right away, as when a save is
+   * restored, is not narrated.
+   * @internal
+   */
+  private narrate(change: SpriteChange): void {
+    if (!this.options.accessibility?.narrateSprites) {
       return;
     }
 
-    const actions = scene.actions;
-    this.currentActionIndex++;
+    const pending = this.pendingNarration.get(change.character);
+    this.pendingNarration.delete(change.character);
+    if (!(pending?.type === "show" && change.type === "hide")) {
+      this.pendingNarration.set(change.character, pending?.type === "show" ? pending : change);
+    }
+    if (!this.narrationQueued) {
+      this.narrationQueued = true;
+      queueMicrotask(() => this.flushNarration());
+    }
+  }
 
-    if (this.currentActionIndex >= actions.length) {
-      // Move to next scene
-      const hasNext = this.engine.next();
-      if (!hasNext) {
-        // No more scenes
-        this.dialogueText.textContent = "";
-        this.speakerName.textContent = "";
+  /**
+   * Announces the queued sprite narrations.
+   * @internal
+   */
+  private flushNarration(): void {
+    const narrateSprites = this.options.accessibility?.narrateSprites;
+    const changes = [...this.pendingNarration.values()];
+    this.pendingNarration.clear();
+    this.narrationQueued = false;
+    for (const change of changes) {
+      const message =
+        typeof narrateSprites === "function"
+          ? narrateSprites(change)
+          : DOMRenderer.describeSpriteChange(change);
+      if (message) {
+        this.announce(message);
       }
-      return;
     }
+  }
+
+  /**
+   * Default narration for a sprite change.
+   * @internal
+   */
+  private static describeSpriteChange(change: SpriteChange): string {
+    const name = change.character.name;
+    switch (change.type) {
+      case "show":
+        return `${name} appears.`;
+      case "hide":
+        return `${name} leaves.`;
+      case "image":
+        return `${name} changes expression.`;
+    }
+  }
+
+  /**
+   * Displays a choice menu and waits for the player to pick an option.
+   *
+   * One `.vn-choice` button is created per option. The menu is hidden again
+   * as soon as an option is clicked or the promise is cancelled. Clicks on the
+   * dialogue box are ignored while the menu is open.
+   *
+   * Keyboard focus moves to the first option, unless the player is using
+   * something outside the game, and back to the dialogue box once the menu closes.
+   *
+   * @param {ChoiceOption[]} choices - The options to present
+   * @returns {CancellablePromise<ChoiceOption|undefined>} Resolves with the option
+   *   the player picked, or undefined if cancelled
+   */
+  showChoices(
+    choices: ChoiceOption[]
+  ): CancellablePromise<ChoiceOption | undefined> {
+    this.choiceMenu.innerHTML = "";
+    this.isProcessing = true;
+
+    return new CancellablePromise<ChoiceOption | undefined>(
+      (resolve) => {
+        for (const choice of choices) {
+          const button = document.createElement("button");
+          button.type = "button";
+          button.className = "vn-choice";
+          button.textContent = choice.text;
+          button.addEventListener("click", () => {
+            this.hideChoices();
+            resolve(choice);
+          });
+          this.choiceMenu.appendChild(button);
+        }
+        this.choiceMenu.style.display = "flex";
+
+        const focused = this.container.ownerDocument.activeElement;
+        if (!focused || focused === document.body || this.container.contains(focused)) {
+          (this.choiceMenu.firstElementChild as HTMLElement | null)?.focus();
+        }
+      },
+      () => this.hideChoices()
+    );
+  }
+
+  /**
+   * Hides the choice menu and removes its buttons.
+   * @internal
+   */
+  private hideChoices(): void {
+    if (this.choiceMenu.contains(this.container.ownerDocument.activeElement)) {
+      this.dialogueBox.focus();
+    }
+    this.choiceMenu.innerHTML = "";
+    this.choiceMenu.style.display = "none";
+    this.isProcessing = false;
+  }
 
-    await this.processActions();
+  /**
+   * Creates a promise that is already resolved, for changes that are displayed instantly.
+   * @returns {CancellablePromise} A resolved promise
+   * @internal
+   */
+  private static done(): CancellablePromise {
+    return new CancellablePromise((resolve) => resolve());
   }
 
   /**
@@ -512,6 +912,9 @@ export class DOMRenderer {
     return `${assetsDir}/${path}`;
   }
 
+  /** Number of past announcements kept in the live region */
+  private static readonly MAX_ANNOUNCEMENTS = 5;
+
   /**
    * Lookup table mapping named positions to CSS coordinate values.
    *
@@ -523,7 +926,7 @@ export class DOMRenderer {
    * @internal
    */
   private static readonly NAMED_POSITIONS: Record<
-    string,
+    NamedPosition,
     { x: string; y: string }
   > = {
     // Horizontal positions (bottom aligned)
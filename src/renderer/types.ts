@@ -0,0 +1,115 @@
+import type { VNEngine } from "../core/engine.js";
+import type {
+  Character,
+  CharacterState,
+  ChoiceOption,
+  DialogueOptions,
+} from "../core/types.js";
+import type { CancellablePromise } from "../util/promise.js";
+
+/**
+ * Interface implemented by anything that presents the story: the built-in
+ * {@link DOMRenderer}, or a canvas, terminal or recording renderer.
+ *
+ * The engine steps through the story and calls these hooks as it goes. Each hook
+ * returns a {@link CancellablePromise} that resolves once the change is fully
+ * presented; the engine cancels it when the player skips ahead (e.g. clicking
+ * during a typewriter effect) or the screen is redrawn. Renderers handle their own
+ * input and call `VNEngine.advance()` when the player wants to continue.
+ *
+ * @interface Renderer
+ * @example
+ * ```typescript
+ * const done = () => new CancellablePromise<void>((resolve) => resolve());
+ *
+ * class ConsoleRenderer implements Renderer {
+ *   clear() {}
+ *   clearDialogue() {}
+ *   setBackground(path?: string) { console.log(`[bg ${path}]`); return done(); }
+ *   showCharacter(character: Character) { console.log(`[show ${character.name}]`); return done(); }
+ *   hideCharacter(character: Character) { console.log(`[hide ${character.name}]`); return done(); }
+ *   setCharacterImage() { return done(); }
+ *   showDialogue(character: Character, text: string) {
+ *     console.log(`${character.name}: ${text}`);
+ *     return done();
+ *   }
+ *   showChoices(choices: ChoiceOption[]) {
+ *     return new CancellablePromise<ChoiceOption | undefined>((resolve) => resolve(choices[0]));
+ *   }
+ * }
+ *
+ * const engine = new VNEngine({ script, container: "#game", startScene: "intro", renderer: new ConsoleRenderer() });
+ * ```
+ */
+export interface Renderer {
+  /**
+   * Called once by the engine before the first scene is presented.
+   * @param {VNEngine} engine - The engine using this renderer
+   */
+  attach?(engine: VNEngine): void;
+
+  /**
+   * Removes all characters, dialogue and choices, e.g. when entering a new scene.
+   * The background is kept.
+   */
+  clear(): void;
+
+  /**
+   * Removes the dialogue, e.g. when the story ends.
+   */
+  clearDialogue(): void;
+
+  /**
+   * Displays a background image, or removes it when no path is given.
+   * @param {string} [path] - The background image path
+   * @returns {CancellablePromise} Resolves when the background is displayed
+   */
+  setBackground(path?: string): CancellablePromise;
+
+  /**
+   * Shows a character, or moves and resizes one that is already shown.
+   * @param {Character} character - The character to show
+   * @param {CharacterState} state - The character's sprite, position and size on the stage
+   * @returns {CancellablePromise} Resolves when the character is displayed
+   */
+  showCharacter(character: Character, state: CharacterState): CancellablePromise;
+
+  /**
+   * Hides a character.
+   * @param {Character} character - The character to hide
+   * @returns {CancellablePromise} Resolves when the character is hidden
+   */
+  hideCharacter(character: Character): CancellablePromise;
+
+  /**
+   * Changes a character's sprite.
+   * @param {Character} character - The character to update
+   * @param {string} image - The new image path
+   * @returns {CancellablePromise} Resolves when the new sprite is displayed
+   */
+  setCharacterImage(character: Character, image: string): CancellablePromise;
+
+  /**
+   * Displays a line of dialogue. Placeholders in the text are already resolved.
+   * @param {Character} character - The character speaking
+   * @param {string} text - The dialogue text
+   * @param {DialogueOptions} [options] - Display options such as the text effect
+   * @returns {CancellablePromise} Resolves when the text is fully displayed.
+   *   Cancelling it must display the full text immediately.
+   */
+  showDialogue(
+    character: Character,
+    text: string,
+    options?: DialogueOptions
+  ): CancellablePromise;
+
+  /**
+   * Displays a choice menu and waits for the player to pick an option.
+   * @param {ChoiceOption[]} choices - The options to present
+   * @returns {CancellablePromise<ChoiceOption|undefined>} Resolves with the option
+   *   picked. Cancelling it must remove the menu; it then resolves with undefined.
+   */
+  showChoices(
+    choices: ChoiceOption[]
+  ): CancellablePromise<ChoiceOption | undefined>;
+}
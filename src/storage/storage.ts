@@ -0,0 +1,151 @@
+/**
+ * Key-value storage used by the engine to persist save data.
+ *
+ * Values are strings (the engine serializes to JSON). All methods are async so that
+ * adapters can be backed by IndexedDB, a server, or any other asynchronous store.
+ *
+ * @interface StorageAdapter
+ * @example
+ * ```typescript
+ * class SessionStorageAdapter implements StorageAdapter {
+ *   async get(key: string) { return sessionStorage.getItem(key); }
+ *   async set(key: string, value: string) { sessionStorage.setItem(key, value); }
+ *   async remove(key: string) { sessionStorage.removeItem(key); }
+ *   async keys() { return Object.keys(sessionStorage); }
+ * }
+ * ```
+ */
+export interface StorageAdapter {
+  /** Gets the value stored under `key`, or null if there is none */
+  get(key: string): Promise<string | null>;
+  /** Stores `value` under `key`, replacing any existing value */
+  set(key: string, value: string): Promise<void>;
+  /** Removes the value stored under `key`, if any */
+  remove(key: string): Promise<void>;
+  /** Lists every key currently stored */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Storage adapter that keeps values in memory.
+ *
+ * This is the engine's default. Values are lost when the page is reloaded,
+ * which makes it useful for tests and for servers without persistent storage.
+ *
+ * @class MemoryStorageAdapter
+ * @implements {StorageAdapter}
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values: Map<string, string> = new Map();
+
+  /**
+   * Gets the value stored under a key.
+   * @param {string} key - The key to look up
+   * @returns {Promise<string|null>} The stored value, or null if there is none
+   */
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  /**
+   * Stores a value under a key.
+   * @param {string} key - The key to store under
+   * @param {string} value - The value to store
+   */
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  /**
+   * Removes the value stored under a key.
+   * @param {string} key - The key to remove
+   */
+  async remove(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  /**
+   * Lists every stored key.
+   * @returns {Promise<string[]>} The stored keys
+   */
+  async keys(): Promise<string[]> {
+    return [...this.values.keys()];
+  }
+}
+
+/**
+ * Storage adapter backed by the browser's `localStorage`.
+ *
+ * Keys are namespaced with a prefix so that several games (or other data)
+ * can share the same origin without clashing.
+ *
+ * @class LocalStorageAdapter
+ * @implements {StorageAdapter}
+ * @example
+ * ```typescript
+ * const engine = new VNEngine({
+ *   script,
+ *   container: "#game",
+ *   startScene: "intro",
+ *   storage: new LocalStorageAdapter("my-novel:"),
+ * });
+ * ```
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private prefix: string;
+  private storage: Storage;
+
+  /**
+   * Creates a new LocalStorageAdapter instance.
+   * @param {string} [prefix="simple-visual-novel:"] - Prefix added to every key
+   * @param {Storage} [storage=localStorage] - The Web Storage object to use
+   */
+  constructor(
+    prefix: string = "simple-visual-novel:",
+    storage: Storage = globalThis.localStorage
+  ) {
+    this.prefix = prefix;
+    this.storage = storage;
+  }
+
+  /**
+   * Gets the value stored under a key.
+   * @param {string} key - The key to look up
+   * @returns {Promise<string|null>} The stored value, or null if there is none
+   */
+  async get(key: string): Promise<string | null> {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  /**
+   * Stores a value under a key.
+   * @param {string} key - The key to store under
+   * @param {string} value - The value to store
+   */
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(this.prefix + key, value);
+  }
+
+  /**
+   * Removes the value stored under a key.
+   * @param {string} key - The key to remove
+   */
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  /**
+   * Lists every key stored under this adapter's prefix, with the prefix removed.
+   * @returns {Promise<string[]>} The stored keys
+   */
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,44 @@
+const EXTENDING = /^[\p{M}\u200d\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]$/u;
+const REGIONAL_INDICATOR = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+
+/**
+ * Splits text into grapheme clusters: the characters a reader sees, such as a
+ * letter with an accent mark or an emoji with a skin tone.
+ *
+ * Uses `Intl.Segmenter` where it is available. Elsewhere, code points are
+ * joined by a simpler rule that keeps combining marks, variation selectors,
+ * emoji modifiers, zero-width joiner sequences, flags and `\r\n` together.
+ *
+ * @param {string} text - The text to split
+ * @returns {string[]} The grapheme clusters, in order
+ *
+ * @example
+ * ```typescript
+ * splitGraphemes("Hi 👋🏽!"); // ["H", "i", " ", "👋🏽", "!"]
+ * "Hi 👋🏽!".length;          // 7
+ * ```
+ */
+export function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== "undefined" && typeof Intl.Segmenter === "function") {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+    return Array.from(segmenter.segment(text), ({ segment }) => segment);
+  }
+
+  const clusters: string[] = [];
+  for (const char of text) {
+    const last = clusters.length - 1;
+    const previous = clusters[last];
+    if (
+      previous !== undefined &&
+      (EXTENDING.test(char) ||
+        previous.endsWith("\u200d") ||
+        (previous === "\r" && char === "\n") ||
+        (REGIONAL_INDICATOR.test(previous) && REGIONAL_INDICATOR.test(char)))
+    ) {
+      clusters[last] += char;
+    } else {
+      clusters.push(char);
+    }
+  }
+  return clusters;
+}
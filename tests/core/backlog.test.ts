@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { Backlog } from "../../src/core/backlog.js";
+
+const entry = (text: string) => ({
+  speaker: "Alex",
+  text,
+  sceneId: "scene1",
+  actionIndex: 1,
+});
+
+describe("Backlog", () => {
+  it("should start empty with a default size", () => {
+    const backlog = new Backlog();
+    expect(backlog.entries).toEqual([]);
+    expect(backlog.maxSize).toBe(200);
+  });
+
+  it("should add entries oldest first", () => {
+    const backlog = new Backlog();
+    backlog.add(entry("First"));
+    backlog.add(entry("Second"));
+    expect(backlog.entries.map((e) => e.text)).toEqual(["First", "Second"]);
+  });
+
+  it("should drop the oldest entries beyond maxSize", () => {
+    const backlog = new Backlog(2);
+    backlog.add(entry("1"));
+    backlog.add(entry("2"));
+    backlog.add(entry("3"));
+    expect(backlog.entries.map((e) => e.text)).toEqual(["2", "3"]);
+  });
+
+  it("should return copies of entries", () => {
+    const backlog = new Backlog();
+    backlog.add(entry("Original"));
+    backlog.entries[0].text = "Changed";
+    expect(backlog.entries[0].text).toBe("Original");
+  });
+
+  it("should restore entries, keeping at most maxSize", () => {
+    const backlog = new Backlog(2);
+    backlog.add(entry("Old"));
+    backlog.restore([entry("1"), entry("2"), entry("3")]);
+    expect(backlog.entries.map((e) => e.text)).toEqual(["2", "3"]);
+  });
+
+  it("should rewind to an earlier count of added entries", () => {
+    const backlog = new Backlog(2);
+    backlog.add(entry("1"));
+    backlog.add(entry("2"));
+    const mark = backlog.added;
+    backlog.add(entry("3"));
+    expect(backlog.added).toBe(3);
+
+    backlog.rewind(mark);
+    expect(backlog.entries.map((e) => e.text)).toEqual(["2"]);
+    expect(backlog.added).toBe(mark);
+    backlog.rewind(mark + 5);
+    expect(backlog.entries.map((e) => e.text)).toEqual(["2"]);
+  });
+
+  it("should clear entries", () => {
+    const backlog = new Backlog();
+    backlog.add(entry("1"));
+    backlog.clear();
+    expect(backlog.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCondition } from "../../src/core/conditions.js";
+
+describe("evaluateCondition", () => {
+  const variables = { hasKey: true, gold: 12, name: "Alex", empty: "" };
+
+  describe("predicates", () => {
+    it("should call predicate with variables", () => {
+      expect(evaluateCondition((vars) => vars.gold > 10, variables)).toBe(true);
+      expect(evaluateCondition((vars) => vars.gold > 20, variables)).toBe(false);
+    });
+  });
+
+  describe("variable expressions", () => {
+    it("should check truthiness when no comparison is given", () => {
+      expect(evaluateCondition({ var: "hasKey" }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "empty" }, variables)).toBe(false);
+      expect(evaluateCondition({ var: "missing" }, variables)).toBe(false);
+    });
+
+    it("should compare with eq and ne", () => {
+      expect(evaluateCondition({ var: "name", eq: "Alex" }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "name", ne: "Alex" }, variables)).toBe(false);
+    });
+
+    it("should compare with eq against undefined", () => {
+      expect(evaluateCondition({ var: "missing", eq: undefined }, variables)).toBe(true);
+    });
+
+    it("should compare with numeric operators", () => {
+      expect(evaluateCondition({ var: "gold", gt: 11 }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "gold", gte: 12 }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "gold", lt: 12 }, variables)).toBe(false);
+      expect(evaluateCondition({ var: "gold", lte: 12 }, variables)).toBe(true);
+    });
+
+    it("should require every comparison to hold", () => {
+      expect(evaluateCondition({ var: "gold", gt: 10, lt: 15 }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "gold", gt: 10, lt: 11 }, variables)).toBe(false);
+    });
+
+    it("should check membership with in", () => {
+      expect(evaluateCondition({ var: "name", in: ["Alex", "Sam"] }, variables)).toBe(true);
+      expect(evaluateCondition({ var: "name", in: ["Sam"] }, variables)).toBe(false);
+    });
+  });
+
+  describe("combinators", () => {
+    it("should combine with all", () => {
+      expect(
+        evaluateCondition({ all: [{ var: "hasKey" }, { var: "gold", gt: 5 }] }, variables)
+      ).toBe(true);
+      expect(
+        evaluateCondition({ all: [{ var: "hasKey" }, { var: "gold", gt: 50 }] }, variables)
+      ).toBe(false);
+    });
+
+    it("should combine with any", () => {
+      expect(
+        evaluateCondition({ any: [{ var: "missing" }, { var: "hasKey" }] }, variables)
+      ).toBe(true);
+      expect(
+        evaluateCondition({ any: [{ var: "missing" }, { var: "empty" }] }, variables)
+      ).toBe(false);
+    });
+
+    it("should negate with not", () => {
+      expect(evaluateCondition({ not: { var: "hasKey" } }, variables)).toBe(false);
+    });
+
+    it("should allow predicates inside combinators", () => {
+      expect(
+        evaluateCondition({ all: [{ var: "hasKey" }, (vars) => vars.gold === 12] }, variables)
+      ).toBe(true);
+    });
+  });
+
+  it("should throw error for unrecognized expressions", () => {
+    expect(() => evaluateCondition({ foo: 1 } as any, variables)).toThrow(
+      'Unrecognized condition: {"foo":1}'
+    );
+  });
+});
@@ -1,7 +1,130 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { VNEngine } from "../../src/core/engine.js";
 import { createTestScript } from "../helpers/test-utils.js";
-import { Script, Scene } from "../../src/core/types.js";
+import { Script, Scene, Character } from "../../src/core/types.js";
+import type { VNEngineOptions, EngineEvent } from "../../src/core/engine.js";
+import type { ChoiceOption } from "../../src/core/types.js";
+import { MemoryStorageAdapter } from "../../src/storage/storage.js";
+import type { Renderer } from "../../src/renderer/types.js";
+import { CancellablePromise } from "../../src/util/promise.js";
+import {
+  SaveMigrations,
+  SaveMigrationError,
+  SAVE_SCHEMA_VERSION,
+} from "../../src/core/save.js";
+
+/**
+ * Creates an engine without a DOM renderer, as on a server or in a test runner.
+ */
+function createHeadlessEngine(
+  options: Omit<VNEngineOptions, "container">
+): VNEngine {
+  const originalDocument = global.document;
+  // @ts-expect-error - Intentionally removing document so no renderer is created
+  delete global.document;
+  try {
+    return new VNEngine({ ...options, container: "#game" });
+  } finally {
+    global.document = originalDocument;
+  }
+}
+
+/**
+ * Creates a two-scene script with a conditional line, a variable and a choice.
+ */
+function createBranchingScript(): Script {
+  const story = new Script();
+  const alex = new Character("Alex", "alex.png");
+
+  const intro = new Scene("intro", { background: "park.png" });
+  intro.add(alex, { position: "left" });
+  alex.say("Hi {name}!");
+  intro.when({ var: "brave" }, () => alex.say("Onward!"));
+  intro.set("met", true);
+  intro.choice([
+    { text: "Stay", set: { stayed: true } },
+    { text: "Leave", jumpTo: "outro" },
+  ]);
+  alex.say("Staying, then.");
+  story.addScene(intro);
+
+  const outro = new Scene("outro");
+  outro.add(alex);
+  alex.say("Bye!");
+  story.addScene(outro);
+
+  return story;
+}
+
+/**
+ * Renderer that records every hook call. Dialogue and choices stay pending until
+ * finished with `finish()` / `pick()` or cancelled by the engine.
+ */
+class RecordingRenderer implements Renderer {
+  calls: string[] = [];
+  engine?: VNEngine;
+  private resolvePending?: (value?: any) => void;
+
+  attach(engine: VNEngine): void {
+    this.engine = engine;
+  }
+
+  clear(): void {
+    this.calls.push("clear");
+  }
+
+  clearDialogue(): void {
+    this.calls.push("clearDialogue");
+  }
+
+  setBackground(path?: string): CancellablePromise {
+    return this.record(`background ${path}`);
+  }
+
+  showCharacter(character: Character): CancellablePromise {
+    return this.record(`show ${character.name}`);
+  }
+
+  hideCharacter(character: Character): CancellablePromise {
+    return this.record(`hide ${character.name}`);
+  }
+
+  setCharacterImage(character: Character, image: string): CancellablePromise {
+    return this.record(`image ${character.name} ${image}`);
+  }
+
+  showDialogue(character: Character, text: string): CancellablePromise {
+    this.calls.push(`say ${character.name}: ${text}`);
+    return this.pending();
+  }
+
+  showChoices(
+    choices: ChoiceOption[]
+  ): CancellablePromise<ChoiceOption | undefined> {
+    this.calls.push(`choices ${choices.map((choice) => choice.text).join("/")}`);
+    return this.pending();
+  }
+
+  finish(): void {
+    this.resolvePending?.();
+  }
+
+  pick(option: ChoiceOption): void {
+    this.resolvePending?.(option);
+  }
+
+  private record(call: string): CancellablePromise {
+    this.calls.push(call);
+    return new CancellablePromise((resolve) => resolve());
+  }
+
+  private pending<T>(): CancellablePromise<T> {
+    return new CancellablePromise<T>(
+      (resolve) => (this.resolvePending = resolve as (value?: any) => void),
+      () => this.calls.push("cancel")
+    );
+  }
+}
 
 describe("VNEngine", () => {
   let script: Script;
@@ -163,6 +286,78 @@ describe("VNEngine", () => {
     });
   });
 
+  describe("choices", () => {
+    it("should set variables from the chosen option", () => {
+      const jumped = engine.choose({ text: "Yes", set: { agreed: true, gold: 5 } });
+      expect(jumped).toBe(false);
+      expect(engine.getVariable("agreed")).toBe(true);
+      expect(engine.getVariable("gold")).toBe(5);
+      expect(engine.currentScene?.id).toBe("scene1");
+    });
+
+    it("should jump to the chosen option's scene", () => {
+      const jumped = engine.choose({ text: "Go", jumpTo: "scene2" });
+      expect(jumped).toBe(true);
+      expect(engine.currentScene?.id).toBe("scene2");
+    });
+
+    it("should emit variableChange before sceneChange", () => {
+      const events: string[] = [];
+      engine.on("variableChange", () => events.push("variableChange"));
+      engine.on("sceneChange", () => events.push("sceneChange"));
+
+      engine.choose({ text: "Go", jumpTo: "scene2", set: { went: true } });
+      expect(events).toEqual(["variableChange", "sceneChange"]);
+    });
+
+    it("should throw without setting variables when jump target doesn't exist", () => {
+      expect(() => {
+        engine.choose({ text: "Go", jumpTo: "nonexistent", set: { went: true } });
+      }).toThrow('Scene with id "nonexistent" not found');
+      expect(engine.getVariable("went")).toBeUndefined();
+    });
+  });
+
+  describe("conditions", () => {
+    it("should treat a missing condition as true", () => {
+      expect(engine.evaluateCondition()).toBe(true);
+    });
+
+    it("should evaluate conditions against game variables", () => {
+      engine.setVariable("hasKey", true);
+      expect(engine.evaluateCondition({ var: "hasKey" })).toBe(true);
+      expect(engine.evaluateCondition((vars) => !vars.hasKey)).toBe(false);
+    });
+  });
+
+  describe("interpolation", () => {
+    it("should interpolate text with game variables", () => {
+      engine.setVariable("playerName", "Alex");
+      expect(engine.interpolate("Welcome back, {playerName}")).toBe(
+        "Welcome back, Alex"
+      );
+    });
+
+    it("should emit missingVariable event for undefined variables", () => {
+      const events: any[] = [];
+      engine.on("missingVariable", (event) => events.push(event.data));
+
+      expect(engine.interpolate("Hi {playerName}")).toBe("Hi {playerName}");
+      expect(events).toEqual([{ key: "playerName", text: "Hi {playerName}" }]);
+    });
+
+    it("should use formatters from engine options", () => {
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        formatters: { title: (value) => `Sir ${value}` },
+      });
+      testEngine.setVariable("name", "Alex");
+      expect(testEngine.interpolate("{name|title}")).toBe("Sir Alex");
+    });
+  });
+
   describe("variable management", () => {
     it("should set and get variables", () => {
       engine.setVariable("testKey", "testValue");
@@ -275,6 +470,1300 @@ describe("VNEngine", () => {
     });
   });
 
+  describe("save and load", () => {
+    it("should snapshot variables, scene and history", () => {
+      engine.setVariable("gold", 5);
+      engine.next();
+
+      const data = engine.snapshot();
+      expect(data.state).toEqual({
+        variables: { gold: 5 },
+        _currentSceneId: "scene2",
+        sceneHistory: ["scene1"],
+        callStack: [],
+      });
+      expect(typeof data.timestamp).toBe("number");
+    });
+
+    it("should not share variables with the snapshot", () => {
+      engine.setVariable("gold", 5);
+      const data = engine.snapshot();
+      engine.setVariable("gold", 10);
+      expect(data.state.variables.gold).toBe(5);
+    });
+
+    it("should restore a snapshot without emitting sceneChange", () => {
+      engine.setVariable("gold", 5);
+      const data = engine.snapshot();
+      engine.next();
+      engine.setVariable("gold", 10);
+
+      const events: string[] = [];
+      engine.on("sceneChange", () => events.push("sceneChange"));
+      engine.on("load", (event) => events.push(`load:${event.data.sceneId}`));
+      engine.restore(data);
+
+      expect(engine.currentScene?.id).toBe("scene1");
+      expect(engine.getVariable("gold")).toBe(5);
+      expect(engine.stateManager.sceneHistory).toEqual([]);
+      expect(events).toEqual(["load:scene1"]);
+    });
+
+    it("should throw when restoring a snapshot of an unknown scene", () => {
+      const data = engine.snapshot();
+      data.state._currentSceneId = "nonexistent";
+      expect(() => engine.restore(data)).toThrow(
+        'Scene with id "nonexistent" not found'
+      );
+      expect(engine.currentScene?.id).toBe("scene1");
+    });
+
+    it("should save to and load from a slot", async () => {
+      engine.setVariable("gold", 5);
+      await engine.save("1");
+      engine.next();
+      engine.setVariable("gold", 10);
+
+      await engine.load("1");
+      expect(engine.currentScene?.id).toBe("scene1");
+      expect(engine.getVariable("gold")).toBe(5);
+    });
+
+    it("should throw when loading an empty slot", async () => {
+      await expect(engine.load("empty")).rejects.toThrow(
+        'Save slot "empty" not found'
+      );
+    });
+
+    it("should list and delete save slots", async () => {
+      await engine.save("1");
+      await engine.save("autosave");
+      expect(await engine.listSaves()).toEqual(["1", "autosave"]);
+
+      await engine.deleteSave("1");
+      expect(await engine.listSaves()).toEqual(["autosave"]);
+    });
+
+    it("should record the schema and story version", () => {
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        storyVersion: "1.2",
+      });
+
+      const data = testEngine.snapshot();
+      expect(data.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+      expect(data.storyVersion).toBe("1.2");
+    });
+
+    it("should migrate older saves when loading", async () => {
+      await engine.save("1");
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        storyVersion: "2.0",
+        migrations: [
+          {
+            to: "2.0",
+            migrate: (data) => {
+              data.state.variables.migrated = true;
+              return data;
+            },
+          },
+        ],
+      });
+
+      testEngine.restore(engine.snapshot());
+      expect(testEngine.getVariable("migrated")).toBe(true);
+    });
+
+    it("should throw SaveMigrationError and keep state when a save cannot be migrated", () => {
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        storyVersion: "2.0",
+      });
+      testEngine.setVariable("kept", true);
+
+      expect(() => testEngine.restore(engine.snapshot())).toThrow(SaveMigrationError);
+      expect(testEngine.getVariable("kept")).toBe(true);
+    });
+
+    it("should expose the migration registry", () => {
+      expect(engine.migrations).toBeInstanceOf(SaveMigrations);
+    });
+
+    it("should use the storage adapter from engine options", async () => {
+      const storage = new MemoryStorageAdapter();
+      await storage.set("other", "value");
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        storage,
+      });
+
+      await testEngine.save("1");
+      expect(await storage.keys()).toEqual(["other", "save:1"]);
+      expect(await testEngine.listSaves()).toEqual(["1"]);
+    });
+  });
+
+  describe("rollback", () => {
+    // Scenes without dialogue, so the renderer records no checkpoints of its own
+    const createSilentEngine = (rollbackDepth?: number) => {
+      const silentScript = new Script();
+      silentScript.addScene(new Scene("scene1"));
+      silentScript.addScene(new Scene("scene2"));
+      return createHeadlessEngine({
+        script: silentScript,
+        startScene: "scene1",
+        rollbackDepth,
+      });
+    };
+
+    beforeEach(() => {
+      engine = createSilentEngine();
+    });
+
+    it("should not go back without earlier checkpoints", () => {
+      engine.checkpoint();
+      expect(engine.canGoBack).toBe(false);
+      expect(engine.back()).toBe(false);
+    });
+
+    it("should restore variables and scene from the previous checkpoint", () => {
+      engine.setVariable("gold", 1);
+      engine.checkpoint();
+      engine.setVariable("gold", 2);
+      engine.next();
+      engine.checkpoint();
+
+      const events: any[] = [];
+      engine.on("rollback", (event) => events.push(event.data));
+      expect(engine.back()).toBe(true);
+
+      expect(engine.currentScene?.id).toBe("scene1");
+      expect(engine.getVariable("gold")).toBe(1);
+      expect(events).toEqual([{ sceneId: "scene1" }]);
+    });
+
+    it("should keep at most rollbackDepth earlier checkpoints", () => {
+      const testEngine = createSilentEngine(2);
+
+      for (let i = 1; i <= 5; i++) {
+        testEngine.setVariable("line", i);
+        testEngine.checkpoint();
+      }
+
+      testEngine.back();
+      expect(testEngine.getVariable("line")).toBe(4);
+      testEngine.checkpoint();
+      testEngine.back();
+      expect(testEngine.getVariable("line")).toBe(3);
+      testEngine.checkpoint();
+      expect(testEngine.back()).toBe(false);
+    });
+
+    it("should disable rollback when rollbackDepth is 0", () => {
+      const testEngine = createSilentEngine(0);
+      testEngine.checkpoint();
+      testEngine.checkpoint();
+      expect(testEngine.canGoBack).toBe(false);
+    });
+
+    it("should clear rollback history when restoring a save", () => {
+      engine.checkpoint();
+      engine.checkpoint();
+      engine.restore(engine.snapshot());
+      expect(engine.canGoBack).toBe(false);
+    });
+  });
+
+  describe("backlog", () => {
+    it("should record dialogue with the current scene and emit an event", () => {
+      const events: any[] = [];
+      engine.on("backlog", (event) => events.push(event.data));
+
+      engine.recordDialogue("Alex", "Hello", 3);
+
+      const expected = { speaker: "Alex", text: "Hello", sceneId: "scene1", actionIndex: 3 };
+      expect(engine.backlog.entries.at(-1)).toEqual(expected);
+      expect(events).toEqual([expected]);
+    });
+
+    it("should limit the backlog to backlogSize", () => {
+      const testEngine = new VNEngine({
+        script: createTestScript(),
+        container: document.createElement("div"),
+        startScene: "scene1",
+        backlogSize: 1,
+      });
+      testEngine.recordDialogue("Alex", "One", 1);
+      testEngine.recordDialogue("Alex", "Two", 2);
+      expect(testEngine.backlog.entries.map((entry) => entry.text)).toEqual(["Two"]);
+    });
+
+    /** Three lines by Alex. */
+    const createTalkScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex");
+      const scene = new Scene("talk");
+      scene.add(alex);
+      alex.say("One");
+      alex.say("Two");
+      alex.say("Three");
+      story.addScene(scene);
+      return story;
+    };
+
+    it("should take rolled back lines out of a full backlog", () => {
+      const story = createTalkScript();
+      const runner = createHeadlessEngine({ script: story, startScene: "talk", backlogSize: 2 });
+      const texts = () => runner.backlog.entries.map((entry) => entry.text);
+
+      runner.advance();
+      runner.advance();
+      runner.advance();
+      expect(texts()).toEqual(["Two", "Three"]);
+
+      runner.back();
+      expect(runner.currentAction?.text).toBe("Two");
+      expect(texts()).toEqual(["Two"]);
+      runner.advance();
+      expect(texts()).toEqual(["Two", "Three"]);
+    });
+
+    it("should not record the current line again when a save is loaded", async () => {
+      const runner = createHeadlessEngine({ script: createTalkScript(), startScene: "talk" });
+      const texts = () => runner.backlog.entries.map((entry) => entry.text);
+      runner.advance();
+      runner.advance();
+      await runner.save("1");
+
+      await runner.load("1");
+      expect(texts()).toEqual(["One", "Two"]);
+      runner.restore(runner.snapshot());
+      expect(texts()).toEqual(["One", "Two"]);
+
+      runner.advance();
+      runner.back();
+      expect(runner.currentAction?.text).toBe("Two");
+      expect(texts()).toEqual(["One", "Two"]);
+    });
+
+    it("should include the backlog in save data", async () => {
+      engine.recordDialogue("Alex", "Remember me", 1);
+      await engine.save("1");
+      engine.backlog.clear();
+
+      const data = await engine.load("1");
+      expect(data.backlog.at(-1)?.text).toBe("Remember me");
+      expect(engine.backlog.entries.map((entry) => entry.text)).toContain(
+        "Remember me"
+      );
+    });
+  });
+
+  describe("headless runner", () => {
+    const createRunner = () =>
+      createHeadlessEngine({ script: createBranchingScript(), startScene: "intro" });
+
+    it("should start before the first action without a renderer", () => {
+      const runner = createRunner();
+      expect(runner.renderer).toBeNull();
+      expect(runner.actionIndex).toBe(-1);
+      expect(runner.currentAction).toBeUndefined();
+      expect(runner.stage.background).toBe("park.png");
+    });
+
+    it("should step to the next dialogue, applying actions along the way", () => {
+      const runner = createRunner();
+      runner.setVariable("name", "Sam");
+      const events: any[] = [];
+      runner.on("action", (event) => events.push(event.data));
+
+      const action = runner.advance();
+
+      expect(action?.type).toBe("dialogue");
+      expect(action?.text).toBe("Hi Sam!");
+      expect(runner.actionIndex).toBe(1);
+      expect(runner.stage.characters).toEqual([
+        { name: "Alex", image: "alex.png", position: "left", visible: true },
+      ]);
+      expect(events.map((event) => [event.action.type, event.index])).toEqual([
+        ["show", 0],
+        ["dialogue", 1],
+      ]);
+      expect(runner.backlog.entries.at(-1)?.text).toBe("Hi Sam!");
+    });
+
+    it("should skip actions whose condition does not hold", () => {
+      const runner = createRunner();
+      runner.advance();
+
+      const action = runner.advance();
+
+      expect(action?.type).toBe("choice");
+      expect(runner.getVariable("met")).toBe(true);
+    });
+
+    it("should stay on a choice until an option is chosen", () => {
+      const runner = createRunner();
+      runner.advance();
+      const choice = runner.advance()!;
+
+      expect(runner.advance()).toBe(choice);
+      expect(runner.choose(choice.choices![0])).toBe(false);
+      expect(runner.advance()?.text).toBe("Staying, then.");
+      expect(runner.getVariable("stayed")).toBe(true);
+    });
+
+    it("should continue in the scene a choice jumps to", () => {
+      const runner = createRunner();
+      runner.advance();
+      const choice = runner.advance()!;
+
+      runner.choose(choice.choices![1]);
+
+      expect(runner.currentScene?.id).toBe("outro");
+      expect(runner.stage.characters).toEqual([]);
+      expect(runner.advance()?.text).toBe("Bye!");
+    });
+
+    it("should move to the next scene and end after the last action", () => {
+      const runner = createRunner();
+      const ends: any[] = [];
+      runner.on("end", (event) => ends.push(event));
+      runner.advance();
+      runner.choose(runner.advance()!.choices![0]);
+      runner.advance();
+
+      expect(runner.advance()?.text).toBe("Bye!");
+      expect(runner.currentScene?.id).toBe("outro");
+      expect(runner.advance()).toBeNull();
+      expect(runner.advance()).toBeNull();
+      expect(ends).toHaveLength(1);
+    });
+
+    it("should ignore advance() calls made while already advancing", () => {
+      const runner = createRunner();
+      runner.on("action", () => runner.advance());
+
+      expect(runner.advance()?.text).toBe("Hi {name}!");
+      expect(runner.actionIndex).toBe(1);
+    });
+
+    it("should resume at the restored line after loading", () => {
+      const runner = createRunner();
+      runner.advance();
+      const data = runner.snapshot();
+      runner.advance();
+
+      const events: string[] = [];
+      runner.on("load", () => events.push("load"));
+      runner.on("action", (event) => events.push(event.data.action.text));
+      runner.restore(data);
+
+      expect(runner.actionIndex).toBe(1);
+      expect(events).toEqual(["load", "Hi {name}!"]);
+      expect(runner.stage.characters[0].name).toBe("Alex");
+    });
+
+    it("should roll back to the previous line", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.advance();
+
+      expect(runner.back()).toBe(true);
+      expect(runner.currentAction?.text).toBe("Hi {name}!");
+      expect(runner.getVariable("met")).toBeUndefined();
+      expect(runner.advance()?.type).toBe("choice");
+    });
+  });
+
+  describe("calls", () => {
+    /**
+     * intro shows Alex in the park and continues into outro; "phone" shows Sam
+     * and returns, and "shop" runs out of actions. Calls are made in code.
+     */
+    const createCallScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex", "alex.png");
+      const sam = new Character("Sam", "sam.png");
+
+      const intro = new Scene("intro", { background: "park.png" });
+      intro.add(alex, { position: "left" });
+      alex.say("Hold on.");
+      alex.say("Where were we?");
+      story.addScene(intro);
+
+      const outro = new Scene("outro");
+      outro.add(alex);
+      alex.say("Bye!");
+      story.addScene(outro);
+
+      const phone = new Scene("phone", { background: "office.png" });
+      phone.add(sam);
+      sam.say("Hello?");
+      phone.when({ var: "hungUp" }, () => phone.return());
+      sam.say("Still there?");
+      phone.return();
+      sam.say("Never reached.");
+      story.addScene(phone);
+
+      const shop = new Scene("shop");
+      shop.add(sam);
+      sam.say("Buy something!");
+      story.addScene(shop);
+
+      return story;
+    };
+    const createRunner = (options: Partial<VNEngineOptions> = {}) =>
+      createHeadlessEngine({ script: createCallScript(), startScene: "intro", ...options });
+
+    it("should resume the caller after the call with its stage", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.call("phone");
+
+      expect(runner.currentScene?.id).toBe("phone");
+      expect(runner.stateManager.callStack).toHaveLength(1);
+      expect(runner.advance()?.text).toBe("Hello?");
+      expect(runner.stage.background).toBe("office.png");
+      expect(runner.advance()?.text).toBe("Still there?");
+
+      expect(runner.advance()?.text).toBe("Where were we?");
+      expect(runner.currentScene?.id).toBe("intro");
+      expect(runner.actionIndex).toBe(2);
+      expect(runner.stage.background).toBe("park.png");
+      expect(runner.stage.characters).toEqual([
+        { name: "Alex", image: "alex.png", position: "left", visible: true },
+      ]);
+      expect(runner.stateManager.callStack).toEqual([]);
+    });
+
+    it("should honour conditions on return actions", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.call("phone");
+      runner.setVariable("hungUp", true);
+
+      expect(runner.advance()?.text).toBe("Hello?");
+      expect(runner.advance()?.text).toBe("Where were we?");
+    });
+
+    it("should return when a called scene runs out of actions", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.call("shop");
+
+      expect(runner.advance()?.text).toBe("Buy something!");
+      expect(runner.advance()?.text).toBe("Where were we?");
+      expect(runner.advance()?.text).toBe("Bye!");
+    });
+
+    it("should return through nested calls innermost first", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.call("shop");
+      runner.advance();
+      runner.call("phone");
+
+      expect(runner.stateManager.callStack.map((frame) => frame.sceneId)).toEqual([
+        "intro",
+        "shop",
+      ]);
+      runner.advance();
+      runner.advance();
+      expect(runner.advance()?.text).toBe("Where were we?");
+    });
+
+    it("should end the story at a return outside of a call", () => {
+      const runner = createHeadlessEngine({
+        script: createCallScript(),
+        startScene: "phone",
+      });
+      const ends: any[] = [];
+      runner.on("end", (event) => ends.push(event));
+      runner.advance();
+
+      expect(runner.advance()?.text).toBe("Still there?");
+      expect(runner.advance()).toBeNull();
+      expect(runner.advance()).toBeNull();
+      expect(ends).toHaveLength(1);
+    });
+
+    it("should keep the call stack in saves", async () => {
+      const storage = new MemoryStorageAdapter();
+      const runner = createRunner({ storage });
+      runner.advance();
+      runner.call("phone");
+      runner.advance();
+      await runner.save("1");
+
+      const loaded = createRunner({ storage });
+      await loaded.load("1");
+
+      expect(loaded.currentAction?.text).toBe("Hello?");
+      expect(loaded.stateManager.callStack).toEqual(runner.stateManager.callStack);
+      loaded.advance();
+      expect(loaded.advance()?.text).toBe("Where were we?");
+    });
+
+    it("should roll back into a called scene", () => {
+      const runner = createRunner();
+      runner.advance();
+      runner.call("shop");
+      runner.advance();
+      runner.advance();
+
+      expect(runner.back()).toBe(true);
+      expect(runner.currentAction?.text).toBe("Buy something!");
+      expect(runner.advance()?.text).toBe("Where were we?");
+    });
+
+    it("should refuse unknown scenes and runaway recursion", () => {
+      const runner = createRunner({ maxCallDepth: 2 });
+      expect(() => runner.call("missing")).toThrow('Scene with id "missing" not found');
+
+      runner.call("phone");
+      runner.call("phone");
+      expect(() => runner.call("phone")).toThrow(
+        'Cannot call scene "phone": 2 calls are already waiting to return'
+      );
+      expect(runner.stateManager.callStack).toHaveLength(2);
+    });
+  });
+
+  describe("labels and jumps", () => {
+    /**
+     * quiz asks a question until it is answered right, then jumps past the
+     * "skipped" scene to a label in outro.
+     */
+    const createQuizScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex", "alex.png");
+      const sam = new Character("Sam", "sam.png");
+
+      const quiz = new Scene("quiz", { background: "class.png" });
+      quiz.add(alex);
+      quiz.label("ask");
+      alex.say("What's 2 + 2?");
+      quiz.choice([{ text: "4", jumpTo: "#right" }, { text: "5" }]);
+      alex.say("Try again.");
+      quiz.jump("#ask");
+      quiz.label("right");
+      alex.say("Correct!");
+      quiz.when({ var: "stay" }, () => quiz.jump("#ask"));
+      quiz.jump("outro#end");
+      story.addScene(quiz);
+
+      const skipped = new Scene("skipped");
+      skipped.add(alex);
+      alex.say("Skipped.");
+      story.addScene(skipped);
+
+      const outro = new Scene("outro");
+      outro.add(sam);
+      sam.say("Welcome to the outro.");
+      outro.label("end");
+      sam.say("The end.");
+      story.addScene(outro);
+
+      return story;
+    };
+    const createRunner = () =>
+      createHeadlessEngine({ script: createQuizScript(), startScene: "quiz" });
+
+    it("should loop back to a label in the same scene, keeping the stage", () => {
+      const runner = createRunner();
+      const scenes: string[] = [];
+      runner.on("sceneChange", (event) => scenes.push(event.data.sceneId));
+      runner.advance();
+      runner.choose(runner.advance()!.choices![1]);
+
+      expect(runner.advance()?.text).toBe("Try again.");
+      expect(runner.advance()?.text).toBe("What's 2 + 2?");
+      expect(runner.actionIndex).toBe(2);
+      expect(runner.stage.characters.map((state) => state.name)).toEqual(["Alex"]);
+      expect(scenes).toEqual([]);
+    });
+
+    it("should jump to labels from choices and across scenes", () => {
+      const runner = createRunner();
+      const scenes: string[] = [];
+      runner.on("sceneChange", (event) => scenes.push(event.data.sceneId));
+      runner.advance();
+
+      expect(runner.choose(runner.advance()!.choices![0])).toBe(true);
+      expect(runner.advance()?.text).toBe("Correct!");
+      expect(runner.advance()?.text).toBe("The end.");
+      expect(runner.currentScene?.id).toBe("outro");
+      expect(runner.stage.characters).toEqual([]);
+      expect(runner.stage.background).toBe("class.png");
+      expect(scenes).toEqual(["outro"]);
+    });
+
+    it("should skip jumps whose condition does not hold", () => {
+      const runner = createRunner();
+      runner.setVariable("stay", true);
+      runner.jumpTo("#right");
+
+      expect(runner.advance()?.text).toBe("Correct!");
+      expect(runner.advance()?.text).toBe("What's 2 + 2?");
+    });
+
+    it("should jump to a label with jumpTo()", () => {
+      const runner = createRunner();
+      runner.jumpTo("outro#end");
+
+      expect(runner.currentScene?.id).toBe("outro");
+      expect(runner.actionIndex).toBe(2);
+      expect(runner.advance()?.text).toBe("The end.");
+    });
+
+    it("should throw for unknown labels", () => {
+      const runner = createRunner();
+      expect(() => runner.jumpTo("quiz#nope")).toThrow(
+        'Label "nope" not found in scene "quiz"'
+      );
+      expect(() => runner.choose({ text: "Go", jumpTo: "#nope", set: { went: true } })).toThrow(
+        'Label "nope" not found in scene "quiz"'
+      );
+      expect(runner.getVariable("went")).toBeUndefined();
+    });
+
+    it("should stop jump loops that never reach dialogue", () => {
+      const story = new Script();
+      const scene = new Scene("spin");
+      scene.label("top");
+      scene.jump("#top");
+      story.addScene(scene);
+      const runner = createHeadlessEngine({ script: story, startScene: "spin" });
+
+      expect(() => runner.advance()).toThrow(
+        'Jumped 10000 times without reaching dialogue or a choice in scene "spin"'
+      );
+    });
+  });
+
+  describe("custom renderer", () => {
+    let renderer: RecordingRenderer;
+    let custom: VNEngine;
+
+    beforeEach(() => {
+      renderer = new RecordingRenderer();
+      custom = new VNEngine({
+        script: createBranchingScript(),
+        container: "#missing",
+        startScene: "intro",
+        renderer,
+      });
+      custom.setVariable("name", "Sam");
+    });
+
+    it("should use the given renderer instead of the DOM renderer", () => {
+      expect(custom.renderer).toBe(renderer);
+      expect(renderer.engine).toBe(custom);
+    });
+
+    it("should present the first scene up to its first line", () => {
+      expect(renderer.calls).toEqual([
+        "clear",
+        "background park.png",
+        "show Alex",
+        "say Alex: Hi {name}!",
+      ]);
+      expect(custom.isPresenting).toBe(true);
+    });
+
+    it("should finish the current line before advancing", () => {
+      renderer.calls = [];
+
+      expect(custom.advance()?.text).toBe("Hi {name}!");
+      expect(custom.isPresenting).toBe(false);
+      expect(renderer.calls).toEqual(["cancel"]);
+
+      expect(custom.advance()?.type).toBe("choice");
+      expect(renderer.calls).toEqual(["cancel", "choices Stay/Leave"]);
+    });
+
+    it("should apply the picked choice and continue", async () => {
+      custom.advance();
+      custom.advance();
+      renderer.calls = [];
+
+      renderer.pick({ text: "Leave", jumpTo: "outro" });
+      await Promise.resolve();
+
+      expect(custom.currentScene?.id).toBe("outro");
+      expect(renderer.calls).toEqual([
+        "clear",
+        "background park.png",
+        "show Alex",
+        "say Alex: Bye!",
+      ]);
+    });
+
+    it("should report a picked choice with a missing target and show the choices again", async () => {
+      const errors: EngineEvent[] = [];
+      custom.on("error", (event) => errors.push(event));
+      custom.advance();
+      custom.advance();
+      renderer.calls = [];
+
+      const option = { text: "Leave", jumpTo: "nowhere" };
+      renderer.pick(option);
+      await Promise.resolve();
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].data.option).toBe(option);
+      expect(errors[0].data.error).toBeInstanceOf(Error);
+      expect(custom.currentScene?.id).toBe("intro");
+      expect(renderer.calls).toEqual(["choices Stay/Leave"]);
+
+      renderer.pick({ text: "Leave", jumpTo: "outro" });
+      await Promise.resolve();
+      expect(custom.currentScene?.id).toBe("outro");
+    });
+
+    it("should redraw the stage when rolling back", async () => {
+      renderer.finish();
+      await Promise.resolve();
+      custom.advance();
+      renderer.calls = [];
+
+      custom.back();
+
+      expect(renderer.calls).toEqual([
+        "cancel",
+        "clear",
+        "background park.png",
+        "show Alex",
+        "say Alex: Hi {name}!",
+      ]);
+    });
+
+    it("should clear the dialogue when the story ends", async () => {
+      custom.advance();
+      custom.advance();
+      renderer.pick({ text: "Leave", jumpTo: "outro" });
+      await Promise.resolve();
+      renderer.finish();
+      await Promise.resolve();
+      renderer.calls = [];
+
+      expect(custom.advance()).toBeNull();
+      expect(renderer.calls).toEqual(["clearDialogue"]);
+    });
+  });
+
+  describe("waits", () => {
+    let renderer: RecordingRenderer;
+    let custom: VNEngine;
+
+    /** A line, a 2s wait, an auto-advancing line, a hard 0.5s wait and a last line. */
+    const createWaitScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex");
+      const scene = new Scene("stage");
+      scene.add(alex);
+      alex.say("And the winner is...");
+      scene.wait(2000);
+      alex.say("You!", { autoAdvance: 1000 });
+      scene.wait(500, { skippable: false });
+      alex.say("Done.");
+      story.addScene(scene);
+      return story;
+    };
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      renderer = new RecordingRenderer();
+      custom = new VNEngine({
+        script: createWaitScript(),
+        container: "#missing",
+        startScene: "stage",
+        renderer,
+      });
+      custom.advance();
+      await custom.seenLinesReady;
+      renderer.calls = [];
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should stop at a wait and advance once it is over", async () => {
+      expect(custom.advance()?.type).toBe("wait");
+      expect(custom.isWaiting).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(renderer.calls).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(custom.isWaiting).toBe(false);
+      expect(renderer.calls).toEqual(["say Alex: You!"]);
+    });
+
+    it("should skip a skippable wait when advanced", async () => {
+      custom.advance();
+
+      expect(custom.advance()?.text).toBe("You!");
+      expect(custom.isWaiting).toBe(false);
+      await custom.seenLinesReady;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should auto-advance dialogue once its text is displayed", async () => {
+      custom.advance();
+      custom.advance();
+      renderer.finish();
+      await vi.advanceTimersByTimeAsync(999);
+      expect(custom.currentAction?.text).toBe("You!");
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(custom.currentAction?.type).toBe("wait");
+    });
+
+    it("should start auto-advancing when the text is finished early", async () => {
+      custom.advance();
+      custom.advance();
+      custom.advance();
+      expect(custom.isPresenting).toBe(false);
+      expect(custom.isWaiting).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(custom.currentAction?.type).toBe("wait");
+    });
+
+    it("should not let a click end an unskippable wait", async () => {
+      custom.advance();
+      custom.advance();
+      custom.advance();
+      const hardWait = custom.advance();
+
+      expect(hardWait?.duration).toBe(500);
+      expect(custom.advance()).toBe(hardWait);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(custom.currentAction?.text).toBe("Done.");
+    });
+
+    it("should stop waiting when the story jumps elsewhere", async () => {
+      custom.advance();
+      custom.jumpTo("stage");
+
+      expect(custom.isWaiting).toBe(false);
+      await custom.seenLinesReady;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should leave waits to the caller when headless", async () => {
+      const runner = createHeadlessEngine({ script: createWaitScript(), startScene: "stage" });
+      runner.advance();
+
+      expect(runner.advance()?.type).toBe("wait");
+      expect(runner.isWaiting).toBe(false);
+      expect(runner.advance()?.text).toBe("You!");
+      expect(runner.advance()?.type).toBe("wait");
+      await runner.seenLinesReady;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("auto-play", () => {
+    let renderer: RecordingRenderer;
+    let custom: VNEngine;
+
+    /** Two lines, a choice, and a line after it. */
+    const createAutoScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex");
+      const scene = new Scene("talk");
+      scene.add(alex);
+      alex.say("Hi");
+      alex.say("Hello there");
+      scene.choice([{ text: "Wave" }, { text: "Leave" }]);
+      alex.say("Bye");
+      story.addScene(scene);
+      return story;
+    };
+
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      renderer = new RecordingRenderer();
+      custom = new VNEngine({
+        script: createAutoScript(),
+        container: "#missing",
+        startScene: "talk",
+        renderer,
+        autoPlay: { baseDelay: 100, characterDelay: 10 },
+      });
+      await custom.seenLinesReady;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should be off by default", () => {
+      expect(engine.isAutoPlaying).toBe(false);
+      expect(custom.isAutoPlaying).toBe(false);
+    });
+
+    it("should advance after a delay based on the line's length", async () => {
+      custom.setAutoPlay(true);
+      renderer.finish();
+
+      await vi.advanceTimersByTimeAsync(119);
+      expect(custom.currentAction?.text).toBe("Hi");
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(custom.currentAction?.text).toBe("Hello there");
+
+      renderer.finish();
+      await vi.advanceTimersByTimeAsync(210);
+      expect(custom.currentAction?.type).toBe("choice");
+    });
+
+    it("should start the delay when the text is finished early", async () => {
+      custom.setAutoPlay(true);
+      custom.advance();
+
+      expect(custom.isWaiting).toBe(true);
+      await vi.advanceTimersByTimeAsync(120);
+      expect(custom.currentAction?.text).toBe("Hello there");
+    });
+
+    it("should wait at choices and carry on after one is picked", async () => {
+      custom.setAutoPlay(true);
+      renderer.finish();
+      await vi.advanceTimersByTimeAsync(120);
+      renderer.finish();
+      await vi.advanceTimersByTimeAsync(210);
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(custom.currentAction?.type).toBe("choice");
+      expect(vi.getTimerCount()).toBe(0);
+
+      renderer.pick({ text: "Wave" });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(custom.currentAction?.text).toBe("Bye");
+      expect(custom.isAutoPlaying).toBe(true);
+    });
+
+    it("should start from a displayed line when turned on", async () => {
+      renderer.finish();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(custom.isWaiting).toBe(false);
+
+      custom.setAutoPlay(true);
+      await vi.advanceTimersByTimeAsync(120);
+      expect(custom.currentAction?.text).toBe("Hello there");
+    });
+
+    it("should stop the delay when turned off", async () => {
+      custom.setAutoPlay(true);
+      custom.advance();
+      custom.setAutoPlay(false);
+
+      expect(custom.isWaiting).toBe(false);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(custom.currentAction?.text).toBe("Hi");
+    });
+
+    it("should toggle and emit autoPlayChange events", () => {
+      const listener = vi.fn();
+      custom.on("autoPlayChange", listener);
+
+      expect(custom.toggleAutoPlay()).toBe(true);
+      custom.setAutoPlay(true);
+      expect(custom.toggleAutoPlay()).toBe(false);
+
+      expect(listener.mock.calls.map(([event]) => event.data)).toEqual([
+        { enabled: true },
+        { enabled: false },
+      ]);
+    });
+
+    it("should start turned on when enabled in the options", () => {
+      const runner = new VNEngine({
+        script: createAutoScript(),
+        container: "#missing",
+        startScene: "talk",
+        renderer: new RecordingRenderer(),
+        autoPlay: { enabled: true },
+      });
+      expect(runner.isAutoPlaying).toBe(true);
+    });
+
+    it("should not advance headless engines", async () => {
+      const runner = createHeadlessEngine({
+        script: createAutoScript(),
+        startScene: "talk",
+        autoPlay: { enabled: true },
+      });
+      runner.advance();
+
+      expect(runner.currentAction?.text).toBe("Hi");
+      await runner.seenLinesReady;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should not count markup in the line's length", async () => {
+      const story = new Script();
+      const alex = new Character("Alex");
+      const scene = new Scene("talk");
+      scene.add(alex);
+      alex.say("[b]Hi[/b][wait=500]");
+      alex.say("Bye");
+      story.addScene(scene);
+      const runner = new VNEngine({
+        script: story,
+        container: "#missing",
+        startScene: "talk",
+        renderer,
+        autoPlay: { enabled: true, baseDelay: 100, characterDelay: 10 },
+      });
+      renderer.finish();
+
+      await vi.advanceTimersByTimeAsync(120);
+      expect(runner.currentAction?.text).toBe("Bye");
+    });
+  });
+
+  describe("seen lines and skipping", () => {
+    let storage: MemoryStorageAdapter;
+    let renderer: RecordingRenderer;
+
+    /** Two lines, a choice, a wait and two more lines. */
+    const createRouteScript = (): Script => {
+      const story = new Script();
+      const alex = new Character("Alex");
+      const scene = new Scene("route");
+      scene.add(alex);
+      alex.say("One");
+      alex.say("Two", { id: "two" });
+      scene.choice([{ text: "Go" }]);
+      scene.wait(2000);
+      alex.say("Three");
+      alex.say("Four");
+      story.addScene(scene);
+      return story;
+    };
+
+    /** Plays the route headlessly up to "Three", as an earlier playthrough. */
+    const playUntilThree = async (): Promise<VNEngine> => {
+      const runner = createHeadlessEngine({
+        script: createRouteScript(),
+        startScene: "route",
+        storage,
+      });
+      runner.advance();
+      runner.advance();
+      runner.advance();
+      runner.choose({ text: "Go" });
+      runner.advance();
+      runner.advance();
+      await runner.seenLinesReady;
+      return runner;
+    };
+
+    const createSkipEngine = async (options: Partial<VNEngineOptions> = {}) => {
+      const custom = new VNEngine({
+        script: createRouteScript(),
+        container: "#missing",
+        startScene: "route",
+        renderer,
+        storage,
+        ...options,
+      });
+      await custom.seenLinesReady;
+      renderer.calls = [];
+      return custom;
+    };
+
+    /** Makes reading from storage take 100ms, like a slow storage backend. */
+    const slowDownReads = () => {
+      const get = storage.get.bind(storage);
+      vi.spyOn(storage, "get").mockImplementation(
+        (key) => new Promise((resolve) => setTimeout(() => resolve(get(key)), 100))
+      );
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      storage = new MemoryStorageAdapter();
+      renderer = new RecordingRenderer();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should record displayed lines and choices by scene and action", async () => {
+      const runner = await playUntilThree();
+
+      expect(runner.seenLines.toJSON()).toEqual({ route: [1, "two", 3, 5] });
+      expect(JSON.parse((await storage.get("seen-lines"))!)).toEqual({
+        route: [1, "two", 3, 5],
+      });
+    });
+
+    it("should keep seen lines across playthroughs, apart from saves", async () => {
+      const first = await playUntilThree();
+      await first.save("1");
+
+      const second = createHeadlessEngine({
+        script: createRouteScript(),
+        startScene: "route",
+        storage,
+      });
+      await second.seenLinesReady;
+
+      expect(second.seenLines.has("route", 5)).toBe(true);
+      expect(second.seenLines.has("route", 6)).toBe(false);
+      expect(await second.listSaves()).toEqual(["1"]);
+      expect(JSON.parse((await storage.get("save:1"))!)).not.toHaveProperty("seenLines");
+    });
+
+    it("should write newly seen lines to storage together", async () => {
+      const set = vi.spyOn(storage, "set");
+      const runner = createHeadlessEngine({
+        script: createRouteScript(),
+        startScene: "route",
+        storage,
+      });
+      runner.advance();
+      runner.advance();
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(set).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(set.mock.calls[0][1])).toEqual({ route: [1, "two"] });
+
+      runner.advance();
+      await runner.seenLinesReady;
+      expect(set).toHaveBeenCalledTimes(2);
+    });
+
+    it("should forget seen lines", async () => {
+      const runner = await playUntilThree();
+      await runner.clearSeenLines();
+
+      expect(runner.seenLines.size).toBe(0);
+      expect(await storage.get("seen-lines")).toBeNull();
+    });
+
+    it("should fast-forward through seen lines and stop at the first unseen one", async () => {
+      await playUntilThree();
+      const custom = await createSkipEngine();
+      const changes = vi.fn();
+      custom.on("skipChange", changes);
+
+      custom.setSkipping(true);
+      expect(renderer.calls).toEqual(["cancel"]);
+      await vi.advanceTimersByTimeAsync(50);
+      expect(custom.currentAction?.text).toBe("Two");
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(custom.currentAction?.type).toBe("choice");
+      renderer.pick({ text: "Go" });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(custom.isSkipping).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(custom.currentAction?.text).toBe("Three");
+      await vi.advanceTimersByTimeAsync(50);
+      expect(custom.currentAction?.text).toBe("Four");
+      expect(custom.isSkipping).toBe(false);
+      expect(custom.isPresenting).toBe(true);
+      expect(changes.mock.calls.map(([event]) => event.data)).toEqual([
+        { enabled: true },
+        { enabled: false },
+      ]);
+    });
+
+    it("should stop skipping at an unseen choice", async () => {
+      const custom = await createSkipEngine();
+      custom.setSkipping(true);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(custom.currentAction?.text).toBe("Two");
+      expect(custom.isSkipping).toBe(false);
+    });
+
+    it("should skip unseen lines when configured to", async () => {
+      const custom = await createSkipEngine({ skip: { unseen: true, delay: 10 } });
+      custom.setSkipping(true);
+      await vi.advanceTimersByTimeAsync(20);
+      expect(custom.currentAction?.type).toBe("choice");
+
+      renderer.pick({ text: "Go" });
+      await vi.advanceTimersByTimeAsync(20);
+      expect(custom.currentAction?.text).toBe("Four");
+      expect(custom.isSkipping).toBe(true);
+    });
+
+    it("should wait for seen lines to be read before skipping a line", async () => {
+      await playUntilThree();
+      slowDownReads();
+      const custom = new VNEngine({
+        script: createRouteScript(),
+        container: "#missing",
+        startScene: "route",
+        renderer,
+        storage,
+      });
+      custom.setSkipping(true);
+
+      await vi.advanceTimersByTimeAsync(90);
+      expect(custom.currentAction?.text).toBe("Two");
+      expect(custom.isSkipping).toBe(true);
+      expect(custom.isPresenting).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(60);
+      expect(custom.currentAction?.type).toBe("choice");
+      expect(custom.isSkipping).toBe(true);
+    });
+
+    it("should stop skipping once seen lines are read without the line", async () => {
+      slowDownReads();
+      const custom = new VNEngine({
+        script: createRouteScript(),
+        container: "#missing",
+        startScene: "route",
+        renderer,
+        storage,
+      });
+      custom.setSkipping(true);
+
+      await vi.advanceTimersByTimeAsync(90);
+      expect(custom.isSkipping).toBe(true);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(custom.currentAction?.text).toBe("Two");
+      expect(custom.isSkipping).toBe(false);
+    });
+
+    it("should stop fast-forwarding when turned off", async () => {
+      await playUntilThree();
+      const custom = await createSkipEngine();
+      expect(custom.toggleSkipping()).toBe(true);
+      expect(custom.toggleSkipping()).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(custom.currentAction?.text).toBe("One");
+      expect(custom.isWaiting).toBe(false);
+    });
+  });
+
   describe("getters", () => {
     it("should get script instance", () => {
       expect(engine.script).toBe(script);
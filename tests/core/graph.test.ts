@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { StoryGraph } from "../../src/core/graph.js";
+import { Script, Scene, Character } from "../../src/core/types.js";
+
+/**
+ * intro: Alex and Sam talk, then choose "Go" (to park) or "Stay" (continues)
+ * hallway: continues into park
+ * park: a conditional choice back to "intro", then ends in a choice that always jumps
+ * ending: never reached
+ */
+function createScript(): Script {
+  const alex = new Character("Alex", "alex.png");
+  const sam = new Character("Sam", "sam.png");
+  const script = new Script();
+
+  const intro = new Scene("intro");
+  intro.add(alex);
+  alex.say("Hi!");
+  intro.add(sam);
+  sam.say("Hello.");
+  alex.say("Shall we?");
+  intro.choice([{ text: "Go", jumpTo: "park" }, { text: "Stay" }]);
+  script.addScene(intro);
+
+  const hallway = new Scene("hallway");
+  script.addScene(hallway);
+
+  const park = new Scene("park");
+  park.add(sam);
+  sam.say('Say "cheese"');
+  park.when({ var: "bored" }, () => park.choice([{ text: "Back", jumpTo: "intro" }]));
+  park.choice([{ text: "End", jumpTo: "ending" }, { text: "Nowhere", jumpTo: "missing" }]);
+  script.addScene(park);
+
+  script.addScene(new Scene("ending"));
+  return script;
+}
+
+describe("StoryGraph", () => {
+  it("should build nodes with line counts and characters", () => {
+    const graph = StoryGraph.fromScript(createScript());
+    expect(graph.nodes).toEqual([
+      { id: "intro", lines: 3, characters: ["Alex", "Sam"] },
+      { id: "hallway", lines: 0, characters: [] },
+      { id: "park", lines: 1, characters: ["Sam"] },
+      { id: "ending", lines: 0, characters: [] },
+    ]);
+  });
+
+  it("should build edges for fall-through and choices", () => {
+    const graph = StoryGraph.fromScript(createScript());
+    expect(graph.edges).toEqual([
+      { from: "intro", to: "park", kind: "choice", label: "Go" },
+      { from: "intro", to: "hallway", kind: "next" },
+      { from: "hallway", to: "park", kind: "next" },
+      { from: "park", to: "intro", kind: "choice", label: "Back", conditional: true },
+      { from: "park", to: "ending", kind: "choice", label: "End" },
+    ]);
+  });
+
+  it("should build edges for jumps and stop at unconditional ones", () => {
+    const script = new Script();
+    const intro = new Scene("intro");
+    intro.when({ var: "lost" }, () => intro.jump("maze"));
+    intro.choice([{ text: "Enter", jumpTo: "maze#middle" }, { text: "Wait" }]);
+    intro.jump("maze");
+    script.addScene(intro);
+
+    const maze = new Scene("maze");
+    maze.jump("#middle");
+    maze.label("middle");
+    maze.when({ var: "lost" }, () => maze.jump("missing"));
+    script.addScene(maze);
+
+    const loop = new Scene("loop");
+    loop.label("top");
+    loop.jump("#top");
+    script.addScene(loop);
+    script.addScene(new Scene("ending"));
+
+    expect(StoryGraph.fromScript(script).edges).toEqual([
+      { from: "intro", to: "maze", kind: "jump", conditional: true },
+      { from: "intro", to: "maze", kind: "choice", label: "Enter" },
+      { from: "intro", to: "maze", kind: "jump" },
+      { from: "maze", to: "maze", kind: "jump" },
+      { from: "maze", to: "loop", kind: "next" },
+      { from: "loop", to: "loop", kind: "jump" },
+    ]);
+  });
+
+  it("should find reachable scenes", () => {
+    const script = createScript();
+    script.addScene(new Scene("extra"));
+    const graph = StoryGraph.fromScript(script);
+
+    expect([...graph.reachableFrom("hallway")].sort()).toEqual([
+      "ending",
+      "extra",
+      "hallway",
+      "intro",
+      "park",
+    ]);
+    expect(graph.reachableFrom("missing").size).toBe(0);
+  });
+
+  it("should write Graphviz DOT", () => {
+    expect(StoryGraph.fromScript(createScript()).toDot()).toBe(
+      [
+        "digraph story {",
+        "  node [shape=box];",
+        '  "intro" [label="intro\\n3 lines\\nAlex, Sam"];',
+        '  "hallway" [label="hallway\\n0 lines"];',
+        '  "park" [label="park\\n1 line\\nSam"];',
+        '  "ending" [label="ending\\n0 lines"];',
+        '  "intro" -> "park" [label="Go"];',
+        '  "intro" -> "hallway";',
+        '  "hallway" -> "park";',
+        '  "park" -> "intro" [label="Back", style=dashed];',
+        '  "park" -> "ending" [label="End"];',
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should write a Mermaid flowchart", () => {
+    expect(StoryGraph.fromScript(createScript()).toMermaid()).toBe(
+      [
+        "flowchart TD",
+        '  s0["intro<br/>3 lines<br/>Alex, Sam"]',
+        '  s1["hallway<br/>0 lines"]',
+        '  s2["park<br/>1 line<br/>Sam"]',
+        '  s3["ending<br/>0 lines"]',
+        '  s0 -->|"Go"| s2',
+        "  s0 --> s1",
+        "  s1 --> s2",
+        '  s2 -.->|"Back"| s0',
+        '  s2 -->|"End"| s3',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should escape quotes in labels", () => {
+    const script = new Script();
+    const scene = new Scene('say "hi"');
+    scene.choice([{ text: 'Say "bye"', jumpTo: 'say "hi"' }]);
+    script.addScene(scene);
+    const graph = StoryGraph.fromScript(script);
+
+    expect(graph.toDot()).toContain('"say \\"hi\\"" -> "say \\"hi\\"" [label="Say \\"bye\\""];');
+    expect(graph.toMermaid()).toContain('s0["say #quot;hi#quot;<br/>0 lines"]');
+    expect(graph.toMermaid()).toContain('s0 -->|"Say #quot;bye#quot;"| s0');
+  });
+
+  it("should convert to JSON", () => {
+    const graph = StoryGraph.fromScript(createScript());
+    expect(JSON.parse(JSON.stringify(graph))).toEqual({
+      nodes: graph.nodes,
+      edges: graph.edges,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkup, stripMarkup, markupText } from "../../src/core/markup.js";
+
+describe("parseMarkup", () => {
+  it("should return plain text as a single node", () => {
+    expect(parseMarkup("Hello there")).toEqual([{ type: "text", text: "Hello there" }]);
+    expect(parseMarkup("")).toEqual([]);
+  });
+
+  it("should parse nested tags and their values", () => {
+    expect(parseMarkup("A [b]bold [color=#f00]red[/color][/b] [size=1.5]word[/size]")).toEqual([
+      { type: "text", text: "A " },
+      {
+        type: "tag",
+        tag: "b",
+        children: [
+          { type: "text", text: "bold " },
+          { type: "tag", tag: "color", value: "#f00", children: [{ type: "text", text: "red" }] },
+        ],
+      },
+      { type: "text", text: " " },
+      { type: "tag", tag: "size", value: "1.5", children: [{ type: "text", text: "word" }] },
+    ]);
+  });
+
+  it("should parse waits without a closing tag", () => {
+    expect(parseMarkup("Well...[wait=500] no.")).toEqual([
+      { type: "text", text: "Well..." },
+      { type: "wait", duration: 500 },
+      { type: "text", text: " no." },
+    ]);
+  });
+
+  it("should close tags left open at the end of the line", () => {
+    expect(parseMarkup("[speed=10][i]slow")).toEqual([
+      {
+        type: "tag",
+        tag: "speed",
+        value: "10",
+        children: [{ type: "tag", tag: "i", children: [{ type: "text", text: "slow" }] }],
+      },
+    ]);
+  });
+
+  it("should close inner tags with the tag around them", () => {
+    expect(parseMarkup("[b]one [i]two[/b] three")).toEqual([
+      {
+        type: "tag",
+        tag: "b",
+        children: [
+          { type: "text", text: "one " },
+          { type: "tag", tag: "i", children: [{ type: "text", text: "two" }] },
+        ],
+      },
+      { type: "text", text: " three" },
+    ]);
+  });
+
+  it("should keep unknown, invalid and unmatched tags as text", () => {
+    const text =
+      "[sic] [u]x[/u] [b=1]x [color=red;background:url(x)]x [size=big]x [wait=0] [/i] [/wait]";
+    expect(parseMarkup(text)).toEqual([{ type: "text", text }]);
+  });
+
+  it("should accept named, rgb and hsl colors", () => {
+    for (const color of ["red", "#ff000080", "rgb(255, 0, 0)", "hsla(0, 100%, 50%, 0.5)"]) {
+      expect(parseMarkup(`[color=${color}]x`)[0]).toMatchObject({ tag: "color", value: color });
+    }
+  });
+
+  it("should turn doubled brackets into literal ones", () => {
+    expect(parseMarkup("[[b]] is bold")).toEqual([{ type: "text", text: "[b] is bold" }]);
+  });
+
+  it("should leave HTML as text", () => {
+    expect(parseMarkup("<b>hi</b>")).toEqual([{ type: "text", text: "<b>hi</b>" }]);
+  });
+});
+
+describe("stripMarkup", () => {
+  it("should remove tags and keep the text", () => {
+    expect(stripMarkup("It's [b]huge[/b]![wait=300] [[sic]] [shake]Oh.")).toBe(
+      "It's huge! [sic] Oh."
+    );
+  });
+
+  it("should join the text of parsed nodes", () => {
+    expect(markupText(parseMarkup("[i]a[/i]b[speed=5]c"))).toBe("abc");
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  SaveMigrations,
+  SaveMigrationError,
+  SAVE_SCHEMA_VERSION,
+} from "../../src/core/save.js";
+import type { SaveData } from "../../src/core/types.js";
+
+function createSave(storyVersion?: string): SaveData {
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    storyVersion,
+    timestamp: 0,
+    state: {
+      variables: { affection: 3 },
+      _currentSceneId: "scene1",
+      sceneHistory: [],
+      callStack: [],
+    },
+    stage: { actionIndex: 2, characters: [] },
+    backlog: [],
+  };
+}
+
+describe("SaveMigrations", () => {
+  it("should return up-to-date saves unchanged", () => {
+    const save = createSave("1.0");
+    expect(new SaveMigrations().migrate(save, "1.0")).toBe(save);
+  });
+
+  it("should stamp saves without a schema version with the current one", () => {
+    const { schemaVersion, ...legacy } = createSave();
+    const migrated = new SaveMigrations().migrate(legacy as SaveData);
+    expect(migrated.schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect("schemaVersion" in legacy).toBe(false);
+  });
+
+  it("should add an empty backlog to format 1 saves", () => {
+    const { backlog, ...legacy } = createSave();
+    const migrated = new SaveMigrations().migrate({
+      ...legacy,
+      schemaVersion: 1,
+    } as SaveData);
+    expect(migrated.schemaVersion).toBe(3);
+    expect(migrated.backlog).toEqual([]);
+  });
+
+  it("should add an empty call stack to format 2 saves", () => {
+    const save = createSave();
+    const { callStack, ...state } = save.state;
+    const migrated = new SaveMigrations().migrate({
+      ...save,
+      schemaVersion: 2,
+      state,
+    } as SaveData);
+    expect(migrated.schemaVersion).toBe(3);
+    expect(migrated.state.callStack).toEqual([]);
+    expect(migrated.state.variables).toEqual({ affection: 3 });
+  });
+
+  it("should chain story migrations and record the new version", () => {
+    const migrations = new SaveMigrations([
+      {
+        from: "1.0",
+        to: "1.1",
+        migrate: (data) => {
+          data.state.variables.trust = data.state.variables.affection;
+          delete data.state.variables.affection;
+          return data;
+        },
+      },
+      {
+        from: "1.1",
+        to: "2.0",
+        migrate: (data) => {
+          data.state.variables.trust *= 10;
+          return data;
+        },
+      },
+    ]);
+
+    const save = createSave("1.0");
+    const migrated = migrations.migrate(save, "2.0");
+    expect(migrated.storyVersion).toBe("2.0");
+    expect(migrated.state.variables).toEqual({ trust: 30 });
+    expect(save.state.variables).toEqual({ affection: 3 });
+  });
+
+  it("should migrate saves without a story version", () => {
+    const migrations = new SaveMigrations();
+    migrations.register({ to: "1.0", migrate: (data) => data });
+    expect(migrations.migrate(createSave(), "1.0").storyVersion).toBe("1.0");
+  });
+
+  it("should throw when a migration is registered twice", () => {
+    const migrations = new SaveMigrations([
+      { from: "1.0", to: "1.1", migrate: (data) => data },
+    ]);
+    expect(() =>
+      migrations.register({ from: "1.0", to: "2.0", migrate: (data) => data })
+    ).toThrow('Migration from story version "1.0" already exists');
+  });
+
+  it("should throw SaveMigrationError when no migration path exists", () => {
+    const migrations = new SaveMigrations([
+      { from: "1.0", to: "1.1", migrate: (data) => data },
+    ]);
+
+    try {
+      migrations.migrate(createSave("1.0"), "2.0");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SaveMigrationError);
+      const migrationError = error as SaveMigrationError;
+      expect(migrationError.name).toBe("SaveMigrationError");
+      expect(migrationError.message).toBe(
+        'No migration path from story version "1.1" to "2.0"'
+      );
+      expect(migrationError.fromVersion).toBe("1.1");
+      expect(migrationError.toVersion).toBe("2.0");
+    }
+  });
+
+  it("should not loop forever on cyclic migrations", () => {
+    const migrations = new SaveMigrations([
+      { from: "a", to: "b", migrate: (data) => data },
+      { from: "b", to: "a", migrate: (data) => data },
+    ]);
+    expect(() => migrations.migrate(createSave("a"), "c")).toThrow(
+      SaveMigrationError
+    );
+  });
+
+  it("should wrap errors thrown by migrations", () => {
+    const failure = new Error("bad data");
+    const migrations = new SaveMigrations([
+      {
+        from: "1.0",
+        to: "1.1",
+        migrate: () => {
+          throw failure;
+        },
+      },
+    ]);
+
+    try {
+      migrations.migrate(createSave("1.0"), "1.1");
+      expect.unreachable();
+    } catch (error) {
+      const migrationError = error as SaveMigrationError;
+      expect(migrationError).toBeInstanceOf(SaveMigrationError);
+      expect(migrationError.message).toBe(
+        'Failed to migrate save from version "1.0" to "1.1": bad data'
+      );
+      expect(migrationError.cause).toBe(failure);
+    }
+  });
+
+  it("should reject saves from a newer schema version", () => {
+    const save = { ...createSave(), schemaVersion: SAVE_SCHEMA_VERSION + 1 };
+    expect(() => new SaveMigrations().migrate(save)).toThrow(
+      "Save was created by a newer version of the engine"
+    );
+  });
+});
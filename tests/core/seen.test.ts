@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { SeenLines } from "../../src/core/seen.js";
+
+describe("SeenLines", () => {
+  it("should start empty", () => {
+    const seen = new SeenLines();
+    expect(seen.size).toBe(0);
+    expect(seen.has("park", 0)).toBe(false);
+  });
+
+  it("should add lines by scene and key", () => {
+    const seen = new SeenLines();
+    expect(seen.add("park", 2)).toBe(true);
+    expect(seen.add("park", 2)).toBe(false);
+    seen.add("park", "greeting");
+    seen.add("cafe", 2);
+
+    expect(seen.has("park", 2)).toBe(true);
+    expect(seen.has("park", "greeting")).toBe(true);
+    expect(seen.has("cafe", "greeting")).toBe(false);
+    expect(seen.size).toBe(3);
+  });
+
+  it("should key actions by ID, or by index without one", () => {
+    expect(SeenLines.keyOf({ id: "greeting" }, 3)).toBe("greeting");
+    expect(SeenLines.keyOf({}, 3)).toBe(3);
+  });
+
+  it("should tell index and ID keys apart", () => {
+    const seen = new SeenLines();
+    seen.add("park", 1);
+    expect(seen.has("park", "1")).toBe(false);
+  });
+
+  it("should convert to JSON and merge it back", () => {
+    const seen = new SeenLines();
+    seen.add("park", 0);
+    seen.add("park", "greeting");
+    seen.add("cafe", 4);
+    expect(JSON.parse(JSON.stringify(seen))).toEqual({ park: [0, "greeting"], cafe: [4] });
+
+    const copy = new SeenLines();
+    copy.add("park", 9);
+    copy.merge(seen.toJSON());
+    expect(copy.toJSON()).toEqual({ park: [9, 0, "greeting"], cafe: [4] });
+  });
+
+  it("should clear all lines", () => {
+    const seen = new SeenLines();
+    seen.add("park", 0);
+    seen.clear();
+    expect(seen.size).toBe(0);
+    expect(seen.toJSON()).toEqual({});
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { Stage } from "../../src/core/stage.js";
+import { Character, Scene } from "../../src/core/types.js";
+
+describe("Stage", () => {
+  it("should start empty", () => {
+    const stage = new Stage();
+    expect(stage.background).toBeUndefined();
+    expect(stage.characters).toEqual([]);
+  });
+
+  it("should keep position and size when a character is shown again", () => {
+    const stage = new Stage();
+    const alex = new Character("Alex", "alex.png");
+
+    stage.show(alex, "left", { width: 0.3 });
+    stage.hide(alex);
+    stage.show(alex);
+
+    expect(stage.getCharacter(alex)).toEqual({
+      name: "Alex",
+      image: "alex.png",
+      position: "left",
+      size: { width: 0.3 },
+      visible: true,
+    });
+  });
+
+  it("should ignore hide and setImage for characters that were never shown", () => {
+    const stage = new Stage();
+    const alex = new Character("Alex");
+
+    stage.hide(alex);
+    stage.setImage(alex, "alex-happy.png");
+
+    expect(stage.getCharacter(alex)).toBeUndefined();
+  });
+
+  it("should return copies of character state", () => {
+    const stage = new Stage();
+    const alex = new Character("Alex");
+    stage.show(alex);
+
+    stage.characters[0].visible = false;
+    stage.entries[0].state.visible = false;
+
+    expect(stage.getCharacter(alex)?.visible).toBe(true);
+  });
+
+  it("should remove characters but keep the background when cleared", () => {
+    const stage = new Stage();
+    stage.background = "park.png";
+    stage.show(new Character("Alex"));
+
+    stage.clear();
+
+    expect(stage.characters).toEqual([]);
+    expect(stage.background).toBe("park.png");
+  });
+
+  it("should restore characters by name from the scene's actions", () => {
+    const scene = new Scene("park");
+    const alex = new Character("Alex", "alex.png");
+    scene.add(alex);
+    const stage = new Stage();
+
+    stage.restore(
+      {
+        actionIndex: 0,
+        background: "park.png",
+        characters: [
+          { name: "Alex", image: "alex-happy.png", visible: false },
+          { name: "Removed", visible: true },
+        ],
+      },
+      scene
+    );
+
+    expect(stage.background).toBe("park.png");
+    expect(stage.entries).toEqual([
+      {
+        character: alex,
+        state: { name: "Alex", image: "alex-happy.png", visible: false },
+      },
+    ]);
+  });
+});
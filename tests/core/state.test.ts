@@ -113,4 +113,86 @@ describe("StateManager", () => {
       expect(stateCopy.variables).toBe(stateWithData.state.variables);
     });
   });
+
+  describe("call stack", () => {
+    const frame = {
+      sceneId: "scene1",
+      stage: {
+        actionIndex: 2,
+        background: "park.png",
+        characters: [{ name: "Alex", visible: true }],
+      },
+    };
+
+    it("should start empty", () => {
+      expect(new StateManager("scene1").callStack).toEqual([]);
+    });
+
+    it("should pop callers innermost first", () => {
+      const manager = new StateManager("scene1");
+      manager.pushCall(frame);
+      manager.pushCall({ ...frame, sceneId: "scene2" });
+
+      expect(manager.callStack.map((f) => f.sceneId)).toEqual(["scene1", "scene2"]);
+      expect(manager.popCall()?.sceneId).toBe("scene2");
+      expect(manager.popCall()).toEqual(frame);
+      expect(manager.popCall()).toBeUndefined();
+    });
+
+    it("should not share frames with callers", () => {
+      const manager = new StateManager("scene1");
+      manager.pushCall(frame);
+      manager.callStack[0].stage.characters[0].visible = false;
+
+      expect(manager.popCall()).toEqual(frame);
+      expect(frame.stage.characters[0].visible).toBe(true);
+    });
+
+    it("should restore the call stack, defaulting to empty", () => {
+      const manager = new StateManager();
+      manager.restore({
+        variables: {},
+        _currentSceneId: "scene2",
+        sceneHistory: ["scene1"],
+        callStack: [frame],
+      });
+      expect(manager.callStack).toEqual([frame]);
+
+      manager.restore({ variables: {}, _currentSceneId: "scene1", sceneHistory: [] } as any);
+      expect(manager.callStack).toEqual([]);
+    });
+  });
+
+  describe("restore", () => {
+    it("should replace variables, current scene and history", () => {
+      const manager = new StateManager("scene1");
+      manager.setVariable("old", true);
+
+      manager.restore({
+        variables: { gold: 10 },
+        _currentSceneId: "scene3",
+        sceneHistory: ["scene1", "scene2"],
+      });
+
+      expect(manager.allVariables).toEqual({ gold: 10 });
+      expect(manager.currentSceneId).toBe("scene3");
+      expect(manager.sceneHistory).toEqual(["scene1", "scene2"]);
+    });
+
+    it("should copy the restored state", () => {
+      const manager = new StateManager();
+      const saved = {
+        variables: { gold: 10 },
+        _currentSceneId: "scene1",
+        sceneHistory: [],
+      };
+
+      manager.restore(saved);
+      manager.setVariable("gold", 20);
+      manager.currentSceneId = "scene2";
+
+      expect(saved.variables.gold).toBe(10);
+      expect(saved.sceneHistory).toEqual([]);
+    });
+  });
 });
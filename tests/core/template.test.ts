@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { interpolate, defaultFormatters } from "../../src/core/template.js";
+
+describe("interpolate", () => {
+  const variables = {
+    playerName: "Alex",
+    gold: 1234.5,
+    count: 1,
+    player: { name: "Sam", stats: { level: 3 } },
+    party: ["Alex", "Sam"],
+    zero: 0,
+  };
+
+  describe("placeholders", () => {
+    it("should replace simple placeholders", () => {
+      expect(interpolate("Welcome back, {playerName}!", variables)).toBe(
+        "Welcome back, Alex!"
+      );
+    });
+
+    it("should resolve nested paths", () => {
+      expect(interpolate("{player.name} is level {player.stats.level}", variables)).toBe(
+        "Sam is level 3"
+      );
+      expect(interpolate("{party.1}", variables)).toBe("Sam");
+    });
+
+    it("should print falsy values", () => {
+      expect(interpolate("{zero}", variables)).toBe("0");
+    });
+
+    it("should ignore whitespace inside placeholders", () => {
+      expect(interpolate("{ playerName | upper }", variables)).toBe("ALEX");
+    });
+
+    it("should leave text without placeholders untouched", () => {
+      expect(interpolate("Just text.", variables)).toBe("Just text.");
+    });
+
+    it("should turn doubled braces into literal braces", () => {
+      expect(interpolate("{{playerName}} is {playerName}", variables)).toBe(
+        "{playerName} is Alex"
+      );
+    });
+  });
+
+  describe("missing variables", () => {
+    it("should leave missing placeholders as written and report them", () => {
+      const onMissing = vi.fn();
+      const result = interpolate("Hi {nobody}, {player.age}", variables, { onMissing });
+
+      expect(result).toBe("Hi {nobody}, {player.age}");
+      expect(onMissing).toHaveBeenCalledWith("nobody");
+      expect(onMissing).toHaveBeenCalledWith("player.age");
+    });
+
+    it("should treat paths through missing objects as missing", () => {
+      const onMissing = vi.fn();
+      expect(interpolate("{a.b.c}", variables, { onMissing })).toBe("{a.b.c}");
+      expect(onMissing).toHaveBeenCalledWith("a.b.c");
+    });
+  });
+
+  describe("formatters", () => {
+    it("should format numbers", () => {
+      expect(interpolate("{gold|number:2}", variables)).toBe(
+        (1234.5).toLocaleString(undefined, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })
+      );
+    });
+
+    it("should pick plural forms and substitute the value", () => {
+      expect(interpolate("{count|plural:# coin:# coins}", variables)).toBe("1 coin");
+      expect(interpolate("{count|plural:# coin:# coins}", { count: 4 })).toBe("4 coins");
+    });
+
+    it("should chain formatters", () => {
+      expect(interpolate("{player.name|upper|lower}", variables)).toBe("sam");
+    });
+
+    it("should use custom formatters before built-in ones", () => {
+      const formatters = {
+        upper: (value: any) => `<${value}>`,
+        reverse: (value: any) => String(value).split("").reverse().join(""),
+      };
+      expect(interpolate("{playerName|reverse|upper}", variables, { formatters })).toBe(
+        "<xelA>"
+      );
+    });
+
+    it("should throw error for unknown formatters", () => {
+      expect(() => interpolate("{playerName|shout}", variables)).toThrow(
+        'Unknown formatter "shout" in "{playerName|shout}"'
+      );
+    });
+
+    it("should expose the built-in formatters", () => {
+      expect(Object.keys(defaultFormatters)).toEqual(["number", "plural", "upper", "lower"]);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
+import { readFileSync } from "node:fs";
 import { Character, Scene, Script } from "../../src/core/types.js";
+import type { ScriptJSON } from "../../src/core/types.js";
 
 describe("Character", () => {
   let character: Character;
@@ -290,6 +292,125 @@ describe("Scene", () => {
       actions1.push({ type: "dialogue", character, text: "Test" });
       expect(scene.actions.length).toBe(1);
     });
+
+    it("should queue choice action", () => {
+      scene.choice([
+        { text: "Go left", jumpTo: "left" },
+        { text: "Stay", set: { stayed: true } },
+      ]);
+
+      const action = scene.actions[1];
+      expect(action.type).toBe("choice");
+      expect(action.choices).toHaveLength(2);
+      expect(action.choices?.[0].jumpTo).toBe("left");
+      expect(action.choices?.[1].set).toEqual({ stayed: true });
+    });
+
+    it("should attach condition to actions queued in a when() block", () => {
+      scene.when({ var: "hasKey" }, () => {
+        character.say("Unlocked");
+        character.hide();
+      });
+      character.say("Always");
+
+      const actions = scene.actions;
+      expect(actions[1].condition).toEqual({ var: "hasKey" });
+      expect(actions[2].condition).toEqual({ var: "hasKey" });
+      expect(actions[3].condition).toBeUndefined();
+    });
+
+    it("should combine nested when() conditions with the action's own", () => {
+      scene.when({ var: "a" }, () => {
+        scene.when({ var: "b" }, () => {
+          scene.addAction({ type: "hide", character, condition: { var: "c" } });
+        });
+      });
+
+      expect(scene.actions[1].condition).toEqual({
+        all: [{ var: "a" }, { var: "b" }, { var: "c" }],
+      });
+    });
+
+    it("should stop applying the when() condition if the block throws", () => {
+      expect(() =>
+        scene.when({ var: "a" }, () => {
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+      character.say("After");
+      expect(scene.actions[1].condition).toBeUndefined();
+    });
+
+    it("should queue setVariable action", () => {
+      const updater = (v: number) => v + 1;
+      scene.set("flag", true);
+      scene.set("trust", updater);
+
+      expect(scene.actions[1]).toEqual({ type: "setVariable", key: "flag", value: true });
+      expect(scene.actions[2].value).toBe(updater);
+    });
+
+    it("should queue incrementVariable action with default amount", () => {
+      scene.increment("trust");
+      scene.increment("gold", -5);
+
+      expect(scene.actions[1]).toEqual({ type: "incrementVariable", key: "trust", amount: 1 });
+      expect(scene.actions[2].amount).toBe(-5);
+    });
+
+    it("should queue return action", () => {
+      scene.when({ var: "done" }, () => scene.return());
+
+      expect(scene.actions[1]).toEqual({ type: "return", condition: { var: "done" } });
+    });
+
+    it("should queue label and jump actions", () => {
+      scene.label("ask");
+      scene.jump("#ask");
+
+      expect(scene.actions.slice(1)).toEqual([
+        { type: "label", label: "ask" },
+        { type: "jump", jumpTo: "#ask" },
+      ]);
+      expect(scene.findLabel("ask")).toBe(1);
+      expect(scene.findLabel("missing")).toBe(-1);
+    });
+
+    it("should queue wait action", () => {
+      scene.wait(1500);
+      scene.wait(500, { skippable: false });
+
+      expect(scene.actions[1]).toEqual({ type: "wait", duration: 1500 });
+      expect(scene.actions[2]).toEqual({ type: "wait", duration: 500, skippable: false });
+    });
+
+    it("should throw on duplicate labels", () => {
+      scene.label("ask");
+      expect(() => scene.label("ask")).toThrow(
+        'Label "ask" already exists in scene "scene1"'
+      );
+    });
+
+    it("should use the dialogue option id as the action id", () => {
+      character.say("Hello", { id: "greeting" });
+      scene.choice([{ text: "Hi" }], { id: "reply" });
+
+      expect(scene.actions[1].id).toBe("greeting");
+      expect(scene.actions[2].id).toBe("reply");
+    });
+
+    it("should throw error when adding a duplicate action id", () => {
+      character.say("Hello", { id: "greeting" });
+      expect(() => character.say("Hello again", { id: "greeting" })).toThrow(
+        'Action with id "greeting" already exists in scene "scene1"'
+      );
+    });
+
+    it("should throw error when choice has no options", () => {
+      expect(() => scene.choice([])).toThrow(
+        'Choice in scene "scene1" must have at least one option'
+      );
+    });
   });
 });
 
@@ -371,6 +492,12 @@ describe("Script", () => {
     it("should return -1 for non-existent scene index", () => {
       expect(script.getSceneIndex("nonexistent")).toBe(-1);
     });
+
+    it("should parse jump targets", () => {
+      expect(Script.parseTarget("shop")).toEqual({ sceneId: "shop" });
+      expect(Script.parseTarget("shop#buy")).toEqual({ sceneId: "shop", label: "buy" });
+      expect(Script.parseTarget("#buy", "shop")).toEqual({ sceneId: "shop", label: "buy" });
+    });
   });
 
   describe("return value immutability", () => {
@@ -386,4 +513,156 @@ describe("Script", () => {
       expect(script.scenes.length).toBe(1);
     });
   });
+
+  describe("JSON format", () => {
+    const story: ScriptJSON = {
+      characters: [
+        { name: "Alex", image: "alex.png", position: "left" },
+        { name: "Sam" },
+      ],
+      scenes: [
+        {
+          id: "park",
+          background: "park.png",
+          actions: [
+            { type: "show", character: "Alex", position: "left" },
+            { type: "dialogue", character: "Alex", text: "Hi!", effect: "typewriter", id: "hi" },
+            { type: "setImage", character: "Alex", image: "alex-happy.png" },
+            { type: "dialogue", character: "Sam", text: "Gold!", condition: { var: "gold", gte: 1 } },
+            { type: "hide", character: "Alex" },
+            { type: "setVariable", key: "met", value: true },
+            { type: "incrementVariable", key: "gold", amount: 2 },
+            {
+              type: "choice",
+              id: "pick",
+              choices: [{ text: "Go", jumpTo: "home", set: { left: true } }, { text: "Stay" }],
+            },
+          ],
+        },
+        {
+          id: "home",
+          actions: [
+            { type: "label", label: "top" },
+            { type: "wait", duration: 500, skippable: false },
+            { type: "dialogue", character: "Sam", text: "Home.", autoAdvance: 1500 },
+            { type: "jump", jumpTo: "#top", condition: { var: "lost" } },
+            { type: "return" },
+          ],
+        },
+      ],
+    };
+
+    it("should build real characters, scenes and actions", () => {
+      const loaded = Script.fromJSON(story);
+
+      expect(loaded.scenes.map((scene) => scene.id)).toEqual(["park", "home"]);
+      const park = loaded.getScene("park")!;
+      expect(park).toBeInstanceOf(Scene);
+      expect(park.options).toEqual({ background: "park.png" });
+
+      const [show, hi, image, gold] = park.actions;
+      expect(show.character).toBeInstanceOf(Character);
+      expect(show.character?.image).toBe("alex.png");
+      expect(show.character?.position).toBe("left");
+      expect(hi).toEqual({
+        type: "dialogue",
+        character: show.character,
+        text: "Hi!",
+        id: "hi",
+        options: { effect: "typewriter", id: "hi" },
+      });
+      expect(image.character).toBe(show.character);
+      expect(gold.condition).toEqual({ var: "gold", gte: 1 });
+      expect(loaded.getScene("home")!.actions[2].options).toEqual({ autoAdvance: 1500 });
+    });
+
+    it("should accept a JSON string", () => {
+      const loaded = Script.fromJSON(JSON.stringify(story));
+      expect(loaded.getScene("park")?.actions).toHaveLength(8);
+    });
+
+    it("should round-trip through toJSON()", () => {
+      expect(Script.fromJSON(story).toJSON()).toEqual(story);
+      expect(JSON.parse(JSON.stringify(Script.fromJSON(story)))).toEqual(story);
+    });
+
+    it("should export scripts built in code", () => {
+      const alex = new Character("Alex", "alex.png");
+      const park = new Scene("park");
+      park.add(alex, { position: "right" });
+      alex.say("Hello!", { effect: "fade" });
+      park.when({ var: "met" }, () => alex.say("Again!"));
+      script.addScene(park);
+
+      expect(script.toJSON()).toEqual({
+        characters: [{ name: "Alex", image: "alex.png" }],
+        scenes: [
+          {
+            id: "park",
+            actions: [
+              { type: "show", character: "Alex", position: "right" },
+              { type: "dialogue", character: "Alex", text: "Hello!", effect: "fade" },
+              { type: "dialogue", character: "Alex", text: "Again!", condition: { var: "met" } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should throw on undeclared characters and unknown action types", () => {
+      expect(() =>
+        Script.fromJSON({
+          characters: [],
+          scenes: [{ id: "park", actions: [{ type: "hide", character: "Alex" }] }],
+        })
+      ).toThrow('Character "Alex" in scene "park" is not declared');
+      expect(() =>
+        Script.fromJSON({
+          characters: [],
+          scenes: [{ id: "park", actions: [{ type: "dance" as any }] }],
+        })
+      ).toThrow('Unknown action type "dance" in scene "park"');
+    });
+
+    it("should refuse to export functions", () => {
+      scene1.when(() => true, () => scene1.set("a", 1));
+      script.addScene(scene1);
+      expect(() => script.toJSON()).toThrow(
+        'Cannot convert a function condition in scene "scene1" to JSON'
+      );
+
+      const other = new Script();
+      scene2.set("count", (count: number) => count + 1);
+      other.addScene(scene2);
+      expect(() => other.toJSON()).toThrow(
+        'Cannot convert a function value for "count" in scene "scene2" to JSON'
+      );
+    });
+
+    it("should refuse to export two characters with the same name", () => {
+      scene1.add(new Character("Alex"));
+      scene1.add(new Character("Alex"));
+      script.addScene(scene1);
+      expect(() => script.toJSON()).toThrow('Two different characters are named "Alex"');
+    });
+
+    it("should ship a schema listing every action type", () => {
+      const schema = JSON.parse(
+        readFileSync("schema/script.schema.json", "utf8")
+      );
+      expect(schema.definitions.action.properties.type.enum).toEqual([
+        "dialogue",
+        "show",
+        "hide",
+        "setImage",
+        "choice",
+        "setVariable",
+        "incrementVariable",
+        "return",
+        "label",
+        "jump",
+        "wait",
+      ]);
+    });
+  });
 });
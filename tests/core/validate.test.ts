@@ -0,0 +1,256 @@
+import { describe, it, expect } from "vitest";
+import { validateScript } from "../../src/core/validate.js";
+import { Script, Scene, Character, NAMED_POSITIONS } from "../../src/core/types.js";
+
+/** Builds a script whose scenes are given as id/build pairs. */
+function createScript(...scenes: [string, (scene: Scene) => void, string?][]): Script {
+  const script = new Script();
+  for (const [id, build, background] of scenes) {
+    const scene = new Scene(id, background ? { background } : {});
+    build(scene);
+    script.addScene(scene);
+  }
+  return script;
+}
+
+describe("validateScript", () => {
+  it("should report nothing for a valid script", () => {
+    const alex = new Character("Alex", "alex.png");
+    const script = createScript(
+      ["intro", (scene) => {
+        scene.add(alex, { position: "left" });
+        alex.say("Hello!");
+        scene.choice([{ text: "Go", jumpTo: "park" }, { text: "Stay" }]);
+        alex.hide();
+      }, "room.png"],
+      ["park", (scene) => {
+        scene.add(alex);
+        scene.addAction({ type: "setImage", character: alex, image: "alex-happy.png" });
+      }, "park.png"]
+    );
+
+    expect(
+      validateScript(script, {
+        startScene: "intro",
+        assets: ["room.png", "park.png", "alex.png", "alex-happy.png"],
+      })
+    ).toEqual([]);
+  });
+
+  it("should report an unknown start scene", () => {
+    const script = createScript(["intro", () => {}]);
+    expect(validateScript(script, { startScene: "missing" })).toEqual([
+      {
+        severity: "error",
+        code: "unknown-start-scene",
+        message: `Start scene "missing" not found`,
+      },
+      {
+        severity: "warning",
+        code: "unreachable-scene",
+        message: `Scene "intro" cannot be reached from the start scene`,
+        sceneId: "intro",
+      },
+    ]);
+  });
+
+  it("should report scenes that no path reaches", () => {
+    const script = createScript(
+      ["intro", (scene) => scene.choice([{ text: "A", jumpTo: "a" }, { text: "C", jumpTo: "c" }])],
+      ["a", (scene) => scene.choice([{ text: "C", jumpTo: "c" }])],
+      ["b", () => {}],
+      ["c", () => {}],
+      ["d", () => {}]
+    );
+    const issues = validateScript(script);
+    expect(issues.map((issue) => [issue.code, issue.sceneId])).toEqual([
+      ["unreachable-scene", "b"],
+    ]);
+  });
+
+  it("should let conditional and partial choices continue into the next scene", () => {
+    const script = createScript(
+      ["intro", (scene) => {
+        scene.addAction({
+          type: "choice",
+          choices: [{ text: "Leave", jumpTo: "end" }],
+          condition: { var: "bored" },
+        });
+      }],
+      ["middle", (scene) => scene.choice([{ text: "Leave", jumpTo: "end" }, { text: "Stay" }])],
+      ["next", () => {}],
+      ["end", () => {}]
+    );
+    expect(validateScript(script)).toEqual([]);
+  });
+
+  it("should report jumps to unknown scenes", () => {
+    const script = createScript([
+      "intro",
+      (scene) => scene.choice([{ text: "Go", jumpTo: "alley" }], { id: "pick" }),
+    ]);
+    expect(validateScript(script)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-jump-target",
+        message: `Choice "Go" jumps to unknown scene "alley"`,
+        sceneId: "intro",
+        actionIndex: 0,
+        actionId: "pick",
+      },
+    ]);
+  });
+
+  it("should report jumps to unknown labels", () => {
+    const script = createScript(
+      ["intro", (scene) => {
+        scene.label("top");
+        scene.choice([{ text: "Again", jumpTo: "#top" }, { text: "Skip", jumpTo: "#bottom" }]);
+        scene.jump("next#middle");
+        scene.jump("nowhere");
+      }],
+      ["next", (scene) => scene.label("start")]
+    );
+    expect(validateScript(script).map((issue) => [issue.actionIndex, issue.message])).toEqual([
+      [1, `Choice "Skip" jumps to unknown label "bottom" in scene "intro"`],
+      [2, `Jump to unknown label "middle" in scene "next"`],
+      [3, `Jump to unknown scene "nowhere"`],
+    ]);
+  });
+
+  it("should report hiding and changing the image of characters not shown in the scene", () => {
+    const alex = new Character("Alex", "alex.png");
+    const script = createScript(
+      ["intro", (scene) => {
+        scene.add(alex);
+        alex.hide();
+        alex.hide();
+      }],
+      ["park", (scene) => {
+        scene.addAction({ type: "setImage", character: alex, image: "alex-sad.png" });
+        scene.addAction({ type: "show", character: alex, condition: { var: "met" } });
+        scene.addAction({ type: "setImage", character: alex, image: "alex-happy.png" });
+      }]
+    );
+
+    expect(validateScript(script)).toEqual([
+      {
+        severity: "warning",
+        code: "hide-before-show",
+        message: `"Alex" is hidden before being shown in scene "intro"`,
+        sceneId: "intro",
+        actionIndex: 2,
+      },
+      {
+        severity: "warning",
+        code: "set-image-before-show",
+        message: `Image of "Alex" is changed before being shown in scene "park"`,
+        sceneId: "park",
+        actionIndex: 0,
+      },
+    ]);
+  });
+
+  it("should report assets missing from the manifest", () => {
+    const alex = new Character("Alex", "alex.png");
+    const sam = new Character("Sam", "https://example.com/sam.png");
+    const script = createScript(
+      ["intro", (scene) => {
+        scene.add(alex);
+        scene.add(sam);
+        scene.addAction({ type: "setImage", character: alex, image: "alex-happy.png" });
+        scene.add(alex);
+      }, "room.png"]
+    );
+
+    expect(validateScript(script, { assets: new Set(["room.png"]) })).toEqual([
+      {
+        severity: "error",
+        code: "missing-asset",
+        message: `Image "alex.png" of "Alex" is not in the asset manifest`,
+        sceneId: "intro",
+        actionIndex: 0,
+      },
+      {
+        severity: "error",
+        code: "missing-asset",
+        message: `Image "alex-happy.png" of "Alex" is not in the asset manifest`,
+        sceneId: "intro",
+        actionIndex: 2,
+      },
+    ]);
+    expect(validateScript(script)).toEqual([]);
+  });
+
+  it("should report missing backgrounds", () => {
+    const script = createScript(["intro", () => {}, "room.png"]);
+    expect(validateScript(script, { assets: [] })).toEqual([
+      {
+        severity: "error",
+        code: "missing-asset",
+        message: `Background "room.png" is not in the asset manifest`,
+        sceneId: "intro",
+      },
+    ]);
+  });
+
+  it("should report unknown named positions", () => {
+    const alex = new Character("Alex");
+    alex.position = "middle" as any;
+    const sam = new Character("Sam");
+    const script = createScript([
+      "intro",
+      (scene) => {
+        scene.add(alex);
+        scene.add(sam, { position: "upper" as any });
+        scene.add(sam, { position: { x: 0.5 } });
+        scene.add(sam, { position: "top-right" });
+        scene.add(sam, { position: "bottom" });
+      },
+    ]);
+
+    const positions = NAMED_POSITIONS.join(", ");
+    expect(validateScript(script).map((issue) => issue.message)).toEqual([
+      `Unknown position "middle" for "Alex"; expected one of ${positions}`,
+      `Unknown position "upper" for "Sam"; expected one of ${positions}`,
+    ]);
+  });
+
+  it("should report dialogue the engine skips", () => {
+    const alex = new Character("Alex");
+    const script = createScript([
+      "intro",
+      (scene) => {
+        scene.add(alex);
+        alex.say("");
+        scene.addAction({ type: "dialogue" });
+        scene.addAction({ type: "dialogue", text: "Who said that?" });
+        alex.say("   ");
+      },
+    ]);
+
+    expect(validateScript(script)).toEqual([
+      {
+        severity: "warning",
+        code: "empty-dialogue",
+        message: `Dialogue of "Alex" has no text and will be skipped`,
+        sceneId: "intro",
+        actionIndex: 1,
+      },
+      {
+        severity: "warning",
+        code: "empty-dialogue",
+        message: `Dialogue has no text and will be skipped`,
+        sceneId: "intro",
+        actionIndex: 2,
+      },
+      {
+        severity: "warning",
+        code: "empty-dialogue",
+        message: `Dialogue "Who said that?" has no character and will be skipped`,
+        sceneId: "intro",
+        actionIndex: 3,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import { importInk } from "../../src/formats/ink.js";
+
+/**
+ * Compiled form of:
+ *
+ * ```ink
+ * VAR gold = 5
+ * VAR name = "Sam"
+ * Welcome.
+ * -> start
+ * === start ===
+ * Alex: Hello, {name}!
+ * ~ gold = gold + 1
+ * * [Wave] -> park
+ * * Leave now[.], Alex says
+ *   Alex: Bye.
+ *   -> END
+ * === park ===
+ * = bench
+ * Sam: Sit down.
+ * -> END
+ * ```
+ */
+const story = {
+  inkVersion: 21,
+  root: [
+    ["^Welcome.", "\n", { "->": "start" }, ["done", { "#f": 5, "#n": "g-0" }], null],
+    "done",
+    {
+      start: [
+        [
+          "^Alex: Hello, ", "ev", { "VAR?": "name" }, "out", "/ev", "^!", "\n",
+          "ev", { "VAR?": "gold" }, 1, "+", { "VAR=": "gold", re: true }, "/ev",
+          "ev", "str", "^Wave", "/str", "/ev", { "*": "start.0.c-0", flg: 20 },
+          [
+            "ev", { "^->": "start.0.19.$r1" }, { "temp=": "$r" }, "str", { "->": ".^.s" },
+            [{ "#n": "$r1" }], "/str", "str", "^.", "/str", "/ev",
+            { "*": "start.0.c-1", flg: 22 },
+            { s: ["^Leave now", { "->": "$r", var: true }, null] },
+          ],
+          {
+            "c-0": ["\n", { "->": "park" }, { "#f": 5 }],
+            "c-1": [
+              "ev", { "^->": "start.0.c-1.$r2" }, "/ev", { "->": "start.0.19.s" },
+              [{ "#n": "$r2" }], "^, Alex says", "\n", "^Alex: Bye.", "\n", "end",
+              { "#f": 5 },
+            ],
+          },
+        ],
+        { "#f": 1 },
+      ],
+      park: [{ "->": ".^.bench" }, { bench: ["^Sam: Sit down.", "\n", "end", { "#f": 1 }], "#f": 1 }],
+      "global decl": [
+        "ev", 5, { "VAR=": "gold" }, "str", "^Sam", "/str", { "VAR=": "name" }, "/ev", "end", null,
+      ],
+    },
+  ],
+  listDefs: {},
+};
+
+/** Wraps the content of a single knot in a compiled story. */
+const knot = (content: any[], named: object | null = null) => ({
+  inkVersion: 21,
+  root: [[{ "->": "k" }, null], "done", { k: [[...content, named], null] }],
+});
+
+describe("importInk", () => {
+  it("should map knots, stitches, lines, choices and variables to scenes", () => {
+    const { script, variables, warnings } = importInk(story);
+
+    expect(variables).toEqual({ gold: 5, name: "Sam" });
+    expect(script.scenes.map((scene) => scene.id)).toEqual([
+      "main",
+      "start",
+      "park",
+      "park.bench",
+      "start.c-1",
+    ]);
+
+    const scenes = script.toJSON().scenes;
+    expect(scenes[0].actions).toEqual([
+      { type: "setVariable", key: "gold", value: 5 },
+      { type: "setVariable", key: "name", value: "Sam" },
+      { type: "dialogue", character: "", text: "Welcome." },
+    ]);
+    expect(scenes[1].actions).toEqual([
+      { type: "dialogue", character: "Alex", text: "Hello, {name}!" },
+      { type: "incrementVariable", key: "gold", amount: 1 },
+      {
+        type: "choice",
+        choices: [
+          { text: "Wave", jumpTo: "park" },
+          { text: "Leave now.", jumpTo: "start.c-1" },
+        ],
+      },
+    ]);
+    expect(scenes[2].actions).toEqual([]);
+    expect(scenes[3].actions).toEqual([
+      { type: "dialogue", character: "Sam", text: "Sit down." },
+    ]);
+    expect(scenes[4].actions).toEqual([
+      { type: "dialogue", character: "", text: "Leave now, Alex says" },
+      { type: "dialogue", character: "Alex", text: "Bye." },
+    ]);
+
+    expect(warnings).toEqual([
+      {
+        message: `Scene "park.bench" ends the story, but will continue into scene "start.c-1"`,
+        location: "park.bench",
+      },
+    ]);
+  });
+
+  it("should accept JSON text with a byte order mark", () => {
+    const { script } = importInk("\uFEFF" + JSON.stringify(story));
+    expect(script.getScene("park.bench")).toBeDefined();
+  });
+
+  it("should use the narrator and main scene options", () => {
+    const { script } = importInk(story, { narrator: "Narrator", mainScene: "intro" });
+    expect(script.scenes[0].id).toBe("intro");
+    expect(script.scenes[0].actions[2].character?.name).toBe("Narrator");
+  });
+
+  it("should join glued text and print literal values", () => {
+    const { script } = importInk(
+      knot(["^Alex: Two", "<>", "\n", "^ parts and ", "ev", 3, "out", "/ev", "^ coins.", "\n", "end"])
+    );
+    expect(script.toJSON().scenes[1].actions).toEqual([
+      { type: "dialogue", character: "Alex", text: "Two parts and 3 coins." },
+    ]);
+  });
+
+  it("should map assignments to set and increment actions", () => {
+    const { script, warnings } = importInk(
+      knot([
+        "ev", true, { "VAR=": "met", re: true },
+        { "VAR?": "gold" }, 2, "-", { "VAR=": "gold", re: true },
+        { "VAR?": "gold" }, 2, "*", { "VAR=": "gold", re: true }, "/ev",
+        "end",
+      ])
+    );
+    expect(script.toJSON().scenes[1].actions).toEqual([
+      { type: "setVariable", key: "met", value: true },
+      { type: "incrementVariable", key: "gold", amount: -2 },
+    ]);
+    expect(warnings).toEqual([
+      { message: `Assignment to "gold" is too complex to import`, location: "k.0.10" },
+    ]);
+  });
+
+  it("should warn about unsupported features instead of dropping them silently", () => {
+    const { script, warnings } = importInk(
+      knot(
+        [
+          "#", "^mood: happy", "/#",
+          "^Hi", "\n",
+          "ev", { "VAR?": "gold" }, 5, ">", "/ev",
+          [{ "->": ".^.b", c: true }, { b: ["^Rich!", "\n", null] }],
+          "ev", { "CNT?": ".^" }, "/ev", "pop",
+          { "->t->": "tunnel" },
+          "thread",
+          "ev", "str", "^Secret", "/str", { "VAR?": "met" }, "/ev", { "*": "k.0.c-0", flg: 21 },
+          "done",
+        ],
+        { "c-0": ["^Found it", "\n", "end", null] }
+      )
+    );
+
+    expect(script.toJSON().scenes[1].actions).toEqual([
+      { type: "dialogue", character: "", text: "Hi" },
+      { type: "choice", choices: [{ text: "Secret", jumpTo: "k.c-0" }] },
+    ]);
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      `Tag "mood: happy" is not supported`,
+      `Conditional content is not supported and was skipped`,
+      `Visit counts are not supported`,
+      `Tunnels are not supported`,
+      `Threads are not supported`,
+      `Conditions on choices are not supported; the choice is always shown`,
+    ]);
+    expect(warnings[0].location).toBe("k.0.2");
+  });
+
+  it("should add jump actions for diverts that scene order cannot follow", () => {
+    const { script, warnings } = importInk({
+      inkVersion: 21,
+      root: [
+        [{ "->": "b" }, null],
+        "done",
+        {
+          a: [["^In a", "\n", { "->": "b" }, null], null],
+          b: [["^In b", "\n", "end", null], null],
+        },
+      ],
+    });
+
+    expect(script.scenes.map((scene) => scene.id)).toEqual(["main", "b", "a"]);
+    expect(script.toJSON().scenes[2].actions).toEqual([
+      { type: "dialogue", character: "", text: "In a" },
+      { type: "jump", jumpTo: "b" },
+    ]);
+    expect(warnings).toEqual([
+      {
+        message: `Scene "b" ends the story, but will continue into scene "a"`,
+        location: "b",
+      },
+    ]);
+  });
+
+  it("should report lists, newer Ink versions and missing targets", () => {
+    const { warnings } = importInk({
+      inkVersion: 22,
+      root: [[{ "->": "nowhere" }, "end", null], "done", null],
+      listDefs: { colors: { red: 1 } },
+    });
+    expect(warnings).toEqual([
+      { message: "Ink version 22 is newer than 21 and may not import correctly" },
+      { message: "LIST declarations are not supported" },
+      { message: `Divert target "nowhere" not found`, location: "0.0" },
+    ]);
+  });
+
+  it("should reject JSON that is not a compiled Ink story", () => {
+    expect(() => importInk({ scenes: [] })).toThrow(
+      `Not a compiled Ink story: "root" is missing`
+    );
+    expect(() => importInk("{")).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { parseScreenplay, ScreenplayError } from "../../src/formats/screenplay.js";
+
+const parse = (...lines: string[]) => parseScreenplay(lines.join("\n"));
+
+describe("parseScreenplay", () => {
+  it("should parse scenes, characters and every action type", () => {
+    const script = parse(
+      "// A comment",
+      "character Alex image=alex.png",
+      "",
+      "# scene park bg=park.png",
+      "show Alex left width=300px height=0.8",
+      "Alex: Hello!",
+      "image Alex alex-happy.png",
+      "set metAlex = true",
+      "set name = \"Alex Smith\"",
+      "increment friendship",
+      "increment gold -5",
+      "choice",
+      "  * Follow Alex -> alley [trustsAlex=true]",
+      "  * Stay",
+      "hide Alex",
+      "# scene alley",
+      "Alex: This way."
+    );
+
+    expect(script.scenes.map((scene) => scene.id)).toEqual(["park", "alley"]);
+    expect(script.getScene("park")?.options).toEqual({ background: "park.png" });
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "show", character: "Alex", position: "left", size: { width: "300px", height: 0.8 } },
+      { type: "dialogue", character: "Alex", text: "Hello!" },
+      { type: "setImage", character: "Alex", image: "alex-happy.png" },
+      { type: "setVariable", key: "metAlex", value: true },
+      { type: "setVariable", key: "name", value: "Alex Smith" },
+      { type: "incrementVariable", key: "friendship" },
+      { type: "incrementVariable", key: "gold", amount: -5 },
+      {
+        type: "choice",
+        choices: [
+          { text: "Follow Alex", jumpTo: "alley", set: { trustsAlex: true } },
+          { text: "Stay" },
+        ],
+      },
+      { type: "hide", character: "Alex" },
+    ]);
+
+    const alex = script.getScene("park")!.actions[0].character!;
+    expect(alex.image).toBe("alex.png");
+    expect(script.getScene("alley")!.actions[0].character).toBe(alex);
+  });
+
+  it("should parse dialogue options and action ids", () => {
+    const script = parse(
+      "# scene park",
+      "[typewriter] Alex: Typed",
+      "[fade id=greeting] Alex: Faded",
+      "[typewriter autoAdvance=1500] Alex: Moving on",
+      "[id=enter] show Alex",
+      "[id=pick] choice",
+      "* Go",
+      '"Mr. Smith": Time is 10:30'
+    );
+
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "dialogue", character: "Alex", text: "Typed", effect: "typewriter" },
+      { type: "dialogue", id: "greeting", character: "Alex", text: "Faded", effect: "fade" },
+      {
+        type: "dialogue",
+        character: "Alex",
+        text: "Moving on",
+        effect: "typewriter",
+        autoAdvance: 1500,
+      },
+      { type: "show", id: "enter", character: "Alex" },
+      { type: "choice", id: "pick", choices: [{ text: "Go" }] },
+      { type: "dialogue", character: "Mr. Smith", text: "Time is 10:30" },
+    ]);
+  });
+
+  it("should parse coordinate positions and character defaults", () => {
+    const script = parse(
+      "character Sam position=right width=0.3",
+      "# scene park",
+      "show Alex x=0.2 y=10%",
+      "show Sam",
+      "show Alex top-right"
+    );
+
+    const [alex, sam, corner] = script.getScene("park")!.actions;
+    expect(alex.position).toEqual({ x: 0.2, y: "10%" });
+    expect(corner.position).toBe("top-right");
+    expect(sam.position).toBe("right");
+    expect(sam.size).toEqual({ width: 0.3 });
+    expect(sam.character?.position).toBe("right");
+  });
+
+  it("should gate actions inside if/else blocks", () => {
+    const script = parse(
+      "# scene park",
+      "if gold >= 10 and not grumpy or vip",
+      "  Alex: Rich!",
+      "  if name == \"Sam\"",
+      "    Alex: Hi Sam.",
+      "  end",
+      "else",
+      "  Alex: Poor.",
+      "end",
+      "if chapter in [1, 2]",
+      "  Alex: Early on.",
+      "end"
+    );
+
+    const rich = {
+      any: [{ all: [{ var: "gold", gte: 10 }, { not: { var: "grumpy" } }] }, { var: "vip" }],
+    };
+    expect(script.getScene("park")!.actions.map((action) => action.condition)).toEqual([
+      rich,
+      { all: [rich, { var: "name", eq: "Sam" }] },
+      { not: rich },
+      { var: "chapter", in: [1, 2] },
+    ]);
+  });
+
+  it("should parse labels, jumps, waits and returns", () => {
+    const script = parse(
+      "# scene shop",
+      "label ask",
+      "Sam: Buying anything?",
+      "wait 1500",
+      "wait 500 skippable=false",
+      "if gold < 10",
+      "  jump #ask",
+      "end",
+      "jump street#exit",
+      "return"
+    );
+
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "label", label: "ask" },
+      { type: "dialogue", character: "Sam", text: "Buying anything?" },
+      { type: "wait", duration: 1500 },
+      { type: "wait", duration: 500, skippable: false },
+      { type: "jump", jumpTo: "#ask", condition: { var: "gold", lt: 10 } },
+      { type: "jump", jumpTo: "street#exit" },
+      { type: "return" },
+    ]);
+  });
+
+  it("should follow includes", () => {
+    const files: Record<string, string> = {
+      "chapter1.vn": "# scene one\nAlex: One\ninclude chapter2.vn",
+      "chapter2.vn": "# scene two\nAlex: Two",
+    };
+    const script = parseScreenplay("include chapter1.vn\n# scene three\nAlex: Three", {
+      file: "main.vn",
+      resolveInclude: (path) => files[path],
+    });
+
+    expect(script.scenes.map((scene) => scene.id)).toEqual(["one", "two", "three"]);
+  });
+
+  it("should reject circular includes", () => {
+    expect(() =>
+      parseScreenplay("include main.vn", {
+        file: "main.vn",
+        resolveInclude: () => "include main.vn",
+      })
+    ).toThrow('Circular include of "main.vn" (main.vn, line 1, column 1)');
+  });
+
+  it("should report errors with their line and column", () => {
+    const cases: [string[], string, number, number][] = [
+      [["# scene park", "  dance wildly"], 'Unknown command "dance"', 2, 3],
+      [["Alex: Hi"], 'Actions must come after a "# scene <id>" line', 1, 1],
+      [["# scene park", "show Alex middle"], 'Unknown position "middle"', 2, 11],
+      [["# scene park", "[shake] Alex: Hi"], 'Unknown option "shake"', 2, 2],
+      [["# scene park", "[fade] hide Alex"], 'Effect "fade" only applies to dialogue', 2, 2],
+      [["# scene park", "choice", "Alex: Hi"], "Choice has no options", 2, 1],
+      [["# scene park", "if gold", "Alex: Hi"], '"if" is never closed with "end"', 2, 1],
+      [["# scene park", "end"], '"end" without a matching "if"', 2, 1],
+      [["# scene park", "# scene park"], 'Scene "park" is already defined', 2, 9],
+      [["# scene park", "Alex:"], 'Dialogue for "Alex" has no text', 2, 6],
+      [["# scene park", 'show "Alex left'], "Unterminated string", 2, 6],
+      [["# scene park", "include other.vn"], "without a resolveInclude option", 2, 1],
+      [["# scene park", "jump"], 'Expected "jump <scene>[#label]"', 2, 1],
+      [["# scene park", "label a b"], 'Expected "label <name>"', 2, 9],
+      [["# scene park", "label a", "  label a"], 'Label "a" already exists in scene "park"', 3, 3],
+      [["# scene park", "wait soon"], "Duration must be a number of milliseconds", 2, 6],
+      [["# scene park", "wait 5 skip=no"], 'Unknown wait attribute "skip=no"', 2, 8],
+      [["# scene park", "return now"], '"return" takes no arguments', 2, 8],
+      [["# scene park", "[autoAdvance=-1] Alex: Hi"], '"autoAdvance" must be a number', 2, 14],
+      [["# scene park", "[autoAdvance=5] hide Alex"], "only applies to dialogue", 2, 2],
+      [["# scene park", "set a.b = 1"], 'Invalid variable name "a.b"', 2, 5],
+      [["# scene park", "increment a.b"], 'Invalid variable name "a.b"', 2, 11],
+      [["# scene park", "if x and not a.b", "end"], 'Invalid variable name "a.b"', 2, 14],
+    ];
+
+    for (const [lines, message, line, column] of cases) {
+      let error: unknown;
+      try {
+        parse(...lines);
+      } catch (e) {
+        error = e;
+      }
+      expect(error, message).toBeInstanceOf(ScreenplayError);
+      expect((error as ScreenplayError).message).toContain(message);
+      expect((error as ScreenplayError).line, message).toBe(line);
+      expect((error as ScreenplayError).column, message).toBe(column);
+    }
+  });
+
+  it("should name the file in errors from includes", () => {
+    try {
+      parseScreenplay("# scene park\ninclude broken.vn", {
+        resolveInclude: () => "\nhide",
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ScreenplayError).file).toBe("broken.vn");
+      expect((error as ScreenplayError).message).toBe(
+        'Expected "hide <character>" (broken.vn, line 2, column 1)'
+      );
+    }
+  });
+});
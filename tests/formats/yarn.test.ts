@@ -0,0 +1,336 @@
+import { describe, it, expect } from "vitest";
+import { importYarn } from "../../src/formats/yarn.js";
+import { Character, NAMED_POSITIONS } from "../../src/core/types.js";
+
+const yarn = (...lines: string[]) => lines.join("\n");
+
+const story = yarn(
+  "title: Start",
+  "position: 0,0",
+  "---",
+  "<<declare $gold = 5>>",
+  "<<show Alex left>>",
+  "Alex: Hi {$name}! #line:start1",
+  "A quiet morning.",
+  "<<set $gold to $gold + 2>>",
+  "<<set $met = true>>",
+  "<<if $gold >= 7>>",
+  "  Alex: You're rich.",
+  "<<elseif $met>>",
+  "  Alex: Hello again.",
+  "<<else>>",
+  "  Alex: Who are you?",
+  "<<endif>>",
+  "-> Go to the park",
+  "    <<jump Park>>",
+  "-> Wave",
+  "    Alex: Hi back!",
+  "    <<image Alex alex-happy.png>>",
+  "-> Stay quiet",
+  "Alex: Anyway.",
+  "===",
+  "title: Park",
+  "---",
+  "<<hide Alex>>",
+  "Sam: Nice day.",
+  "==="
+);
+
+describe("importYarn", () => {
+  it("should map nodes, lines, options, variables and commands to scenes", () => {
+    const alex = new Character("Alex", "alex.png");
+    const { script, variables, warnings } = importYarn(story, { characters: [alex] });
+
+    expect(variables).toEqual({ gold: 5 });
+    expect(script.scenes.map((scene) => scene.id)).toEqual([
+      "Start",
+      "Park",
+      "Start.option-1",
+      "Start.after-1",
+    ]);
+
+    const start = script.getScene("Start")!.actions;
+    expect(start[0].character).toBe(alex);
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "show", character: "Alex", position: "left" },
+      { type: "dialogue", id: "line:start1", character: "Alex", text: "Hi {name}!" },
+      { type: "dialogue", character: "", text: "A quiet morning." },
+      { type: "incrementVariable", key: "gold", amount: 2 },
+      { type: "setVariable", key: "met", value: true },
+      {
+        type: "dialogue",
+        character: "Alex",
+        text: "You're rich.",
+        condition: { var: "gold", gte: 7 },
+      },
+      {
+        type: "dialogue",
+        character: "Alex",
+        text: "Hello again.",
+        condition: { all: [{ not: { var: "gold", gte: 7 } }, { var: "met" }] },
+      },
+      {
+        type: "dialogue",
+        character: "Alex",
+        text: "Who are you?",
+        condition: { all: [{ not: { var: "gold", gte: 7 } }, { not: { var: "met" } }] },
+      },
+      {
+        type: "choice",
+        choices: [
+          { text: "Go to the park", jumpTo: "Park" },
+          { text: "Wave", jumpTo: "Start.option-1" },
+          { text: "Stay quiet", jumpTo: "Start.after-1" },
+        ],
+      },
+    ]);
+    expect(script.toJSON().scenes.slice(1).map((scene) => scene.actions)).toEqual([
+      [
+        { type: "hide", character: "Alex" },
+        { type: "dialogue", character: "Sam", text: "Nice day." },
+      ],
+      [
+        { type: "dialogue", character: "Alex", text: "Hi back!" },
+        { type: "setImage", character: "Alex", image: "alex-happy.png" },
+      ],
+      [{ type: "dialogue", character: "Alex", text: "Anyway." }],
+    ]);
+
+    expect(warnings).toEqual([
+      {
+        message: `Scene "Park" ends the story, but will continue into scene "Start.option-1"`,
+        location: "line 25",
+      },
+    ]);
+  });
+
+  it("should leave declared values out of the first node, which jumps can loop back to", () => {
+    const { script, variables } = importYarn(
+      yarn(
+        "title: Start", "---",
+        "<<declare $gold = 0>>",
+        "<<set $gold to $gold + 1>>",
+        "Alex: You have {$gold} gold.",
+        "-> Again",
+        "    <<jump Start>>",
+        "==="
+      )
+    );
+
+    expect(variables).toEqual({ gold: 0 });
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "incrementVariable", key: "gold", amount: 1 },
+      { type: "dialogue", character: "Alex", text: "You have {gold} gold." },
+      { type: "choice", choices: [{ text: "Again", jumpTo: "Start" }] },
+    ]);
+  });
+
+  it("should keep lines after options without content in the same scene", () => {
+    const { script } = importYarn(
+      yarn("title: Start", "---", "-> Yes", "-> No", "Alex: Either way.", "===")
+    );
+    expect(script.scenes).toHaveLength(1);
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "choice", choices: [{ text: "Yes" }, { text: "No" }] },
+      { type: "dialogue", character: "Alex", text: "Either way." },
+    ]);
+  });
+
+  it("should nest options inside option content", () => {
+    const { script } = importYarn(
+      yarn(
+        "title: Start",
+        "---",
+        "-> Ask",
+        "    -> Politely",
+        "        Alex: Sure.",
+        "    -> Rudely",
+        "-> Leave",
+        "==="
+      )
+    );
+    expect(script.scenes.map((scene) => scene.id)).toEqual([
+      "Start",
+      "Start.option-1",
+      "Start.option-2",
+    ]);
+    expect(script.toJSON().scenes[1].actions).toEqual([
+      {
+        type: "choice",
+        choices: [{ text: "Politely", jumpTo: "Start.option-2" }, { text: "Rudely" }],
+      },
+    ]);
+  });
+
+  it("should turn a trailing <<if>> into a condition on the line", () => {
+    const { script } = importYarn(
+      yarn("title: Start", "---", "Alex: Welcome back. <<if $visits > 1>>", "===")
+    );
+    expect(script.toJSON().scenes[0].actions[0]).toEqual({
+      type: "dialogue",
+      character: "Alex",
+      text: "Welcome back.",
+      condition: { var: "visits", gt: 1 },
+    });
+  });
+
+  it("should read a trailing <<if>> followed by line tags", () => {
+    const { script, warnings } = importYarn(
+      yarn(
+        "title: Start",
+        "---",
+        "Alex: Welcome back. <<if $visits > 1>> #line:b2",
+        "-> Buy <<if $gold > 1>> #line:a1",
+        "==="
+      )
+    );
+
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      {
+        type: "dialogue",
+        id: "line:b2",
+        character: "Alex",
+        text: "Welcome back.",
+        condition: { var: "visits", gt: 1 },
+      },
+      { type: "choice", choices: [{ text: "Buy" }] },
+    ]);
+    expect(warnings).toEqual([
+      {
+        message: `Conditions on options are not supported; the option is always shown`,
+        location: "line 4",
+      },
+    ]);
+  });
+
+  it("should order scenes to follow jumps and add jump actions where it cannot", () => {
+    const { script, warnings } = importYarn(
+      yarn(
+        "title: A", "---", "Alex: In A", "<<jump C>>", "===",
+        "title: B", "---", "Alex: In B", "<<jump C>>", "===",
+        "title: C", "---", "Alex: In C", "<<stop>>", "==="
+      ),
+      { file: "story.yarn" }
+    );
+    expect(script.scenes.map((scene) => scene.id)).toEqual(["A", "C", "B"]);
+    expect(script.getScene("A")!.actions.map((action) => action.type)).toEqual(["dialogue"]);
+    expect(script.toJSON().scenes[2].actions[1]).toEqual({ type: "jump", jumpTo: "C" });
+    expect(warnings).toEqual([
+      {
+        message: `Scene "C" ends the story, but will continue into scene "B"`,
+        location: "story.yarn, line 11",
+      },
+    ]);
+  });
+
+  it("should turn waits and jumps inside <<if>> into actions", () => {
+    const { script, warnings } = importYarn(
+      yarn(
+        "title: Start", "---",
+        "Alex: Wait for it.",
+        "<<wait 1.5>>",
+        "<<if $gold < 10>>",
+        "  <<jump Work>>",
+        "<<endif>>",
+        "Alex: Let's shop.",
+        "===",
+        "title: Work", "---", "Alex: Back to work.", "==="
+      )
+    );
+
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "dialogue", character: "Alex", text: "Wait for it." },
+      { type: "wait", duration: 1500 },
+      { type: "jump", jumpTo: "Work", condition: { var: "gold", lt: 10 } },
+      { type: "dialogue", character: "Alex", text: "Let's shop." },
+    ]);
+    expect(warnings).toEqual([
+      {
+        message: `Scene "Start" ends the story, but will continue into scene "Work"`,
+        location: "line 1",
+      },
+    ]);
+  });
+
+  it("should warn about unsupported features instead of dropping them silently", () => {
+    const { script, warnings } = importYarn(
+      yarn(
+        "title: Start",
+        "---",
+        "Alex: You have {$gold + 1} coins. #mood:happy",
+        "<<wait soon>>",
+        "<<if visited(\"Park\")>>",
+        "  Alex: Back again?",
+        "<<endif>>",
+        "<<if $met>>",
+        "  <<stop>>",
+        "<<endif>>",
+        "<<set $gold to $gold * 2>>",
+        "<<show Alex middle>>",
+        "-> Secret <<if $met>>",
+        "<<jump Nowhere>>",
+        "==="
+      )
+    );
+
+    expect(script.toJSON().scenes[0].actions).toEqual([
+      { type: "dialogue", character: "Alex", text: "You have  coins." },
+      { type: "dialogue", character: "Alex", text: "Back again?" },
+      { type: "show", character: "Alex" },
+      { type: "choice", choices: [{ text: "Secret" }] },
+    ]);
+    expect(warnings).toEqual([
+      { message: `Tag "#mood:happy" is not supported`, location: "line 3" },
+      { message: `Inline expression "{$gold + 1}" is not supported`, location: "line 3" },
+      { message: `Cannot read <<wait soon>>`, location: "line 4" },
+      {
+        message: `Condition "visited("Park")" is not supported; its lines always run`,
+        location: "line 5",
+      },
+      { message: `<<stop>> inside <<if>> is not supported`, location: "line 9" },
+      { message: `Assignment to "$gold" is too complex to import`, location: "line 11" },
+      {
+        message: `Unknown position "middle"; expected one of ${NAMED_POSITIONS.join(", ")}`,
+        location: "line 12",
+      },
+      {
+        message: `Conditions on options are not supported; the option is always shown`,
+        location: "line 13",
+      },
+      { message: `<<jump>> target "Nowhere" not found`, location: "line 14" },
+    ]);
+  });
+
+  it("should accept every position the renderer knows", () => {
+    const { script, warnings } = importYarn(
+      yarn("title: Start", "---", ...NAMED_POSITIONS.map((name) => `<<show Alex ${name}>>`), "===")
+    );
+
+    expect(script.getScene("Start")!.actions.map((action) => action.position)).toEqual([
+      ...NAMED_POSITIONS,
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("should reject malformed stories", () => {
+    expect(() => importYarn(yarn("position: 0,0", "---", "==="))).toThrow(
+      "Node has no title (line 1)"
+    );
+    expect(() => importYarn(yarn("title: A", "---", "Hi"))).toThrow(
+      `Node "A" is never closed with "===" (line 1)`
+    );
+    expect(() =>
+      importYarn(yarn("title: A", "---", "<<if $x>>", "Hi", "==="), { file: "a.yarn" })
+    ).toThrow("<<if>> is never closed with <<endif>> (a.yarn, line 3)");
+    expect(() => importYarn(yarn("title: A", "---", "<<endif>>", "==="))).toThrow(
+      "<<endif>> without a matching <<if>> (line 3)"
+    );
+    expect(() =>
+      importYarn(yarn("title: A", "---", "<<if $x>>", "<<else>>", "<<else>>", "<<endif>>", "==="))
+    ).toThrow("<<else>> after <<else>> (line 5)");
+    expect(() =>
+      importYarn(yarn("title: A", "---", "===", "title: A", "---", "==="))
+    ).toThrow(`Node "A" is already defined (line 4)`);
+    expect(() => importYarn("")).toThrow("Yarn story has no nodes");
+  });
+});
@@ -1,9 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { typewriter, fadeIn, fadeOut } from "../../src/renderer/effects.js";
+import {
+  typewriter,
+  fadeIn,
+  fadeOut,
+  wait,
+  prefersReducedMotion,
+} from "../../src/renderer/effects.js";
+import { parseMarkup } from "../../src/core/markup.js";
 
 describe("effects", () => {
   let element: HTMLElement;
 
+  /** Copy of an element without the part the typewriter has not typed yet. */
+  const getTyped = (element: HTMLElement): HTMLElement => {
+    const copy = element.cloneNode(true) as HTMLElement;
+    copy.querySelectorAll(".vn-typewriter-hidden").forEach((hidden) => hidden.remove());
+    return copy;
+  };
+  const getTypedText = (element: HTMLElement) => getTyped(element).textContent;
+  const getTypedHTML = (element: HTMLElement) => getTyped(element).innerHTML;
+
   beforeEach(() => {
     vi.useFakeTimers();
     element = document.createElement("div");
@@ -22,18 +38,18 @@ describe("effects", () => {
 
       await vi.advanceTimersByTimeAsync(100);
 
-      expect(element.textContent).toBe("H");
+      expect(getTypedText(element)).toBe("H");
 
       await vi.advanceTimersByTimeAsync(100);
 
-      expect(element.textContent).toBe("He");
+      expect(getTypedText(element)).toBe("He");
 
       // Fast-forward through all timers
       await vi.runAllTimersAsync();
 
       await promise;
 
-      expect(element.textContent).toBe("Hello");
+      expect(getTypedText(element)).toBe("Hello");
     });
 
     it("should use default speed if not specified", async () => {
@@ -44,21 +60,21 @@ describe("effects", () => {
       // default speed is 50 chars per second = 20ms per char
 
       await vi.advanceTimersByTimeAsync(20);
-      expect(element.textContent).toBe("T");
+      expect(getTypedText(element)).toBe("T");
 
       await vi.advanceTimersByTimeAsync(20);
-      expect(element.textContent).toBe("Te");
+      expect(getTypedText(element)).toBe("Te");
 
       await vi.advanceTimersByTimeAsync(20);
-      expect(element.textContent).toBe("Tes");
+      expect(getTypedText(element)).toBe("Tes");
 
       await vi.advanceTimersByTimeAsync(20);
-      expect(element.textContent).toBe("Test");
+      expect(getTypedText(element)).toBe("Test");
 
       await vi.runAllTimersAsync();
       await promise;
 
-      expect(element.textContent).toBe("Test");
+      expect(getTypedText(element)).toBe("Test");
     });
 
     it("should call onComplete callback", async () => {
@@ -80,7 +96,7 @@ describe("effects", () => {
       const promise = typewriter(element, text);
 
       // Check immediately after starting
-      expect(element.textContent).toBe("");
+      expect(getTypedText(element)).toBe("");
 
       await vi.runAllTimersAsync();
       await promise;
@@ -94,7 +110,7 @@ describe("effects", () => {
 
       await vi.advanceTimersByTimeAsync(200); // Should have displayed "He"
 
-      expect(element.textContent).toBe("He");
+      expect(getTypedText(element)).toBe("He");
 
       promise.cancel();
 
@@ -102,12 +118,146 @@ describe("effects", () => {
 
       await vi.advanceTimersByTimeAsync(100);
 
-      expect(element.textContent).toBe(text);
+      expect(getTypedText(element)).toBe(text);
 
       // Wait for promise to resolve
       await promise;
 
-      expect(element.textContent).toBe(text);
+      expect(getTypedText(element)).toBe(text);
+    });
+  });
+
+  describe("typewriter layout and pacing", () => {
+    it("should type emoji and accented letters whole", async () => {
+      typewriter(element, "👋🏽e\u0301!", { speed: 10 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(getTypedText(element)).toBe("👋🏽");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(getTypedText(element)).toBe("👋🏽e\u0301");
+    });
+
+    it("should lay out the text not yet typed invisibly", async () => {
+      const promise = typewriter(element, "Hello world", { speed: 10 });
+
+      await vi.advanceTimersByTimeAsync(300);
+      const hidden = element.querySelector(".vn-typewriter-hidden") as HTMLElement;
+      expect(hidden.textContent).toBe("lo world");
+      expect(hidden.style.visibility).toBe("hidden");
+      expect(hidden.getAttribute("aria-hidden")).toBe("true");
+      expect(element.textContent).toBe("Hello world");
+
+      await vi.runAllTimersAsync();
+      await promise;
+      expect(element.innerHTML).toBe("Hello world");
+    });
+
+    it("should remove the invisible text when cancelled", async () => {
+      const promise = typewriter(element, parseMarkup("[b]Hi[/b] there"));
+
+      await vi.advanceTimersByTimeAsync(20);
+      promise.cancel();
+      await promise;
+
+      expect(element.innerHTML).toBe("<b>Hi</b> there");
+    });
+
+    it("should pause after punctuation that ends a word", async () => {
+      typewriter(element, "Oh, hi.", { speed: 10 });
+
+      await vi.advanceTimersByTimeAsync(300);
+      expect(getTypedText(element)).toBe("Oh,");
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(getTypedText(element)).toBe("Oh,");
+      await vi.advanceTimersByTimeAsync(1);
+      expect(getTypedText(element)).toBe("Oh, ");
+    });
+
+    it("should not pause inside words or at the end", async () => {
+      const onComplete = vi.fn();
+      typewriter(element, "3.5!", { speed: 10, onComplete });
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(getTypedText(element)).toBe("3.5!");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(onComplete).toHaveBeenCalled();
+    });
+
+    it("should use custom punctuation pauses", async () => {
+      typewriter(element, "No. Yes", { speed: 10, punctuationPauses: { ".": 1000 } });
+
+      await vi.advanceTimersByTimeAsync(1399);
+      expect(getTypedText(element)).toBe("No.");
+      await vi.advanceTimersByTimeAsync(1);
+      expect(getTypedText(element)).toBe("No. ");
+    });
+
+    it("should type at an even pace without punctuation pauses", async () => {
+      typewriter(element, "Oh, hi.", { speed: 10, punctuationPauses: {} });
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(getTypedText(element)).toBe("Oh, ");
+    });
+  });
+
+  describe("typewriter with markup", () => {
+    it("should reveal text inside its formatting", async () => {
+      const promise = typewriter(element, parseMarkup("A[b]BC[/b]D"), { speed: 10 });
+      expect(getTypedHTML(element)).toBe("<b></b>");
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(getTypedHTML(element)).toBe("A<b>B</b>");
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(getTypedHTML(element)).toBe("A<b>BC</b>D");
+
+      await vi.runAllTimersAsync();
+      await promise;
+    });
+
+    it("should follow speed tags", async () => {
+      typewriter(element, parseMarkup("a[speed=5]bc[/speed]d"), { speed: 10 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(getTypedText(element)).toBe("a");
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(getTypedText(element)).toBe("a");
+      await vi.advanceTimersByTimeAsync(1);
+      expect(getTypedText(element)).toBe("ab");
+
+      await vi.advanceTimersByTimeAsync(300);
+      expect(getTypedText(element)).toBe("abcd");
+    });
+
+    it("should pause at wait tags", async () => {
+      const onComplete = vi.fn();
+      typewriter(element, parseMarkup("a[wait=500]b"), { speed: 10, onComplete });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(getTypedText(element)).toBe("a");
+
+      await vi.advanceTimersByTimeAsync(599);
+      expect(getTypedText(element)).toBe("a");
+      await vi.advanceTimersByTimeAsync(1);
+      expect(getTypedText(element)).toBe("ab");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(onComplete).toHaveBeenCalled();
+    });
+
+    it("should show the full formatted text when cancelled", async () => {
+      const promise = typewriter(element, parseMarkup("[i]Hi[/i][wait=1000] [color=red]you"));
+
+      await vi.advanceTimersByTimeAsync(20);
+      promise.cancel();
+      await promise;
+
+      expect(getTypedHTML(element)).toBe('<i>Hi</i> <span style="color: red;">you</span>');
+      expect(vi.getTimerCount()).toBe(0);
     });
   });
 
@@ -226,4 +376,44 @@ describe("effects", () => {
       expect(element.style.opacity).toBe("0");
     });
   });
+
+  describe("prefersReducedMotion", () => {
+    afterEach(() => {
+      delete (window as any).matchMedia;
+    });
+
+    it("should follow the prefers-reduced-motion media query", () => {
+      const matchMedia = vi.fn(() => ({ matches: true }));
+      Object.defineProperty(window, "matchMedia", { value: matchMedia, configurable: true });
+
+      expect(prefersReducedMotion()).toBe(true);
+      expect(matchMedia).toHaveBeenCalledWith("(prefers-reduced-motion: reduce)");
+    });
+
+    it("should return false when media queries are unavailable", () => {
+      expect(prefersReducedMotion()).toBe(false);
+    });
+  });
+
+  describe("wait", () => {
+    it("should resolve once the time is up", async () => {
+      let done = false;
+      wait(1000).then(() => (done = true));
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(done).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(done).toBe(true);
+    });
+
+    it("should resolve immediately and clear its timer when cancelled", async () => {
+      const promise = wait(1000);
+      promise.cancel();
+
+      await promise;
+      expect(promise.cancelled).toBe(true);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
 });
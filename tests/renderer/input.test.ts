@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { InputController, DEFAULT_INPUT_MAP } from "../../src/renderer/input.js";
+import type { InputAction, InputMap } from "../../src/renderer/input.js";
+
+describe("InputController", () => {
+  let container: HTMLElement;
+  let calls: [InputAction, boolean][];
+  let gamepads: (Gamepad | null)[];
+  let controller: InputController | undefined;
+
+  const listen = (map: InputMap = InputController.resolve(), used: boolean = true) => {
+    controller?.destroy();
+    controller = new InputController(container, map, (action, pressed) => {
+      calls.push([action, pressed]);
+      return used;
+    });
+  };
+
+  const key = (
+    type: "keydown" | "keyup",
+    init: KeyboardEventInit,
+    target: EventTarget = document.body
+  ): KeyboardEvent => {
+    const event = new KeyboardEvent(type, { bubbles: true, cancelable: true, ...init });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  const wheel = (deltaY: number): WheelEvent => {
+    const event = new WheelEvent("wheel", { deltaY, cancelable: true });
+    container.dispatchEvent(event);
+    return event;
+  };
+
+  const gamepad = (index: number, pressed: number[]): Gamepad =>
+    ({
+      index,
+      buttons: Array.from({ length: 16 }, (_, button) => ({
+        pressed: pressed.includes(button),
+      })),
+    }) as unknown as Gamepad;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    calls = [];
+    gamepads = [];
+    Object.defineProperty(navigator, "getGamepads", {
+      value: () => gamepads,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    controller?.destroy();
+    controller = undefined;
+    delete (navigator as any).getGamepads;
+    container.remove();
+    vi.useRealTimers();
+  });
+
+  describe("resolve", () => {
+    it("should return the defaults without overrides", () => {
+      expect(InputController.resolve()).toEqual(DEFAULT_INPUT_MAP);
+    });
+
+    it("should replace and remove single bindings", () => {
+      const map = InputController.resolve({
+        keys: { Tab: "skip", Control: null, H: "backlog" },
+        wheelUp: "backlog",
+        gamepadButtons: { 0: null },
+      });
+
+      expect(map.keys).toMatchObject({
+        Tab: "skip",
+        Control: null,
+        h: "backlog",
+        Enter: "advance",
+      });
+      expect(map.wheelUp).toBe("backlog");
+      expect(map.wheelDown).toBeNull();
+      expect(map.gamepadButtons).toMatchObject({ 0: null, 5: "skip" });
+    });
+  });
+
+  describe("keys", () => {
+    it("should report bound keys being pressed and released", () => {
+      listen();
+      key("keydown", { key: " " });
+      key("keydown", { key: "Control", ctrlKey: true });
+      key("keyup", { key: "Control" });
+      key("keydown", { key: "H" });
+      key("keydown", { key: "x" });
+
+      expect(calls).toEqual([
+        ["advance", true],
+        ["skip", true],
+        ["skip", false],
+        ["hideTextBox", true],
+      ]);
+    });
+
+    it("should prevent the default behavior of used keys only", () => {
+      listen();
+      expect(key("keydown", { key: " " }).defaultPrevented).toBe(true);
+      expect(key("keydown", { key: "x" }).defaultPrevented).toBe(false);
+
+      listen(InputController.resolve(), false);
+      expect(key("keydown", { key: "Enter" }).defaultPrevented).toBe(false);
+    });
+
+    it("should report held keys once", () => {
+      listen();
+      key("keydown", { key: "Control", ctrlKey: true });
+      key("keydown", { key: "Control", ctrlKey: true, repeat: true });
+
+      expect(calls).toEqual([["skip", true]]);
+    });
+
+    it("should ignore keys pressed with modifiers", () => {
+      listen();
+      key("keydown", { key: "a", ctrlKey: true });
+      key("keydown", { key: "h", metaKey: true });
+      key("keydown", { key: "Enter", altKey: true });
+
+      expect(calls).toEqual([]);
+    });
+
+    it("should ignore keys typed into text fields", () => {
+      listen();
+      const input = document.createElement("input");
+      const textarea = document.createElement("textarea");
+      container.append(input, textarea);
+
+      key("keydown", { key: "h" }, input);
+      key("keydown", { key: " " }, textarea);
+
+      expect(calls).toEqual([]);
+    });
+
+    it("should leave Space and Enter to focused buttons", () => {
+      listen();
+      const button = document.createElement("button");
+      container.appendChild(button);
+
+      key("keydown", { key: "Enter" }, button);
+      key("keydown", { key: " " }, button);
+      key("keydown", { key: "Escape" }, button);
+
+      expect(calls).toEqual([["menu", true]]);
+    });
+
+    it("should leave keys pressed inside another controller's target", () => {
+      listen();
+      const other = document.createElement("div");
+      const button = document.createElement("button");
+      other.appendChild(button);
+      document.body.appendChild(other);
+      const otherCalls: InputAction[] = [];
+      const otherController = new InputController(other, InputController.resolve(), (action) => {
+        otherCalls.push(action);
+        return true;
+      });
+
+      try {
+        key("keydown", { key: "h" }, button);
+        key("keydown", { key: "Escape" }, container);
+
+        expect(calls).toEqual([["menu", true]]);
+        expect(otherCalls).toEqual(["hideTextBox"]);
+      } finally {
+        otherController.destroy();
+        other.remove();
+      }
+    });
+
+    it("should stop reporting keys once destroyed", () => {
+      listen();
+      controller!.destroy();
+      key("keydown", { key: " " });
+
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe("wheel", () => {
+    it("should report scrolling up and down", () => {
+      listen(InputController.resolve({ wheelDown: "advance" }));
+      expect(wheel(-100).defaultPrevented).toBe(true);
+      wheel(100);
+
+      expect(calls).toEqual([
+        ["rollback", true],
+        ["advance", true],
+      ]);
+    });
+
+    it("should ignore unbound directions", () => {
+      listen();
+      expect(wheel(100).defaultPrevented).toBe(false);
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe("gamepads", () => {
+    it("should not poll before a gamepad connects", () => {
+      listen();
+      gamepads = [gamepad(0, [0])];
+      vi.advanceTimersByTime(100);
+
+      expect(calls).toEqual([]);
+    });
+
+    it("should report buttons being pressed and released", () => {
+      listen();
+      window.dispatchEvent(new Event("gamepadconnected"));
+
+      gamepads = [gamepad(0, [0, 5])];
+      vi.advanceTimersByTime(16);
+      vi.advanceTimersByTime(16);
+      gamepads = [gamepad(0, [0])];
+      vi.advanceTimersByTime(16);
+      gamepads = [gamepad(0, [])];
+      vi.advanceTimersByTime(16);
+
+      expect(calls).toEqual([
+        ["advance", true],
+        ["skip", true],
+        ["skip", false],
+        ["advance", false],
+      ]);
+    });
+
+    it("should tell gamepads apart", () => {
+      listen();
+      window.dispatchEvent(new Event("gamepadconnected"));
+
+      gamepads = [gamepad(0, [4]), gamepad(1, [])];
+      vi.advanceTimersByTime(16);
+      gamepads = [gamepad(0, [4]), gamepad(1, [4])];
+      vi.advanceTimersByTime(16);
+
+      expect(calls).toEqual([
+        ["rollback", true],
+        ["rollback", true],
+      ]);
+    });
+
+    it("should release buttons and stop polling once disconnected", () => {
+      listen();
+      window.dispatchEvent(new Event("gamepadconnected"));
+      gamepads = [gamepad(0, [5])];
+      vi.advanceTimersByTime(16);
+
+      gamepads = [null];
+      window.dispatchEvent(new Event("gamepaddisconnected"));
+
+      expect(calls).toEqual([
+        ["skip", true],
+        ["skip", false],
+      ]);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { parseMarkup } from "../../src/core/markup.js";
+import { renderMarkup, layoutMarkup } from "../../src/renderer/markup.js";
+
+describe("renderMarkup", () => {
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    element = document.createElement("div");
+    element.textContent = "Old text";
+  });
+
+  it("should build formatting elements", () => {
+    renderMarkup(element, parseMarkup("[b]Bold[/b] [i]it [color=#f00]red[/color][/i]"));
+
+    expect(element.innerHTML).toBe(
+      '<b>Bold</b> <i>it <span style="color: rgb(255, 0, 0);">red</span></i>'
+    );
+  });
+
+  it("should size text relative to the line", () => {
+    renderMarkup(element, parseMarkup("[size=1.5]big"));
+
+    expect((element.firstChild as HTMLElement).style.fontSize).toBe("1.5em");
+  });
+
+  it("should wrap each character of shaking text", () => {
+    renderMarkup(element, parseMarkup("[shake]Oh [b]no[/b][/shake]"));
+
+    const shake = element.querySelector(".vn-shake")!;
+    const characters = Array.from(shake.querySelectorAll(".vn-shake-char"));
+    expect(characters.map((character) => character.textContent)).toEqual(["O", "h", " ", "n", "o"]);
+    expect(shake.querySelector("b")!.textContent).toBe("no");
+  });
+
+  it("should show HTML as text", () => {
+    renderMarkup(element, parseMarkup('<img src=x onerror="alert(1)"> [b]<i>hi</i>[/b]'));
+
+    expect(element.querySelector("img")).toBeNull();
+    expect(element.querySelector("b")!.childElementCount).toBe(0);
+    expect(element.textContent).toBe('<img src=x onerror="alert(1)"> <i>hi</i>');
+  });
+
+  it("should leave speed and wait tags out of the DOM", () => {
+    renderMarkup(element, parseMarkup("[speed=5]slow[/speed][wait=100] fast"));
+
+    expect(element.innerHTML).toBe("slow fast");
+  });
+});
+
+describe("layoutMarkup", () => {
+  it("should list text runs and waits in reading order", () => {
+    const element = document.createElement("div");
+    const steps = layoutMarkup(element, parseMarkup("A[wait=100][b]B[speed=5]C[/speed][/b]"));
+
+    const summary = steps.map((step) =>
+      step.type === "wait"
+        ? step.duration
+        : [step.node.parentElement!.tagName, step.text, step.speed]
+    );
+    expect(summary).toEqual([["DIV", "A", undefined], 100, ["B", "B", undefined], ["B", "C", 5]]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { DOMRenderer } from "../../src/renderer/renderer.js";
+import type { RendererOptions } from "../../src/renderer/renderer.js";
 import { VNEngine } from "../../src/core/engine.js";
 import { Script, Scene, Character } from "../../src/core/types.js";
 
@@ -12,6 +13,13 @@ describe("DOMRenderer", () => {
   let getDialogueText: () => string;
   let getSpeakerName: () => string;
 
+  /** Text of an element without the part the typewriter has not typed yet. */
+  const getTypedText = (element: Element | null): string => {
+    const copy = element?.cloneNode(true) as Element | undefined;
+    copy?.querySelectorAll(".vn-typewriter-hidden").forEach((hidden) => hidden.remove());
+    return copy?.textContent || "";
+  };
+
   beforeEach(() => {
     vi.useFakeTimers();
 
@@ -19,9 +27,7 @@ describe("DOMRenderer", () => {
     container = document.createElement("div");
     container.id = "game-container";
     document.body.appendChild(container);
-    getDialogueText = () =>
-      (document.querySelector(".vn-dialogue-text") as HTMLElement)
-        ?.textContent || "";
+    getDialogueText = () => getTypedText(document.querySelector(".vn-dialogue-text"));
     getSpeakerName = () =>
       (document.querySelector(".vn-speaker-name") as HTMLElement)
         ?.textContent || "";
@@ -274,6 +280,53 @@ describe("DOMRenderer", () => {
       ) as HTMLElement;
       expect(dialogueText.textContent).toBe("Typewriter dialogue");
     });
+
+    it("should format markup in dialogue without reading it as HTML", async () => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      testScene.set("name", "<img src=x>");
+      character.say("[b]Hi[/b], {name}[wait=100]", { effect: "typewriter" });
+      testScript.addScene(testScene);
+
+      new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+
+      await vi.runAllTimersAsync();
+
+      const dialogueText = container.querySelector(".vn-dialogue-text") as HTMLElement;
+      expect(dialogueText.innerHTML).toBe("<b>Hi</b>, &lt;img src=x&gt;");
+      expect(container.querySelector(".vn-announcer")!.textContent).toBe(
+        "TestCharacter: Hi, <img src=x>"
+      );
+    });
+  });
+
+  describe("typewriter options", () => {
+    it("should pass punctuation pauses to the typewriter", async () => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      character.say("Hm. Ok", { effect: "typewriter" });
+      testScript.addScene(testScene);
+
+      new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+        renderer: { typewriterSpeed: 10, punctuationPauses: { ".": 1000 } },
+      });
+
+      await vi.advanceTimersByTimeAsync(1200);
+      expect(getDialogueText()).toBe("Hm.");
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Hm. Ok");
+    });
   });
 
   describe("scene navigation", () => {
@@ -1005,7 +1058,7 @@ describe("DOMRenderer", () => {
       await vi.advanceTimersByTime(20);
 
       // Verify typewriter is in progress (text is partial)
-      const partialText = dialogueText.textContent;
+      const partialText = getTypedText(dialogueText);
       expect(partialText).toBe("T");
 
       // Click to cancel animation and advance
@@ -1191,4 +1244,1092 @@ describe("DOMRenderer", () => {
       expect(speakerName.textContent).toBe("");
     });
   });
+
+  describe("choices", () => {
+    const createChoiceEngine = async () => {
+      const testScript = new Script();
+      const scene1 = new Scene("scene1");
+      const character = new Character("TestCharacter");
+      scene1.add(character);
+      character.say("Pick one");
+      scene1.choice([
+        { text: "Stay", set: { stayed: true } },
+        { text: "Leave", jumpTo: "scene2", set: { stayed: false } },
+      ]);
+      character.say("You stayed");
+      testScript.addScene(scene1);
+
+      const scene2 = new Scene("scene2");
+      scene2.add(character);
+      character.say("You left");
+      testScript.addScene(scene2);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const getChoiceButtons = () =>
+      Array.from(
+        container.querySelectorAll(".vn-choice")
+      ) as HTMLButtonElement[];
+
+    const clickDialogueBox = async () => {
+      (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+      await vi.runAllTimersAsync();
+    };
+
+    it("should keep the choice menu hidden until a choice is reached", async () => {
+      await createChoiceEngine();
+
+      const menu = container.querySelector(".vn-choice-menu") as HTMLElement;
+      expect(menu.style.display).toBe("none");
+      expect(getChoiceButtons()).toHaveLength(0);
+    });
+
+    it("should display a button for each option", async () => {
+      await createChoiceEngine();
+      await clickDialogueBox();
+
+      const menu = container.querySelector(".vn-choice-menu") as HTMLElement;
+      expect(menu.style.display).toBe("flex");
+      expect(getChoiceButtons().map((button) => button.textContent)).toEqual([
+        "Stay",
+        "Leave",
+      ]);
+    });
+
+    it("should not advance past the choice when the dialogue box is clicked", async () => {
+      await createChoiceEngine();
+      await clickDialogueBox();
+      await clickDialogueBox();
+
+      expect(getDialogueText()).toBe("Pick one");
+      expect(getChoiceButtons()).toHaveLength(2);
+    });
+
+    it("should continue the scene when an option without jumpTo is picked", async () => {
+      const testEngine = await createChoiceEngine();
+      await clickDialogueBox();
+
+      getChoiceButtons()[0].click();
+      await vi.runAllTimersAsync();
+
+      expect(testEngine.getVariable("stayed")).toBe(true);
+      expect(testEngine.currentScene?.id).toBe("scene1");
+      expect(getDialogueText()).toBe("You stayed");
+      expect(getChoiceButtons()).toHaveLength(0);
+    });
+
+    it("should jump to the option's scene when picked", async () => {
+      const testEngine = await createChoiceEngine();
+      await clickDialogueBox();
+
+      getChoiceButtons()[1].click();
+      await vi.runAllTimersAsync();
+
+      expect(testEngine.getVariable("stayed")).toBe(false);
+      expect(testEngine.currentScene?.id).toBe("scene2");
+      expect(getDialogueText()).toBe("You left");
+      const menu = container.querySelector(".vn-choice-menu") as HTMLElement;
+      expect(menu.style.display).toBe("none");
+    });
+
+    it("should close an open choice menu when the scene changes", async () => {
+      const testEngine = await createChoiceEngine();
+      await clickDialogueBox();
+
+      testEngine.jumpTo("scene2");
+      await vi.runAllTimersAsync();
+
+      expect(getChoiceButtons()).toHaveLength(0);
+      expect(getDialogueText()).toBe("You left");
+    });
+  });
+
+  describe("conditional actions", () => {
+    it("should skip actions whose condition does not hold", async () => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      testScene.when({ var: "hasKey" }, () => {
+        character.say("The door opens");
+      });
+      testScene.when({ not: { var: "hasKey" } }, () => {
+        character.say("The door is locked");
+      });
+      testScript.addScene(testScene);
+
+      new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+
+      await vi.runAllTimersAsync();
+
+      expect(getDialogueText()).toBe("The door is locked");
+    });
+
+    it("should evaluate conditions when the action is reached", async () => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      character.say("First");
+      testScene.when((vars) => vars.trust > 1, () => {
+        character.say("I trust you");
+      });
+      character.say("Last");
+      testScript.addScene(testScene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+
+      await vi.runAllTimersAsync();
+      testEngine.setVariable("trust", 2);
+
+      (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+      await vi.runAllTimersAsync();
+
+      expect(getDialogueText()).toBe("I trust you");
+    });
+
+    it("should skip gated show actions", async () => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.when({ var: "met" }, () => {
+        testScene.add(character);
+      });
+      testScript.addScene(testScene);
+
+      new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+
+      await vi.runAllTimersAsync();
+
+      expect(
+        container.querySelector('[data-character-name="TestCharacter"]')
+      ).toBeNull();
+    });
+  });
+
+  describe("variable actions", () => {
+    const createVariableEngine = async (
+      build: (scene: Scene, character: Character) => void
+    ) => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      character.say("Start");
+      build(testScene, character);
+      testScript.addScene(testScene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+      const changes: any[] = [];
+      testEngine.on("variableChange", (event) => changes.push(event.data));
+
+      await vi.runAllTimersAsync();
+      (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+      await vi.runAllTimersAsync();
+      return { testEngine, changes };
+    };
+
+    it("should set variables without blocking", async () => {
+      const { testEngine, changes } = await createVariableEngine(
+        (scene, character) => {
+          scene.set("metAlice", true);
+          character.say("Hello");
+        }
+      );
+
+      expect(testEngine.getVariable("metAlice")).toBe(true);
+      expect(changes).toEqual([{ key: "metAlice", value: true }]);
+      expect(getDialogueText()).toBe("Hello");
+    });
+
+    it("should apply updater functions to the current value", async () => {
+      const { testEngine } = await createVariableEngine((scene) => {
+        scene.set("trust", 2);
+        scene.set("trust", (v: number) => v * 10);
+      });
+
+      expect(testEngine.getVariable("trust")).toBe(20);
+    });
+
+    it("should increment variables, treating unset ones as 0", async () => {
+      const { testEngine, changes } = await createVariableEngine((scene) => {
+        scene.increment("trust");
+        scene.increment("trust", 4);
+      });
+
+      expect(testEngine.getVariable("trust")).toBe(5);
+      expect(changes.map((change) => change.value)).toEqual([1, 5]);
+    });
+
+    it("should let variable actions feed later conditions", async () => {
+      await createVariableEngine((scene, character) => {
+        scene.increment("trust", 3);
+        scene.when({ var: "trust", gte: 3 }, () => {
+          character.say("I trust you");
+        });
+        character.say("Goodbye");
+      });
+
+      expect(getDialogueText()).toBe("I trust you");
+    });
+  });
+
+  describe("dialogue interpolation", () => {
+    const createInterpolationEngine = async (
+      text: string,
+      effect?: "fade" | "typewriter"
+    ) => {
+      const testScript = new Script();
+      const testScene = new Scene("test-scene");
+      const character = new Character("TestCharacter");
+      testScene.add(character);
+      testScene.set("playerName", "Alex");
+      character.say(text, { effect });
+      testScript.addScene(testScene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "test-scene",
+      });
+
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    it("should resolve placeholders without an effect", async () => {
+      await createInterpolationEngine("Welcome back, {playerName}");
+      expect(getDialogueText()).toBe("Welcome back, Alex");
+    });
+
+    it("should resolve placeholders with the typewriter effect", async () => {
+      await createInterpolationEngine("Welcome back, {playerName}", "typewriter");
+      expect(getDialogueText()).toBe("Welcome back, Alex");
+    });
+
+    it("should resolve placeholders with the fade effect", async () => {
+      await createInterpolationEngine("Welcome back, {playerName}", "fade");
+      expect(getDialogueText()).toBe("Welcome back, Alex");
+    });
+
+    it("should leave missing placeholders visible", async () => {
+      await createInterpolationEngine("Hi {nickname}");
+      expect(getDialogueText()).toBe("Hi {nickname}");
+    });
+  });
+
+  describe("stage snapshots", () => {
+    const createStageEngine = async () => {
+      const testScript = new Script();
+      const scene1 = new Scene("scene1", { background: "park.png" });
+      const alex = new Character("Alex", "alex.png");
+      const sam = new Character("Sam", "sam.png");
+      scene1.add(alex, { position: "left", size: { width: "300px" } });
+      alex.say("Line 1");
+      scene1.add(sam, { position: "right" });
+      sam.say("Line 2");
+      scene1.addAction({ type: "setImage", character: alex, image: "alex-happy.png" });
+      sam.hide();
+      alex.say("Line 3");
+      alex.say("Line 4");
+      testScript.addScene(scene1);
+
+      const scene2 = new Scene("scene2", { background: "cafe.png" });
+      scene2.add(sam);
+      sam.say("Scene 2");
+      testScript.addScene(scene2);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const clickDialogueBox = async (times: number = 1) => {
+      for (let i = 0; i < times; i++) {
+        (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+        await vi.runAllTimersAsync();
+      }
+    };
+
+    const getCharacterElement = (name: string) =>
+      container.querySelector(`[data-character-name="${name}"]`) as HTMLElement | null;
+
+    it("should describe the action index, background and characters", async () => {
+      const testEngine = await createStageEngine();
+      await clickDialogueBox(2);
+
+      expect(getDialogueText()).toBe("Line 3");
+      expect(testEngine.snapshot().stage).toEqual({
+        actionIndex: 6,
+        background: "park.png",
+        characters: [
+          {
+            name: "Alex",
+            image: "alex-happy.png",
+            position: "left",
+            size: { width: "300px" },
+            visible: true,
+          },
+          { name: "Sam", image: "sam.png", position: "right", visible: false },
+        ],
+      });
+    });
+
+    it("should restore the screen and resume at the saved action", async () => {
+      const testEngine = await createStageEngine();
+      await clickDialogueBox(2);
+      await testEngine.save("1");
+
+      testEngine.next();
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Scene 2");
+
+      await testEngine.load("1");
+      await vi.runAllTimersAsync();
+
+      expect(testEngine.currentScene?.id).toBe("scene1");
+      expect(getDialogueText()).toBe("Line 3");
+      expect(getSpeakerName()).toBe("Alex");
+      const backgroundLayer = container.querySelector(
+        ".vn-background-layer"
+      ) as HTMLElement;
+      expect(backgroundLayer.style.backgroundImage).toContain("park.png");
+
+      const alex = getCharacterElement("Alex")!;
+      expect(alex.style.display).toBe("block");
+      expect(alex.style.width).toBe("300px");
+      expect(alex.querySelector("img")!.src).toContain("alex-happy.png");
+      expect(getCharacterElement("Sam")!.style.display).toBe("none");
+
+      await clickDialogueBox();
+      expect(getDialogueText()).toBe("Line 4");
+    });
+
+    it("should restore a pending choice", async () => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const character = new Character("TestCharacter");
+      scene.add(character);
+      character.say("Pick one");
+      scene.choice([{ text: "A" }, { text: "B" }]);
+      testScript.addScene(scene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+      await vi.runAllTimersAsync();
+      await clickDialogueBox();
+      const data = testEngine.snapshot();
+
+      testEngine.jumpTo("scene1");
+      await vi.runAllTimersAsync();
+      expect(container.querySelectorAll(".vn-choice")).toHaveLength(0);
+
+      testEngine.restore(data);
+      await vi.runAllTimersAsync();
+      expect(container.querySelectorAll(".vn-choice")).toHaveLength(2);
+    });
+
+    it("should resume at the anchored action after lines are inserted", async () => {
+      const buildScript = (extraLine: boolean) => {
+        const testScript = new Script();
+        const scene = new Scene("scene1");
+        const character = new Character("TestCharacter");
+        scene.add(character);
+        if (extraLine) {
+          character.say("A brand new line");
+        }
+        character.say("Line 1", { id: "line-1" });
+        character.say("Line 2");
+        testScript.addScene(scene);
+        return testScript;
+      };
+
+      const oldEngine = new VNEngine({
+        script: buildScript(false),
+        container: container,
+        startScene: "scene1",
+        storyVersion: "1.0",
+      });
+      await vi.runAllTimersAsync();
+      await clickDialogueBox();
+      expect(getDialogueText()).toBe("Line 2");
+      const data = oldEngine.snapshot();
+      expect(data.stage.anchor).toEqual({ id: "line-1", offset: 1 });
+
+      container.innerHTML = "";
+      const newEngine = new VNEngine({
+        script: buildScript(true),
+        container: container,
+        startScene: "scene1",
+        storyVersion: "1.1",
+        migrations: [{ from: "1.0", to: "1.1", migrate: (save) => save }],
+      });
+      await vi.runAllTimersAsync();
+
+      newEngine.restore(data);
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 2");
+    });
+  });
+
+  describe("rollback", () => {
+    const createRollbackEngine = async () => {
+      const testScript = new Script();
+      const scene1 = new Scene("scene1", { background: "park.png" });
+      const alex = new Character("Alex", "alex.png");
+      scene1.add(alex, { position: "left" });
+      alex.say("Line 1");
+      scene1.increment("trust");
+      alex.image = "alex-happy.png";
+      alex.say("Line 2");
+      alex.hide();
+      alex.say("Line 3");
+      testScript.addScene(scene1);
+
+      const scene2 = new Scene("scene2", { background: "cafe.png" });
+      scene2.add(alex);
+      alex.say("Scene 2");
+      testScript.addScene(scene2);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const clickDialogueBox = async (times: number = 1) => {
+      for (let i = 0; i < times; i++) {
+        (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+        await vi.runAllTimersAsync();
+      }
+    };
+
+    const getAlex = () =>
+      container.querySelector('[data-character-name="Alex"]') as HTMLElement;
+
+    it("should rewind to the previous line with its variables and sprites", async () => {
+      const testEngine = await createRollbackEngine();
+      await clickDialogueBox(2);
+      expect(getDialogueText()).toBe("Line 3");
+      expect(getAlex().style.display).toBe("none");
+
+      testEngine.back();
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 2");
+      expect(testEngine.getVariable("trust")).toBe(1);
+      expect(getAlex().style.display).toBe("block");
+      expect(getAlex().querySelector("img")!.src).toContain("alex-happy.png");
+
+      testEngine.back();
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 1");
+      expect(testEngine.getVariable("trust")).toBeUndefined();
+      expect(testEngine.back()).toBe(false);
+    });
+
+    it("should rewind across scenes and restore the background", async () => {
+      const testEngine = await createRollbackEngine();
+      await clickDialogueBox(3);
+      expect(getDialogueText()).toBe("Scene 2");
+
+      testEngine.back();
+      await vi.runAllTimersAsync();
+      expect(testEngine.currentScene?.id).toBe("scene1");
+      expect(getDialogueText()).toBe("Line 3");
+      const backgroundLayer = container.querySelector(
+        ".vn-background-layer"
+      ) as HTMLElement;
+      expect(backgroundLayer.style.backgroundImage).toContain("park.png");
+    });
+
+    it("should advance normally after rewinding", async () => {
+      const testEngine = await createRollbackEngine();
+      await clickDialogueBox(2);
+      testEngine.back();
+      await vi.runAllTimersAsync();
+
+      await clickDialogueBox();
+      expect(getDialogueText()).toBe("Line 3");
+      expect(testEngine.getVariable("trust")).toBe(1);
+    });
+
+    it("should roll back when the mouse wheel scrolls up", async () => {
+      await createRollbackEngine();
+      await clickDialogueBox();
+
+      container.dispatchEvent(new WheelEvent("wheel", { deltaY: 100 }));
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 2");
+
+      container.dispatchEvent(new WheelEvent("wheel", { deltaY: -100 }));
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 1");
+    });
+  });
+
+  describe("auto-play", () => {
+    const createAutoEngine = (autoPlayKey?: string | null) => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const alex = new Character("Alex");
+      scene.add(alex);
+      alex.say("Hi");
+      alex.say("Bye");
+      testScript.addScene(scene);
+
+      return new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+        renderer: autoPlayKey === undefined ? {} : { autoPlayKey },
+        autoPlay: { baseDelay: 1000, characterDelay: 0 },
+      });
+    };
+
+    const pressKey = (key: string, target: EventTarget = document.body) => {
+      target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+    };
+
+    it("should toggle auto-play with the A key", () => {
+      const testEngine = createAutoEngine();
+
+      pressKey("a");
+      expect(testEngine.isAutoPlaying).toBe(true);
+      pressKey("A");
+      expect(testEngine.isAutoPlaying).toBe(false);
+    });
+
+    it("should advance the dialogue by itself once the text is shown", async () => {
+      const testEngine = createAutoEngine();
+      pressKey("a");
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(getDialogueText()).toBe("Hi");
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(getDialogueText()).toBe("Bye");
+      expect(testEngine.isAutoPlaying).toBe(true);
+    });
+
+    it("should ignore the key while typing in a text field", () => {
+      const testEngine = createAutoEngine();
+      const input = document.createElement("input");
+      container.appendChild(input);
+
+      pressKey("a", input);
+      expect(testEngine.isAutoPlaying).toBe(false);
+    });
+
+    it("should use the configured key", () => {
+      const testEngine = createAutoEngine("o");
+
+      pressKey("a");
+      expect(testEngine.isAutoPlaying).toBe(false);
+      pressKey("o");
+      expect(testEngine.isAutoPlaying).toBe(true);
+    });
+
+    it("should have no shortcut when the key is null", () => {
+      const testEngine = createAutoEngine(null);
+
+      pressKey("a");
+      expect(testEngine.isAutoPlaying).toBe(false);
+    });
+  });
+
+  describe("input", () => {
+    const createInputEngine = async (options: RendererOptions = {}) => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const alex = new Character("Alex");
+      scene.add(alex);
+      alex.say("Line 1");
+      alex.say("Line 2");
+      alex.say("Line 3");
+      testScript.addScene(scene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+        renderer: options,
+      });
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const getRenderer = (testEngine: VNEngine) => testEngine.renderer as DOMRenderer;
+
+    const keyDown = (key: string, init: KeyboardEventInit = {}) => {
+      document.body.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true, ...init }));
+    };
+
+    const press = async (key: string, type: "keydown" | "keyup" = "keydown") => {
+      document.body.dispatchEvent(new KeyboardEvent(type, { key, bubbles: true }));
+      await vi.runAllTimersAsync();
+    };
+
+    it("should advance with Space, Enter and the arrow keys", async () => {
+      await createInputEngine();
+
+      await press(" ");
+      expect(getDialogueText()).toBe("Line 2");
+      await press("Enter");
+      expect(getDialogueText()).toBe("Line 3");
+    });
+
+    it("should finish the text effect before advancing", async () => {
+      const testEngine = await createInputEngine();
+      await press("ArrowRight");
+      expect(testEngine.isPresenting).toBe(false);
+
+      keyDown("ArrowDown");
+      expect(testEngine.isPresenting).toBe(true);
+      keyDown("ArrowDown");
+      expect(testEngine.isPresenting).toBe(false);
+      expect(getDialogueText()).toBe("Line 3");
+    });
+
+    it("should stop reacting to keys once destroyed", async () => {
+      const testEngine = await createInputEngine();
+      getRenderer(testEngine).destroy();
+
+      await press(" ");
+      await press("a");
+      expect(getDialogueText()).toBe("Line 1");
+      expect(testEngine.isAutoPlaying).toBe(false);
+    });
+
+    it("should skip while Ctrl is held", async () => {
+      const testEngine = await createInputEngine();
+
+      keyDown("Control", { ctrlKey: true });
+      expect(testEngine.isSkipping).toBe(true);
+      await press("Control", "keyup");
+      expect(testEngine.isSkipping).toBe(false);
+    });
+
+    it("should hide the text box with H and show it again before advancing", async () => {
+      const testEngine = await createInputEngine();
+      const renderer = getRenderer(testEngine);
+
+      await press("h");
+      expect(renderer.isTextBoxHidden).toBe(true);
+      await press(" ");
+      expect(renderer.isTextBoxHidden).toBe(false);
+      expect(getDialogueText()).toBe("Line 1");
+
+      await press("H");
+      container.click();
+      expect(renderer.isTextBoxHidden).toBe(false);
+      expect(getDialogueText()).toBe("Line 1");
+    });
+
+    it("should close the backlog with Escape, or ask the page for its menu", async () => {
+      const testEngine = await createInputEngine();
+      const renderer = getRenderer(testEngine);
+      const menu = vi.fn();
+      container.addEventListener("vn-menu", menu);
+
+      renderer.openBacklog();
+      await press("Escape");
+      expect(renderer.isBacklogOpen).toBe(false);
+      expect(menu).not.toHaveBeenCalled();
+
+      await press("Escape");
+      expect(menu).toHaveBeenCalledTimes(1);
+    });
+
+    it("should open the backlog with the wheel when bound to it", async () => {
+      const testEngine = await createInputEngine({ input: { wheelUp: "backlog" } });
+      await press(" ");
+
+      container.dispatchEvent(new WheelEvent("wheel", { deltaY: -100 }));
+      expect(getRenderer(testEngine).isBacklogOpen).toBe(true);
+      container.dispatchEvent(new WheelEvent("wheel", { deltaY: -100 }));
+      expect(getDialogueText()).toBe("Line 2");
+    });
+
+    it("should not roll back with the wheel while the backlog is open", async () => {
+      const testEngine = await createInputEngine();
+      await press(" ");
+
+      getRenderer(testEngine).openBacklog();
+      container.dispatchEvent(new WheelEvent("wheel", { deltaY: -100 }));
+      await vi.runAllTimersAsync();
+      expect(getDialogueText()).toBe("Line 2");
+    });
+
+    it("should use bindings from the input option", async () => {
+      const testEngine = await createInputEngine({
+        input: { keys: { Enter: null, s: "skip" } },
+      });
+
+      await press("Enter");
+      expect(getDialogueText()).toBe("Line 1");
+      keyDown("s");
+      expect(testEngine.isSkipping).toBe(true);
+    });
+
+    it("should advance with a gamepad's A button", async () => {
+      const pads = [{ index: 0, buttons: [{ pressed: true }] }];
+      Object.defineProperty(navigator, "getGamepads", { value: () => pads, configurable: true });
+      try {
+        await createInputEngine();
+        window.dispatchEvent(new Event("gamepadconnected"));
+        await vi.advanceTimersByTimeAsync(16);
+        expect(getDialogueText()).toBe("Line 2");
+
+        pads.length = 0;
+        window.dispatchEvent(new Event("gamepaddisconnected"));
+      } finally {
+        delete (navigator as any).getGamepads;
+      }
+    });
+  });
+
+  describe("accessibility", () => {
+    let alex: Character;
+
+    const createAccessibleEngine = async (options: RendererOptions = {}) => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      alex = new Character("Alex", "alex.png");
+      scene.add(alex);
+      alex.say("Hello there", { effect: "typewriter" });
+      alex.image = "alex-happy.png";
+      scene.choice([{ text: "Wave" }, { text: "Leave" }]);
+      alex.hide();
+      alex.say("Bye", { effect: "fade" });
+      testScript.addScene(scene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+        renderer: options,
+      });
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const getAnnouncements = () =>
+      Array.from(container.querySelectorAll(".vn-announcer p")).map((p) => p.textContent);
+
+    const clickDialogueBox = async () => {
+      (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+      await vi.runAllTimersAsync();
+    };
+
+    const getChoiceButtons = () =>
+      Array.from(container.querySelectorAll(".vn-choice")) as HTMLButtonElement[];
+
+    it("should give the game's parts roles and labels", async () => {
+      await createAccessibleEngine();
+
+      const dialogueBox = container.querySelector(".vn-dialogue-box") as HTMLElement;
+      expect(dialogueBox.getAttribute("role")).toBe("group");
+      expect(dialogueBox.getAttribute("aria-label")).toBe("Dialogue");
+      expect(dialogueBox.tabIndex).toBe(0);
+      expect(container.querySelector(".vn-choice-menu")!.getAttribute("role")).toBe("group");
+      expect(container.querySelector(".vn-backlog")!.getAttribute("role")).toBe("dialog");
+      expect(container.querySelector(".vn-backlog-entries")!.getAttribute("role")).toBe("log");
+      expect(container.querySelector(".vn-announcer")!.getAttribute("aria-live")).toBe("polite");
+    });
+
+    it("should announce a line once its text is fully displayed", async () => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const sam = new Character("Sam");
+      scene.add(sam);
+      sam.say("Hello there", { effect: "typewriter" });
+      testScript.addScene(scene);
+      new VNEngine({ script: testScript, container: container, startScene: "scene1" });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(getDialogueText()).not.toBe("Hello there");
+      expect(getAnnouncements()).toEqual([]);
+
+      await vi.runAllTimersAsync();
+      expect(getAnnouncements()).toEqual(["Sam: Hello there"]);
+    });
+
+    it("should announce a line finished early by a click", async () => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const sam = new Character("Sam");
+      scene.add(sam);
+      sam.say("Hello there", { effect: "typewriter" });
+      testScript.addScene(scene);
+      new VNEngine({ script: testScript, container: container, startScene: "scene1" });
+
+      await vi.advanceTimersByTimeAsync(100);
+      (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(getAnnouncements()).toEqual(["Sam: Hello there"]);
+    });
+
+    it("should not announce lines when turned off", async () => {
+      await createAccessibleEngine({ accessibility: { announceDialogue: false } });
+      expect(getAnnouncements()).toEqual([]);
+    });
+
+    it("should not narrate sprites by default", async () => {
+      await createAccessibleEngine();
+      await clickDialogueBox();
+      expect(getAnnouncements()).toEqual(["Alex: Hello there"]);
+    });
+
+    it("should narrate sprite changes when asked to", async () => {
+      await createAccessibleEngine({ accessibility: { narrateSprites: true } });
+      await clickDialogueBox();
+      getChoiceButtons()[0].click();
+      await vi.runAllTimersAsync();
+
+      expect(getAnnouncements()).toEqual([
+        "Alex appears.",
+        "Alex: Hello there",
+        "Alex changes expression.",
+        "Alex leaves.",
+        "Alex: Bye",
+      ]);
+    });
+
+    it("should word sprite narration with a function", async () => {
+      await createAccessibleEngine({
+        accessibility: {
+          narrateSprites: (change) =>
+            change.type === "image" ? null : `${change.character.name} (${change.type})`,
+        },
+      });
+      await clickDialogueBox();
+
+      expect(getAnnouncements()).toEqual(["Alex (show)", "Alex: Hello there"]);
+    });
+
+    it("should not narrate characters shown and hidden again when a save is restored", async () => {
+      const testEngine = await createAccessibleEngine({
+        accessibility: { narrateSprites: true, announceDialogue: false },
+      });
+      await clickDialogueBox();
+      getChoiceButtons()[0].click();
+      await vi.runAllTimersAsync();
+      const data = testEngine.snapshot();
+      container.querySelector(".vn-announcer")!.innerHTML = "";
+
+      testEngine.restore(data);
+      await vi.runAllTimersAsync();
+      expect(getAnnouncements()).toEqual([]);
+    });
+
+    it("should move focus to the choices and back to the dialogue box", async () => {
+      await createAccessibleEngine();
+      await clickDialogueBox();
+
+      const buttons = getChoiceButtons();
+      expect(buttons.map((button) => button.type)).toEqual(["button", "button"]);
+      expect(document.activeElement).toBe(buttons[0]);
+
+      buttons[0].click();
+      await vi.runAllTimersAsync();
+      expect(document.activeElement).toBe(container.querySelector(".vn-dialogue-box"));
+    });
+
+    it("should leave focus alone while the player uses something outside the game", async () => {
+      const field = document.createElement("input");
+      document.body.appendChild(field);
+      try {
+        await createAccessibleEngine();
+        field.focus();
+        await clickDialogueBox();
+
+        expect(document.activeElement).toBe(field);
+      } finally {
+        field.remove();
+      }
+    });
+
+    it("should show text and sprites at once with reduced motion", async () => {
+      const testEngine = await createAccessibleEngine({
+        accessibility: { reducedMotion: true },
+      });
+      await clickDialogueBox();
+      getChoiceButtons()[0].click();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(testEngine.isPresenting).toBe(false);
+      expect(getDialogueText()).toBe("Bye");
+      await testEngine.seenLinesReady;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should follow prefers-reduced-motion by default", async () => {
+      const matchMedia = vi.fn((query: string) => ({
+        matches: query === "(prefers-reduced-motion: reduce)",
+      }));
+      Object.defineProperty(window, "matchMedia", { value: matchMedia, configurable: true });
+      try {
+        const testScript = new Script();
+        const scene = new Scene("scene1");
+        const sam = new Character("Sam", "sam.png");
+        scene.add(sam);
+        sam.say("Hello there", { effect: "typewriter" });
+        testScript.addScene(scene);
+        const testEngine = new VNEngine({
+          script: testScript,
+          container: container,
+          startScene: "scene1",
+        });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(testEngine.isPresenting).toBe(false);
+        expect(getDialogueText()).toBe("Hello there");
+        expect(getAnnouncements()).toEqual(["Sam: Hello there"]);
+      } finally {
+        delete (window as any).matchMedia;
+      }
+    });
+  });
+
+  describe("backlog", () => {
+    const createBacklogEngine = async () => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const alex = new Character("Alex");
+      const sam = new Character("Sam");
+      scene.add(alex);
+      scene.add(sam);
+      scene.set("name", "Sam");
+      alex.say("Hi, {name}");
+      sam.say("Hello, Alex");
+      alex.say("Bye");
+      testScript.addScene(scene);
+
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+
+      await vi.runAllTimersAsync();
+      return testEngine;
+    };
+
+    const clickDialogueBox = async (times: number = 1) => {
+      for (let i = 0; i < times; i++) {
+        (container.querySelector(".vn-dialogue-box") as HTMLElement).click();
+        await vi.runAllTimersAsync();
+      }
+    };
+
+    const getBacklogTexts = () =>
+      Array.from(container.querySelectorAll(".vn-backlog-entry")).map(
+        (entry) =>
+          `${entry.querySelector(".vn-backlog-speaker")!.textContent}: ${
+            entry.querySelector(".vn-backlog-text")!.textContent
+          }`
+      );
+
+    it("should record each displayed line with its resolved text", async () => {
+      const testEngine = await createBacklogEngine();
+      await clickDialogueBox();
+
+      expect(testEngine.backlog.entries).toEqual([
+        { speaker: "Alex", text: "Hi, Sam", sceneId: "scene1", actionIndex: 3 },
+        { speaker: "Sam", text: "Hello, Alex", sceneId: "scene1", actionIndex: 4 },
+      ]);
+    });
+
+    it("should format markup in the backlog panel", async () => {
+      const testScript = new Script();
+      const scene = new Scene("scene1");
+      const alex = new Character("Alex");
+      scene.add(alex);
+      alex.say("[i]Quietly[/i]...");
+      testScript.addScene(scene);
+      const testEngine = new VNEngine({
+        script: testScript,
+        container: container,
+        startScene: "scene1",
+      });
+      await vi.runAllTimersAsync();
+
+      (testEngine.renderer as DOMRenderer).openBacklog();
+
+      expect(container.querySelector(".vn-backlog-text")!.innerHTML).toBe("<i>Quietly</i>...");
+    });
+
+    it("should list displayed lines in the backlog panel", async () => {
+      const testEngine = await createBacklogEngine();
+      await clickDialogueBox();
+
+      const panel = container.querySelector(".vn-backlog") as HTMLElement;
+      expect(panel.style.display).toBe("none");
+
+      testEngine.renderer!.openBacklog();
+      expect(testEngine.renderer!.isBacklogOpen).toBe(true);
+      expect(panel.style.display).toBe("flex");
+      expect(getBacklogTexts()).toEqual(["Alex: Hi, Sam", "Sam: Hello, Alex"]);
+    });
+
+    it("should not advance while the backlog is open", async () => {
+      const testEngine = await createBacklogEngine();
+      testEngine.renderer!.openBacklog();
+
+      await clickDialogueBox();
+      expect(getDialogueText()).toBe("Hi, Sam");
+
+      (container.querySelector(".vn-backlog-close") as HTMLElement).click();
+      expect(testEngine.renderer!.isBacklogOpen).toBe(false);
+      await clickDialogueBox();
+      expect(getDialogueText()).toBe("Hello, Alex");
+    });
+
+    it("should not duplicate lines when rolling back", async () => {
+      const testEngine = await createBacklogEngine();
+      await clickDialogueBox(2);
+
+      testEngine.back();
+      await vi.runAllTimersAsync();
+      expect(testEngine.backlog.entries.map((entry) => entry.text)).toEqual([
+        "Hi, Sam",
+        "Hello, Alex",
+      ]);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+} from "../../src/storage/storage.js";
+
+describe("MemoryStorageAdapter", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it("should return null for missing keys", async () => {
+    expect(await storage.get("missing")).toBeNull();
+  });
+
+  it("should set and get values", async () => {
+    await storage.set("a", "1");
+    expect(await storage.get("a")).toBe("1");
+  });
+
+  it("should remove values", async () => {
+    await storage.set("a", "1");
+    await storage.remove("a");
+    expect(await storage.get("a")).toBeNull();
+  });
+
+  it("should list keys", async () => {
+    await storage.set("a", "1");
+    await storage.set("b", "2");
+    expect(await storage.keys()).toEqual(["a", "b"]);
+  });
+
+  it("should not share values between instances", async () => {
+    await storage.set("a", "1");
+    expect(await new MemoryStorageAdapter().get("a")).toBeNull();
+  });
+});
+
+describe("LocalStorageAdapter", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should store values in localStorage under the default prefix", async () => {
+    const storage = new LocalStorageAdapter();
+    await storage.set("a", "1");
+    expect(localStorage.getItem("simple-visual-novel:a")).toBe("1");
+    expect(await storage.get("a")).toBe("1");
+  });
+
+  it("should return null for missing keys", async () => {
+    expect(await new LocalStorageAdapter().get("missing")).toBeNull();
+  });
+
+  it("should remove values", async () => {
+    const storage = new LocalStorageAdapter("game:");
+    await storage.set("a", "1");
+    await storage.remove("a");
+    expect(localStorage.getItem("game:a")).toBeNull();
+  });
+
+  it("should only list keys under its own prefix", async () => {
+    const storage = new LocalStorageAdapter("game:");
+    await storage.set("a", "1");
+    await new LocalStorageAdapter("other:").set("b", "2");
+    localStorage.setItem("unrelated", "3");
+
+    expect(await storage.keys()).toEqual(["a"]);
+  });
+});
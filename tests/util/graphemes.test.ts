@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { splitGraphemes } from "../../src/util/graphemes.js";
+
+const TEXT = "Hi 👋🏽 e\u0301 👨‍👩‍👧 🇯🇵❤️\r\n!";
+const CLUSTERS = ["H", "i", " ", "👋🏽", " ", "e\u0301", " ", "👨‍👩‍👧", " ", "🇯🇵", "❤️", "\r\n", "!"];
+
+describe("splitGraphemes", () => {
+  it("should keep grapheme clusters together", () => {
+    expect(splitGraphemes(TEXT)).toEqual(CLUSTERS);
+    expect(splitGraphemes("")).toEqual([]);
+  });
+
+  describe("without Intl.Segmenter", () => {
+    const Segmenter = Intl.Segmenter;
+
+    beforeEach(() => {
+      (Intl as any).Segmenter = undefined;
+    });
+
+    afterEach(() => {
+      Intl.Segmenter = Segmenter;
+    });
+
+    it("should keep common grapheme clusters together", () => {
+      expect(splitGraphemes(TEXT)).toEqual(CLUSTERS);
+    });
+
+    it("should pair flags", () => {
+      expect(splitGraphemes("🇯🇵🇫🇷")).toEqual(["🇯🇵", "🇫🇷"]);
+    });
+  });
+});